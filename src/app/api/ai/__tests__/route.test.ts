@@ -0,0 +1,339 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * AI API Route Tests
+ * プロバイダー呼び出しのテスト
+ */
+
+import { NextRequest } from 'next/server';
+import OpenAI from 'openai';
+import { POST } from '../route';
+import { getDefaultModel, mapCommonProviderError, registerProvider } from '../../../../services/providers';
+import { DEFAULT_SYSTEM_PROMPT } from '../../../../types';
+
+const mockStartChat = jest.fn();
+const mockSendMessage = jest.fn();
+const mockGetGenerativeModel = jest.fn();
+
+jest.mock('openai');
+jest.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+    getGenerativeModel: mockGetGenerativeModel,
+  })),
+}));
+
+const createRequest = (body: object) => new NextRequest('http://localhost/api/ai', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('POST /api/ai', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockGetGenerativeModel.mockReturnValue({ startChat: mockStartChat });
+    mockStartChat.mockReturnValue({ sendMessage: mockSendMessage });
+    mockSendMessage.mockResolvedValue({
+      response: {
+        text: () => '# Shortened',
+        usageMetadata: { promptTokenCount: 42, candidatesTokenCount: 8 },
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Model selection', () => {
+    it('should use the requested model when it is allowed', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        model: 'gemini-1.5-flash',
+        apiKey: 'AI-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'gemini-1.5-flash',
+      }));
+    });
+
+    it('should fall back to the default model when none is requested', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+        model: getDefaultModel('gemini'),
+      }));
+    });
+
+    it('should reject unregistered providers', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await POST(createRequest({
+        provider: 'unknown',
+        apiKey: 'key',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject models outside the allow-list', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await POST(createRequest({
+        provider: 'openai',
+        model: 'gemini-1.5-flash',
+        apiKey: 'sk-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(response.status).toBe(400);
+      expect(mockGetGenerativeModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('System prompt', () => {
+    it('should inject the default system prompt when none is provided', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+        systemInstruction: DEFAULT_SYSTEM_PROMPT,
+      }));
+    });
+
+    it('should use the configured system prompt without adding it to history', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        systemPrompt: 'Reply in English Markdown only.',
+        messages: [
+          { role: 'user', content: 'Write a README' },
+          { role: 'assistant', content: '# README' },
+          { role: 'user', content: 'Hello' },
+        ],
+      }));
+
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+        systemInstruction: 'Reply in English Markdown only.',
+      }));
+      expect(mockStartChat.mock.calls[0][0].history).toHaveLength(2);
+    });
+  });
+
+  describe('Document context', () => {
+    it('should pass the current document alongside the system prompt', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        document: '# Hand-edited',
+        messages: [{ role: 'user', content: 'Shorten it' }],
+      }));
+
+      const { systemInstruction } = mockGetGenerativeModel.mock.calls[0][0];
+      expect(systemInstruction.startsWith(DEFAULT_SYSTEM_PROMPT)).toBe(true);
+      expect(systemInstruction).toContain('<document>\n# Hand-edited\n</document>');
+      expect(mockSendMessage).toHaveBeenCalledWith('Shorten it', expect.anything());
+    });
+
+    it('should ask for a replacement of the selection only', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        document: '# Title\n\nA long paragraph.',
+        selection: 'A long paragraph.',
+        messages: [{ role: 'user', content: 'Summarize' }],
+      }));
+
+      const { systemInstruction } = mockGetGenerativeModel.mock.calls[0][0];
+      expect(systemInstruction).toContain('<document>\n# Title\n\nA long paragraph.\n</document>');
+      expect(systemInstruction).toContain('<selection>\nA long paragraph.\n</selection>');
+    });
+
+    it('should pass the summary of older requests', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        historySummary: '- Use ja-JP headings',
+        messages: [{ role: 'user', content: 'Add a section' }],
+      }));
+
+      const { systemInstruction } = mockGetGenerativeModel.mock.calls[0][0];
+      expect(systemInstruction).toContain('<history_summary>\n- Use ja-JP headings\n</history_summary>');
+    });
+
+    it('should pass the pinned instructions before the summary', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        pinnedInstructions: '敬体で書く',
+        historySummary: '- Use ja-JP headings',
+        messages: [{ role: 'user', content: 'Add a section' }],
+      }));
+
+      const { systemInstruction } = mockGetGenerativeModel.mock.calls[0][0];
+      expect(systemInstruction).toContain('<pinned_instructions>\n敬体で書く\n</pinned_instructions>');
+      expect(systemInstruction.indexOf('<pinned_instructions>')).toBeLessThan(systemInstruction.indexOf('<history_summary>'));
+    });
+
+    it('should omit the context block for empty documents', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        document: '  ',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(mockGetGenerativeModel.mock.calls[0][0].systemInstruction).toBe(DEFAULT_SYSTEM_PROMPT);
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should close the stream when the client aborts mid-response', async () => {
+      const client = new AbortController();
+      registerProvider({
+        id: 'abort-test',
+        name: 'Abort test',
+        label: 'Abort test',
+        models: [{ id: 'test-model', label: 'Test model' }],
+        apiKey: { storageKey: 'abort_test_api_key', placeholder: '', optional: true, getEnvValue: () => undefined },
+        send: jest.fn(),
+        stream: async () => (async function* () {
+          yield { type: 'delta' as const, content: '# Part' };
+          client.abort();
+          throw new Error('aborted');
+        })(),
+        mapError: mapCommonProviderError,
+      });
+
+      const response = await POST(new NextRequest('http://localhost/api/ai', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider: 'abort-test', stream: true, messages: [{ role: 'user', content: 'Hello' }] }),
+        signal: client.signal,
+      }));
+
+      const text = await response.text();
+      expect(text).toContain('# Part');
+      expect(text).not.toContain('"error"');
+    });
+  });
+
+  describe('Local provider', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+      process.env = { ...env, LOCAL_PROVIDER_BASE_URLS: 'http://localhost:11434/v1' };
+    });
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should reject requests without a base URL', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await POST(createRequest({
+        provider: 'local',
+        model: 'llama3.1',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: '接続先URLが必要です' });
+    });
+
+    it('should reject base URLs the server does not allow', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await POST(createRequest({
+        provider: 'local',
+        model: 'llama3.1',
+        baseUrl: 'http://169.254.169.254/latest',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(response.status).toBe(403);
+      expect(OpenAI).not.toHaveBeenCalled();
+    });
+
+    it('should reject requests without a model', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await POST(createRequest({
+        provider: 'local',
+        baseUrl: 'http://localhost:11434/v1',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Gemini', () => {
+    it('should send the full conversation as chat history', async () => {
+      const response = await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        temperature: 0.3,
+        maxTokens: 2000,
+        messages: [
+          { role: 'user', content: 'Write a README' },
+          { role: 'assistant', content: '# README' },
+          { role: 'user', content: 'now shorten section 2' },
+        ],
+      }));
+
+      expect(mockGetGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+        generationConfig: { temperature: 0.3, maxOutputTokens: 2000 },
+      }));
+      expect(mockStartChat).toHaveBeenCalledWith({
+        history: [
+          { role: 'user', parts: [{ text: 'Write a README' }] },
+          { role: 'model', parts: [{ text: '# README' }] },
+        ],
+      });
+      expect(mockSendMessage).toHaveBeenCalledWith('now shorten section 2', expect.anything());
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        content: '# Shortened',
+        usage: { promptTokens: 42, completionTokens: 8 },
+      });
+    });
+
+    it('should drop leading model turns and merge consecutive user turns', async () => {
+      await POST(createRequest({
+        provider: 'gemini',
+        apiKey: 'AI-test',
+        messages: [
+          { role: 'assistant', content: 'orphan reply' },
+          { role: 'user', content: 'first' },
+          { role: 'assistant', content: 'answer' },
+          { role: 'user', content: 'cancelled prompt' },
+          { role: 'user', content: 'retry' },
+        ],
+      }));
+
+      expect(mockStartChat).toHaveBeenCalledWith({
+        history: [
+          { role: 'user', parts: [{ text: 'first' }] },
+          { role: 'model', parts: [{ text: 'answer' }] },
+        ],
+      });
+      expect(mockSendMessage).toHaveBeenCalledWith('cancelled prompt\n\nretry', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * AI Models API Route Tests
+ * モデル一覧の取得（接続テスト）のテスト
+ */
+
+import { NextRequest } from 'next/server';
+import OpenAI from 'openai';
+import { POST } from '../route';
+
+jest.mock('openai');
+
+const createRequest = (body: object) => new NextRequest('http://localhost/api/ai/models', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('POST /api/ai/models', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    process.env = { ...env, LOCAL_PROVIDER_BASE_URLS: 'http://localhost:11434/v1' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('should return the allow-list for providers without a model listing', async () => {
+    const response = await POST(createRequest({ provider: 'openai', apiKey: 'sk-test' }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).models.length).toBeGreaterThan(0);
+  });
+
+  it('should not connect to base URLs the server does not allow', async () => {
+    const response = await POST(createRequest({ provider: 'local', baseUrl: 'http://169.254.169.254/latest' }));
+
+    expect(response.status).toBe(403);
+    expect(OpenAI).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AIProviderAdapter,
+  ProviderErrorLike,
+  getProvider,
+  isAllowedBaseUrl,
+  mapCommonProviderError,
+  validateCredentials
+} from '../../../../services/providers';
+
+/**
+ * 利用可能なモデル一覧を取得する（接続テストを兼ねる）
+ */
+export async function POST(request: NextRequest) {
+  let adapter: AIProviderAdapter | undefined;
+
+  try {
+    const body = await request.json();
+    const { provider, apiKey, baseUrl } = body;
+
+    adapter = typeof provider === 'string' ? getProvider(provider) : undefined;
+
+    console.log('AI Models Request:', {
+      provider,
+      hasApiKey: !!apiKey,
+      baseUrl
+    });
+
+    if (!adapter) {
+      console.error('Unsupported provider:', provider);
+      return NextResponse.json(
+        { error: 'サポートされていないプロバイダーです' },
+        { status: 400 }
+      );
+    }
+
+    const credentials = { apiKey: apiKey || '', baseUrl };
+    const credentialsError = validateCredentials(adapter, credentials);
+    if (credentialsError) {
+      return NextResponse.json(
+        { error: credentialsError },
+        { status: 400 }
+      );
+    }
+
+    // 接続先URLはサーバーで許可したものに限る（任意のホストへの接続を防ぐ）
+    if (adapter.baseUrl && !isAllowedBaseUrl(credentials.baseUrl!)) {
+      console.error('Base URL not allowed:', { provider, baseUrl });
+      return NextResponse.json(
+        { error: 'この接続先URLはサーバーで許可されていません（LOCAL_PROVIDER_BASE_URLS を設定してください）' },
+        { status: 403 }
+      );
+    }
+
+    // モデル一覧を提供しないプロバイダーは許可リストを返す
+    const models = adapter.listModels
+      ? await adapter.listModels(credentials, request.signal)
+      : [...adapter.models];
+
+    console.log('AI Models response sent successfully:', models.length);
+    return NextResponse.json({ models });
+
+  } catch (error) {
+    console.error('AI Models Error:', error);
+
+    const { errorMessage, statusCode } = adapter
+      ? adapter.mapError(error as ProviderErrorLike)
+      : mapCommonProviderError(error as ProviderErrorLike);
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: statusCode }
+    );
+  }
+}
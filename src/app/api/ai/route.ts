@@ -1,19 +1,160 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { AIStreamEvent, DEFAULT_SYSTEM_PROMPT } from '../../../types';
+import { STREAM_HEADERS, encodeStreamEvent } from '../../../services/streaming';
+import {
+  AIProviderAdapter,
+  ProviderErrorLike,
+  getDefaultModel,
+  getProvider,
+  isAllowedBaseUrl,
+  isAllowedModel,
+  mapCommonProviderError,
+  validateCredentials
+} from '../../../services/providers';
+
+/**
+ * 固定の指示・古い会話の要約・編集対象の文書・選択範囲をシステムプロンプトに付与する
+ * 会話履歴とは分けて渡し、最新の文書を基準に修正させる
+ */
+function withEditorContext(
+  systemPrompt: string,
+  document?: string,
+  selection?: string,
+  historySummary?: string,
+  pinnedInstructions?: string
+): string {
+  const sections = [systemPrompt];
+
+  // ユーザーが固定した指示（すべてのリクエストで守らせる）
+  if (pinnedInstructions && pinnedInstructions.trim()) {
+    sections.push(
+      '',
+      '次はユーザーが常に守るよう求めている指示です。以降のすべての応答でこの指示に従ってください。',
+      '<pinned_instructions>',
+      pinnedInstructions,
+      '</pinned_instructions>'
+    );
+  }
+
+  // 会話履歴より前の会話の要約（書式などの指示を引き継がせる）
+  if (historySummary && historySummary.trim()) {
+    sections.push(
+      '',
+      '次はこれより前の会話の要約です。以降の応答でも、ここに含まれるユーザーの指示や方針に従ってください。',
+      '<history_summary>',
+      historySummary,
+      '</history_summary>'
+    );
+  }
+
+  if (document && document.trim()) {
+    sections.push(
+      '',
+      'ユーザーはエディターで次の文書を編集しています。修正の指示はこの文書（<document>内）に対して適用してください。',
+      '<document>',
+      document,
+      '</document>'
+    );
+  }
+
+  // 選択範囲の編集では、選択範囲を置き換える内容だけを返させる
+  if (selection && selection.trim()) {
+    sections.push(
+      '',
+      'ユーザーは文書の一部（<selection>内）を選択し、その範囲だけの修正を依頼しています。',
+      '選択範囲を置き換える内容のみを出力し、文書全体や前置き・説明は出力しないでください。',
+      '<selection>',
+      selection,
+      '</selection>'
+    );
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * イベント列をSSEレスポンスに変換する
+ * ストリーム開始後のエラーはerrorイベントとして通知する
+ * クライアントが中断した場合（signal）は何も送信せずにストリームを閉じる
+ */
+function createStreamResponse(
+  events: AsyncGenerator<AIStreamEvent>,
+  adapter: AIProviderAdapter,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        }
+        console.log('AI API stream completed successfully');
+      } catch (error) {
+        if (signal.aborted) {
+          console.log('AI API stream cancelled by client');
+        } else {
+          console.error('AI API stream error:', error);
+          const { errorMessage, statusCode } = adapter.mapError(error as ProviderErrorLike);
+          controller.enqueue(encoder.encode(encodeStreamEvent({
+            type: 'error',
+            error: errorMessage,
+            status: statusCode
+          })));
+        }
+      }
+      // クライアントが切断済みの場合はcloseが失敗するため無視する
+      try {
+        controller.close();
+      } catch {
+        // ストリームはキャンセル済み
+      }
+    },
+    async cancel() {
+      // クライアントが切断した場合はプロバイダーへのストリームも終了する
+      await events.return(undefined);
+    }
+  });
+
+  return new Response(stream, { headers: STREAM_HEADERS });
+}
 
 export async function POST(request: NextRequest) {
+  let adapter: AIProviderAdapter | undefined;
+
   try {
     const body = await request.json();
-    const { messages, provider, apiKey, temperature = 0.3, maxTokens = 2000 } = body;
+    const { messages, provider, apiKey, baseUrl, temperature = 0.3, maxTokens = 2000, stream = false } = body;
+
+    // システムプロンプト未指定の場合はデフォルトを使用
+    const systemPrompt: string = typeof body.systemPrompt === 'string' && body.systemPrompt.trim()
+      ? body.systemPrompt
+      : DEFAULT_SYSTEM_PROMPT;
+    const document: string | undefined = typeof body.document === 'string' ? body.document : undefined;
+    const selection: string | undefined = typeof body.selection === 'string' ? body.selection : undefined;
+    const historySummary: string | undefined = typeof body.historySummary === 'string' ? body.historySummary : undefined;
+    const pinnedInstructions: string | undefined = typeof body.pinnedInstructions === 'string' ? body.pinnedInstructions : undefined;
+
+    // モデル未指定の場合はプロバイダーのデフォルトを使用
+    adapter = typeof provider === 'string' ? getProvider(provider) : undefined;
+    const model: string = body.model || (adapter ? getDefaultModel(adapter.id) : '');
 
     console.log('AI API Request:', {
       provider,
+      model,
       messagesCount: messages?.length,
       hasApiKey: !!apiKey,
       apiKeyPrefix: apiKey ? apiKey.substring(0, 8) + '...' : 'none',
+      baseUrl,
+      systemPromptLength: systemPrompt.length,
+      documentLength: document?.length ?? 0,
+      selectionLength: selection?.length ?? 0,
+      historySummaryLength: historySummary?.length ?? 0,
+      pinnedInstructionsLength: pinnedInstructions?.length ?? 0,
       temperature,
-      maxTokens
+      maxTokens,
+      stream
     });
 
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -24,93 +165,65 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!provider || !apiKey) {
-      console.error('Missing provider or apiKey:', { provider, hasApiKey: !!apiKey });
+    if (!provider) {
+      console.error('Missing provider:', { provider, hasApiKey: !!apiKey });
       return NextResponse.json(
         { error: 'プロバイダーとAPIキーが必要です' },
         { status: 400 }
       );
     }
 
-    let response;
-
-    if (provider === 'openai') {
-      // OpenAI API呼び出し
-      console.log('Calling OpenAI API...');
-      const openai = new OpenAI({
-        apiKey: apiKey,
-      });
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: messages.map((msg: any) => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        temperature: temperature,
-        max_tokens: maxTokens
-      });
-
-      console.log('OpenAI API response received');
-      const choice = completion.choices[0];
-      if (!choice?.message?.content) {
-        console.error('Invalid OpenAI response:', completion);
-        return NextResponse.json(
-          { error: 'AI APIから有効な応答を受信できませんでした' },
-          { status: 500 }
-        );
-      }
-
-      response = {
-        content: choice.message.content,
-        usage: completion.usage ? {
-          promptTokens: completion.usage.prompt_tokens,
-          completionTokens: completion.usage.completion_tokens
-        } : undefined
-      };
-
-    } else if (provider === 'gemini') {
-      // Gemini API呼び出し（シンプル版）
-      console.log('Calling Gemini API...');
-      const genAI = new GoogleGenerativeAI(apiKey);
-      
-      try {
-        // 最もシンプルなモデルを使用
-        const model = genAI.getGenerativeModel({ model: 'gemini-1.0-pro' });
-
-        // 最後のメッセージのみを使用（シンプル）
-        const lastMessage = messages[messages.length - 1];
-        const prompt = lastMessage.content;
-
-        console.log('Sending prompt to Gemini:', prompt.substring(0, 100) + '...');
-        
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
-
-        console.log('Gemini API response received successfully');
-        
-        if (!responseText) {
-          throw new Error('Empty response from Gemini API');
-        }
+    if (!adapter) {
+      console.error('Unsupported provider:', provider);
+      return NextResponse.json(
+        { error: 'サポートされていないプロバイダーです' },
+        { status: 400 }
+      );
+    }
 
-        response = {
-          content: responseText,
-          usage: undefined
-        };
+    const credentials = { apiKey: apiKey || '', baseUrl };
+    const credentialsError = validateCredentials(adapter, credentials);
+    if (credentialsError) {
+      console.error('Invalid credentials:', { provider, hasApiKey: !!apiKey, baseUrl });
+      return NextResponse.json(
+        { error: credentialsError },
+        { status: 400 }
+      );
+    }
 
-      } catch (geminiError: any) {
-        console.error('Gemini API specific error:', geminiError);
-        throw geminiError;
-      }
+    // 接続先URLはサーバーで許可したものに限る（任意のホストへの接続を防ぐ）
+    if (adapter.baseUrl && !isAllowedBaseUrl(credentials.baseUrl!)) {
+      console.error('Base URL not allowed:', { provider, baseUrl });
+      return NextResponse.json(
+        { error: 'この接続先URLはサーバーで許可されていません（LOCAL_PROVIDER_BASE_URLS を設定してください）' },
+        { status: 403 }
+      );
+    }
 
-    } else {
-      console.error('Unsupported provider:', provider);
+    if (!isAllowedModel(adapter.id, model)) {
+      console.error('Unsupported model:', { provider, model });
       return NextResponse.json(
-        { error: 'サポートされていないプロバイダーです' },
+        { error: `サポートされていないモデルです: ${model}` },
         { status: 400 }
       );
     }
 
+    const providerRequest = {
+      messages,
+      model,
+      systemPrompt: withEditorContext(systemPrompt, document, selection, historySummary, pinnedInstructions),
+      temperature,
+      maxTokens,
+      signal: request.signal
+    };
+
+    if (stream) {
+      const events = await adapter.stream(credentials, providerRequest);
+      return createStreamResponse(events, adapter, request.signal);
+    }
+
+    const response = await adapter.send(credentials, providerRequest);
+
     console.log('AI API response sent successfully');
     return NextResponse.json(response);
 
@@ -124,30 +237,12 @@ export async function POST(request: NextRequest) {
     });
 
     // エラーの種類に応じてメッセージを変更
-    let errorMessage = '予期しないエラーが発生しました';
-    let statusCode = 500;
-
-    if (error.status === 401 || error.code === 'invalid_api_key') {
-      errorMessage = 'APIキーが無効です。設定を確認してください。';
-      statusCode = 401;
-    } else if (error.status === 429) {
-      errorMessage = 'リクエスト制限に達しました。しばらく待ってから再試行してください。';
-      statusCode = 429;
-    } else if (error.status === 402) {
-      errorMessage = 'APIの使用量制限に達しました。アカウントの設定を確認してください。';
-      statusCode = 402;
-    } else if (error.status === 404 && error.message?.includes('models/')) {
-      errorMessage = 'AIモデルが見つかりません。サポートされているモデルを使用してください。';
-      statusCode = 404;
-    } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      errorMessage = '接続に失敗しました。ネットワーク接続を確認してください。';
-      statusCode = 503;
-    } else if (error.message) {
-      errorMessage = `API Error: ${error.message}`;
-    }
+    const { errorMessage, statusCode } = adapter
+      ? adapter.mapError(error)
+      : mapCommonProviderError(error);
 
     return NextResponse.json(
-      { 
+      {
         error: errorMessage,
         details: process.env.NODE_ENV === 'development' ? {
           originalError: error.message,
@@ -158,4 +253,4 @@ export async function POST(request: NextRequest) {
       { status: statusCode }
     );
   }
-}
\ No newline at end of file
+}
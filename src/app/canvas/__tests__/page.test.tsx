@@ -4,7 +4,7 @@
  */
 
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import CanvasPage from '../page';
 
 // Mock Monaco Editor
@@ -56,6 +56,23 @@ describe('CanvasPage', () => {
     expect(main).toHaveClass('flex', 'h-[calc(100vh-64px)]');
   });
 
+  it('should switch between source, split and preview layouts', () => {
+    render(<CanvasPage />);
+    const placeholder = 'AIが生成したMarkdownコードがここに表示されます...';
+
+    // 既定は分割表示
+    expect(screen.getByPlaceholderText(placeholder)).toBeInTheDocument();
+    expect(screen.getByTestId('markdown-preview')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'プレビュー' }));
+    expect(screen.queryByPlaceholderText(placeholder)).not.toBeInTheDocument();
+    expect(screen.getByTestId('markdown-preview')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'ソース' }));
+    expect(screen.getByPlaceholderText(placeholder)).toBeInTheDocument();
+    expect(screen.queryByTestId('markdown-preview')).not.toBeInTheDocument();
+  });
+
   it('should render file operation buttons in disabled state initially', () => {
     render(<CanvasPage />);
     
@@ -6,19 +6,38 @@ import { ErrorHandlingProvider, globalErrorHandler } from '../../contexts/ErrorH
 import { ErrorBoundary } from '../../components/ErrorBoundary';
 import { ChatArea } from '../../components/ChatArea';
 import { CodeEditor } from '../../components/CodeEditor';
+import { MarkdownPreview } from '../../components/MarkdownPreview';
 import { FileOperations } from '../../components/FileOperations';
 import { ApiKeySettings } from '../../components/ApiKeySettings';
+import { RecoveryNotice } from '../../components/RecoveryNotice';
+import { WorkspaceSidebar } from '../../components/WorkspaceSidebar';
+import { createScrollSync } from '../../utils/scrollSync';
+
+/**
+ * エディタエリアの表示モード
+ */
+type EditorLayoutMode = 'source' | 'split' | 'preview';
+
+const EDITOR_LAYOUT_MODES: { id: EditorLayoutMode; label: string }[] = [
+  { id: 'source', label: 'ソース' },
+  { id: 'split', label: '分割' },
+  { id: 'preview', label: 'プレビュー' },
+];
 
 /**
  * Canvas Page Content Component
  * 内部コンポーネント（AppStateProvider内で使用）
  */
 function CanvasPageContent() {
-  const { resetState, clearAllData, updateCode } = useAppState();
+  const { state, resetState, clearAllData, updateCode } = useAppState();
+  const activeWorkspace = state.workspaces.find(workspace => workspace.id === state.activeWorkspaceId);
   const [leftWidth, setLeftWidth] = useState(50); // 左側エリアの幅（%）
   const [isMobile, setIsMobile] = useState(false);
   const [activePanel, setActivePanel] = useState<'chat' | 'editor'>('chat'); // モバイル用
   const [isSettingsOpen, setIsSettingsOpen] = useState(false); // 設定画面の表示状態
+  const [isWorkspacesOpen, setIsWorkspacesOpen] = useState(false); // ワークスペース一覧の表示状態
+  const [layoutMode, setLayoutMode] = useState<EditorLayoutMode>('split'); // エディタエリアの表示モード
+  const [scrollSync] = useState(createScrollSync); // エディタとプレビューのスクロール同期
 
   /**
    * レスポンシブデザイン対応
@@ -89,6 +108,52 @@ function CanvasPageContent() {
     document.body.style.userSelect = 'none';
   };
 
+  /**
+   * エディタエリア（ファイル操作・ソース・プレビュー）
+   * 差分確認中の提案はソース側に表示するため、プレビューのみのモードでもソースを表示する
+   */
+  const renderEditorArea = () => {
+    const showSource = layoutMode !== 'preview' || !!state.pendingProposal;
+    const showPreview = layoutMode !== 'source';
+
+    return (
+      <>
+        {/* ファイル操作ボタン・表示モード切り替え */}
+        <div className="border-b border-gray-200 p-4 bg-gray-50 flex flex-wrap items-start gap-2">
+          <FileOperations className="flex-1" />
+          <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label="表示モード">
+            {EDITOR_LAYOUT_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => setLayoutMode(mode.id)}
+                aria-pressed={layoutMode === mode.id}
+                className={`px-3 py-2 transition-colors ${
+                  layoutMode === mode.id ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* コードエディタ・プレビュー */}
+        <div className={`flex-1 overflow-hidden flex ${isMobile ? 'flex-col' : ''}`}>
+          {showSource && (
+            <div className="flex-1 min-w-0 min-h-0">
+              <CodeEditor className="h-full w-full" scrollSync={showPreview ? scrollSync : undefined} />
+            </div>
+          )}
+          {showPreview && (
+            <div className={`flex-1 min-w-0 min-h-0 ${showSource ? (isMobile ? 'border-t' : 'border-l') : ''} border-gray-200`}>
+              <MarkdownPreview scrollSync={showSource ? scrollSync : undefined} />
+            </div>
+          )}
+        </div>
+      </>
+    );
+  };
+
   /**
    * モバイル用パネル切り替え
    */
@@ -101,9 +166,18 @@ function CanvasPageContent() {
       {/* ヘッダー */}
       <header className="bg-white border-b border-gray-200 px-4 py-3 shadow-sm">
         <div className="flex items-center justify-between">
-          <h1 className="text-lg md:text-xl font-semibold text-gray-900">
-            Markdown AI Canvas
-          </h1>
+          <div className="flex items-center gap-2 min-w-0">
+            <h1 className="text-lg md:text-xl font-semibold text-gray-900 flex-shrink-0">
+              Markdown AI Canvas
+            </h1>
+            <button
+              onClick={() => setIsWorkspacesOpen(true)}
+              className="px-2 md:px-3 py-1.5 text-xs md:text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors truncate max-w-[12rem] md:max-w-xs"
+              title="ワークスペース"
+            >
+              {activeWorkspace?.name}
+            </button>
+          </div>
           <div className="flex items-center gap-2">
             <button
               onClick={() => setIsSettingsOpen(true)}
@@ -189,15 +263,7 @@ function CanvasPageContent() {
               className="bg-white flex flex-col flex-shrink-0 transition-all duration-200 ease-in-out"
               style={{ width: `${100 - leftWidth - 0.1}%` }}
             >
-              {/* ファイル操作ボタン */}
-              <div className="border-b border-gray-200 p-4 bg-gray-50">
-                <FileOperations />
-              </div>
-              
-              {/* コードエディタ */}
-              <div className="flex-1 overflow-hidden">
-                <CodeEditor className="h-full w-full" />
-              </div>
+              {renderEditorArea()}
             </div>
           </>
         ) : (
@@ -210,15 +276,7 @@ function CanvasPageContent() {
 
             {/* エディタパネル */}
             <div className={`${activePanel === 'editor' ? 'flex flex-col' : 'hidden'} h-full bg-white`}>
-              {/* ファイル操作ボタン */}
-              <div className="border-b border-gray-200 p-4 bg-gray-50">
-                <FileOperations />
-              </div>
-              
-              {/* コードエディタ */}
-              <div className="flex-1 overflow-hidden">
-                <CodeEditor className="h-full w-full" />
-              </div>
+              {renderEditorArea()}
             </div>
           </>
         )}
@@ -229,6 +287,15 @@ function CanvasPageContent() {
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
       />
+
+      {/* ワークスペース一覧 */}
+      <WorkspaceSidebar
+        isOpen={isWorkspacesOpen}
+        onClose={() => setIsWorkspacesOpen(false)}
+      />
+
+      {/* 保存データを復元できなかった場合の通知 */}
+      <RecoveryNotice />
     </div>
   );
 }
@@ -1,9 +1,22 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { AI_CONFIG, DEFAULT_SYSTEM_PROMPT } from '../types';
+import {
+  AIModelOption,
+  getContextTokensStorageKey,
+  getDefaultContextTokens,
+  getDefaultModel,
+  getMaxContextTokens,
+  getProvider,
+  getProviders,
+  isAllowedModel,
+  isValidBaseUrl
+} from '../services/providers';
 
 /**
  * APIキー設定コンポーネント
+ * 表示するプロバイダーはプロバイダーレジストリから取得する
  */
 interface ApiKeySettingsProps {
   isOpen: boolean;
@@ -11,9 +24,15 @@ interface ApiKeySettingsProps {
 }
 
 export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
-  const [openaiKey, setOpenaiKey] = useState('');
-  const [geminiKey, setGeminiKey] = useState('');
-  const [selectedProvider, setSelectedProvider] = useState<'openai' | 'gemini'>('openai');
+  const providers = getProviders();
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+  const [baseUrls, setBaseUrls] = useState<Record<string, string>>({});
+  const [models, setModels] = useState<Record<string, string>>({});
+  const [availableModels, setAvailableModels] = useState<Record<string, AIModelOption[]>>({});
+  const [contextTokens, setContextTokens] = useState<Record<string, string>>({}); // 保存キー（プロバイダーとモデル）ごと
+  const [summarizeHistory, setSummarizeHistory] = useState(true);
+  const [systemPrompt, setSystemPrompt] = useState(DEFAULT_SYSTEM_PROMPT);
+  const [selectedProvider, setSelectedProvider] = useState(providers[0]?.id ?? '');
   const [isSaving, setIsSaving] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -21,19 +40,45 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
   // ローカルストレージからAPIキーを読み込み
   useEffect(() => {
     if (isOpen) {
-      const savedOpenaiKey = localStorage.getItem('openai_api_key') || '';
-      const savedGeminiKey = localStorage.getItem('gemini_api_key') || '';
-      const savedProvider = localStorage.getItem('ai_provider') as 'openai' | 'gemini' || 'openai';
-      
+      const savedKeys: Record<string, string> = {};
+      const savedBaseUrls: Record<string, string> = {};
+      const savedModels: Record<string, string> = {};
+      const savedContextTokens: Record<string, string> = {};
+
+      for (const provider of getProviders()) {
+        savedKeys[provider.id] = localStorage.getItem(provider.apiKey.storageKey) || '';
+        if (provider.baseUrl) {
+          savedBaseUrls[provider.id] = localStorage.getItem(provider.baseUrl.storageKey) || '';
+        }
+        const savedModel = localStorage.getItem(`${provider.id}_model`) || '';
+        savedModels[provider.id] = isAllowedModel(provider.id, savedModel)
+          ? savedModel
+          : getDefaultModel(provider.id);
+      }
+
+      // 会話履歴のトークン数はモデルごとに保存されている
+      for (let index = 0; index < localStorage.length; index++) {
+        const key = localStorage.key(index);
+        if (key?.endsWith('_context_tokens')) {
+          savedContextTokens[key] = localStorage.getItem(key) || '';
+        }
+      }
+
+      const savedProvider = localStorage.getItem('ai_provider') || '';
+
       console.log('Loading settings:', {
-        hasOpenAI: !!savedOpenaiKey,
-        hasGemini: !!savedGeminiKey,
-        provider: savedProvider
+        providers: Object.keys(savedKeys).filter(id => !!savedKeys[id]),
+        provider: savedProvider,
+        models: savedModels
       });
-      
-      setOpenaiKey(savedOpenaiKey);
-      setGeminiKey(savedGeminiKey);
-      setSelectedProvider(savedProvider);
+
+      setApiKeys(savedKeys);
+      setBaseUrls(savedBaseUrls);
+      setModels(savedModels);
+      setContextTokens(savedContextTokens);
+      setSummarizeHistory(localStorage.getItem('ai_summarize_history') !== 'false');
+      setSystemPrompt(localStorage.getItem('ai_system_prompt') || DEFAULT_SYSTEM_PROMPT);
+      setSelectedProvider(getProvider(savedProvider) ? savedProvider : getProviders()[0]?.id ?? '');
       setMessage(null);
     }
   }, [isOpen]);
@@ -44,43 +89,99 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
     setMessage(null);
 
     try {
-      // 選択されたプロバイダーのキーが入力されているかチェック
-      if (selectedProvider === 'openai' && !openaiKey.trim()) {
-        throw new Error('OpenAI APIキーを入力してください');
+      const provider = getProvider(selectedProvider);
+      if (!provider) {
+        throw new Error('AIプロバイダーを選択してください');
       }
-      if (selectedProvider === 'gemini' && !geminiKey.trim()) {
-        throw new Error('Gemini APIキーを入力してください');
+
+      // 選択されたプロバイダーのキーが入力されているかチェック
+      const selectedKey = (apiKeys[provider.id] || '').trim();
+      if (!selectedKey && !provider.apiKey.optional) {
+        throw new Error(`${provider.name} APIキーを入力してください`);
       }
 
       // APIキーの形式チェック
-      if (selectedProvider === 'openai' && !openaiKey.trim().startsWith('sk-')) {
-        throw new Error('OpenAI APIキーは "sk-" で始まる必要があります');
+      if (selectedKey && provider.apiKey.prefix && !selectedKey.startsWith(provider.apiKey.prefix)) {
+        throw new Error(`${provider.name} APIキーは "${provider.apiKey.prefix}" で始まる必要があります`);
       }
-      if (selectedProvider === 'gemini' && !geminiKey.trim().startsWith('AI')) {
-        throw new Error('Gemini APIキーは "AI" で始まる必要があります');
+
+      // 接続先URLのチェック
+      if (provider.baseUrl && !isValidBaseUrl((baseUrls[provider.id] || '').trim())) {
+        throw new Error('接続先URLを http:// または https:// から入力してください');
+      }
+
+      // モデルのチェック
+      if (!isAllowedModel(provider.id, (models[provider.id] || '').trim())) {
+        throw new Error('モデルを選択してください');
+      }
+
+      // 会話履歴のトークン数のチェック（空欄はモデルの既定値）
+      const selectedTokens = (contextTokens[getContextTokensStorageKey(provider.id, (models[provider.id] || '').trim())] || '').trim();
+      if (selectedTokens) {
+        const tokens = Number(selectedTokens);
+        const maxTokens = getMaxContextTokens(provider.id, (models[provider.id] || '').trim());
+        if (!Number.isInteger(tokens) || tokens < AI_CONFIG.minContextTokens || (maxTokens !== undefined && tokens > maxTokens)) {
+          throw new Error(
+            `会話履歴のトークン数は${AI_CONFIG.minContextTokens}${maxTokens !== undefined ? `〜${maxTokens}` : '以上'}の整数で入力してください`
+          );
+        }
       }
 
       // ローカルストレージに保存
-      if (openaiKey.trim()) {
-        localStorage.setItem('openai_api_key', openaiKey.trim());
-      } else {
-        localStorage.removeItem('openai_api_key');
+      for (const candidate of providers) {
+        const key = (apiKeys[candidate.id] || '').trim();
+        if (key) {
+          localStorage.setItem(candidate.apiKey.storageKey, key);
+        } else {
+          localStorage.removeItem(candidate.apiKey.storageKey);
+        }
+
+        if (candidate.baseUrl) {
+          const baseUrl = (baseUrls[candidate.id] || '').trim();
+          if (baseUrl) {
+            localStorage.setItem(candidate.baseUrl.storageKey, baseUrl);
+          } else {
+            localStorage.removeItem(candidate.baseUrl.storageKey);
+          }
+        }
+
+        const model = (models[candidate.id] || '').trim();
+        if (model) {
+          localStorage.setItem(`${candidate.id}_model`, model);
+        } else {
+          localStorage.removeItem(`${candidate.id}_model`);
+        }
+      }
+
+      for (const [key, value] of Object.entries(contextTokens)) {
+        const tokens = value.trim();
+        if (tokens) {
+          localStorage.setItem(key, tokens);
+        } else {
+          localStorage.removeItem(key);
+        }
       }
 
-      if (geminiKey.trim()) {
-        localStorage.setItem('gemini_api_key', geminiKey.trim());
+      localStorage.setItem('ai_provider', provider.id);
+
+      if (summarizeHistory) {
+        localStorage.removeItem('ai_summarize_history');
       } else {
-        localStorage.removeItem('gemini_api_key');
+        localStorage.setItem('ai_summarize_history', 'false');
       }
 
-      localStorage.setItem('ai_provider', selectedProvider);
+      // デフォルトと同じ（または空）の場合は保存せず、デフォルトの更新に追従させる
+      const trimmedPrompt = systemPrompt.trim();
+      if (trimmedPrompt && trimmedPrompt !== DEFAULT_SYSTEM_PROMPT) {
+        localStorage.setItem('ai_system_prompt', trimmedPrompt);
+      } else {
+        localStorage.removeItem('ai_system_prompt');
+      }
 
       // 環境変数を動的に設定（Next.jsのクライアントサイド用）
-      if (selectedProvider === 'openai' && openaiKey.trim()) {
-        (window as any).__NEXT_PUBLIC_OPENAI_API_KEY = openaiKey.trim();
-      }
-      if (selectedProvider === 'gemini' && geminiKey.trim()) {
-        (window as any).__NEXT_PUBLIC_GEMINI_API_KEY = geminiKey.trim();
+      if (selectedKey) {
+        const windowKeys = window as unknown as Record<string, string | undefined>;
+        windowKeys[`__NEXT_PUBLIC_${provider.id.toUpperCase()}_API_KEY`] = selectedKey;
       }
 
       // AI Serviceインスタンスをリセット（次回使用時に新しい設定で作成される）
@@ -94,22 +195,53 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
       }
 
       setMessage({ type: 'success', text: 'APIキーが保存されました' });
-      
+
       // 2秒後に自動で閉じる
       setTimeout(() => {
         onClose();
       }, 2000);
 
     } catch (error) {
-      setMessage({ 
-        type: 'error', 
-        text: error instanceof Error ? error.message : 'APIキーの保存に失敗しました' 
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'APIキーの保存に失敗しました'
       });
     } finally {
       setIsSaving(false);
     }
   };
 
+  // 接続テスト（モデル一覧の取得）
+  const handleTestConnection = async () => {
+    const provider = getProvider(selectedProvider);
+    if (!provider) return;
+
+    setIsTesting(true);
+    setMessage(null);
+
+    try {
+      const { fetchProviderModels } = await import('../services/aiService');
+      const fetched = await fetchProviderModels(provider.id, {
+        apiKey: (apiKeys[provider.id] || '').trim(),
+        baseUrl: (baseUrls[provider.id] || '').trim() || undefined,
+      });
+
+      setAvailableModels(prev => ({ ...prev, [provider.id]: fetched }));
+      if (!(models[provider.id] || '').trim() && fetched.length > 0) {
+        setModels(prev => ({ ...prev, [provider.id]: fetched[0].id }));
+      }
+
+      setMessage({ type: 'success', text: `接続に成功しました（モデル ${fetched.length} 件）` });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '接続テストに失敗しました'
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
   // APIキーをマスク表示
   const maskApiKey = (key: string) => {
     if (!key) return '';
@@ -119,6 +251,13 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
 
   if (!isOpen) return null;
 
+  const currentProvider = getProvider(selectedProvider);
+  const currentModel = currentProvider
+    ? (models[currentProvider.id] || '').trim() || getDefaultModel(currentProvider.id)
+    : '';
+  const currentMaxTokens = currentProvider ? getMaxContextTokens(currentProvider.id, currentModel) : undefined;
+  const currentTokensKey = currentProvider ? getContextTokensStorageKey(currentProvider.id, currentModel) : '';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -144,78 +283,190 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
               AIプロバイダー
             </label>
             <div className="space-y-2">
-              <label className="flex items-center">
+              {providers.map(provider => (
+                <label key={provider.id} className="flex items-center">
+                  <input
+                    type="radio"
+                    name="provider"
+                    value={provider.id}
+                    checked={selectedProvider === provider.id}
+                    onChange={(e) => setSelectedProvider(e.target.value)}
+                    className="mr-2"
+                  />
+                  <span className="text-sm text-gray-700">{provider.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* 接続先URL */}
+          {currentProvider?.baseUrl && (
+            <div>
+              <label htmlFor={`${currentProvider.id}-base-url`} className="block text-sm font-medium text-gray-700 mb-2">
+                接続先URL
+                <span className="text-red-500 ml-1">*</span>
+              </label>
+              <div className="flex gap-2">
                 <input
-                  type="radio"
-                  name="provider"
-                  value="openai"
-                  checked={selectedProvider === 'openai'}
-                  onChange={(e) => setSelectedProvider(e.target.value as 'openai')}
-                  className="mr-2"
+                  id={`${currentProvider.id}-base-url`}
+                  type="url"
+                  value={baseUrls[currentProvider.id] || ''}
+                  onChange={(e) => setBaseUrls(prev => ({ ...prev, [currentProvider.id]: e.target.value }))}
+                  placeholder={currentProvider.baseUrl.placeholder}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
-                <span className="text-sm text-gray-700">OpenAI (GPT-4, GPT-3.5) - 推奨</span>
+                {currentProvider.listModels && (
+                  <button
+                    onClick={handleTestConnection}
+                    disabled={isTesting}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                  >
+                    {isTesting ? 'テスト中...' : '接続テスト'}
+                  </button>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                接続はサーバーから行います。サーバーの環境変数 LOCAL_PROVIDER_BASE_URLS に列挙したURLのみ使用できます（開発環境で未設定の場合はlocalhostのみ）
+              </p>
+            </div>
+          )}
+
+          {/* モデル選択 */}
+          {currentProvider && (
+            <div>
+              <label htmlFor="ai-model" className="block text-sm font-medium text-gray-700 mb-2">
+                モデル
               </label>
-              <label className="flex items-center">
+              {currentProvider.allowCustomModels ? (
+                <>
+                  <input
+                    id="ai-model"
+                    type="text"
+                    list="ai-model-options"
+                    value={models[currentProvider.id] || ''}
+                    onChange={(e) => setModels(prev => ({ ...prev, [currentProvider.id]: e.target.value }))}
+                    placeholder="例: llama3.1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <datalist id="ai-model-options">
+                    {(availableModels[currentProvider.id] || []).map(option => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </datalist>
+                </>
+              ) : (
+                <select
+                  id="ai-model"
+                  value={models[currentProvider.id] || getDefaultModel(currentProvider.id)}
+                  onChange={(e) => setModels(prev => ({ ...prev, [currentProvider.id]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {currentProvider.models.map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                {currentProvider.allowCustomModels
+                  ? '接続テストで取得したモデルから選択するか、モデル名を入力してください'
+                  : 'プロバイダーごとに選択したモデルが保存されます'}
+              </p>
+            </div>
+          )}
+
+          {/* 会話履歴として送信するトークン数 */}
+          {currentProvider && (
+            <div>
+              <label htmlFor="context-tokens" className="block text-sm font-medium text-gray-700 mb-2">
+                会話履歴のトークン数
+              </label>
+              <input
+                id="context-tokens"
+                type="number"
+                inputMode="numeric"
+                min={AI_CONFIG.minContextTokens}
+                max={currentMaxTokens}
+                step={500}
+                value={contextTokens[currentTokensKey] || ''}
+                onChange={(e) => setContextTokens(prev => ({ ...prev, [currentTokensKey]: e.target.value }))}
+                placeholder={`既定: ${getDefaultContextTokens(currentProvider.id, currentModel)}`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                新しいメッセージから順に、この上限（目安）まで会話履歴を送信します（モデルごとに保存されます）
+                {currentMaxTokens !== undefined && `（このモデルでは最大 ${currentMaxTokens}）`}
+              </p>
+              <label className="mt-2 flex items-center text-sm text-gray-700">
                 <input
-                  type="radio"
-                  name="provider"
-                  value="gemini"
-                  checked={selectedProvider === 'gemini'}
-                  onChange={(e) => setSelectedProvider(e.target.value as 'gemini')}
+                  type="checkbox"
+                  checked={summarizeHistory}
+                  onChange={(e) => setSummarizeHistory(e.target.checked)}
                   className="mr-2"
                 />
-                <span className="text-sm text-gray-700">Google Gemini - 実験的</span>
+                上限を超えた古い会話をAIで要約して送信する
               </label>
             </div>
-          </div>
+          )}
 
-          {/* OpenAI APIキー */}
-          <div>
-            <label htmlFor="openai-key" className="block text-sm font-medium text-gray-700 mb-2">
-              OpenAI APIキー
-              {selectedProvider === 'openai' && <span className="text-red-500 ml-1">*</span>}
-            </label>
-            <input
-              id="openai-key"
-              type="password"
-              value={openaiKey}
-              onChange={(e) => setOpenaiKey(e.target.value)}
-              placeholder="sk-..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-            {openaiKey && (
-              <p className="mt-1 text-xs text-gray-500">
-                保存済み: {maskApiKey(openaiKey)}
-              </p>
-            )}
-          </div>
+          {/* プロバイダーごとのAPIキー */}
+          {providers.map(provider => (
+            <div key={provider.id}>
+              <label htmlFor={`${provider.id}-key`} className="block text-sm font-medium text-gray-700 mb-2">
+                {provider.name} APIキー
+                {provider.apiKey.optional && <span className="text-gray-400 ml-1">（任意）</span>}
+                {selectedProvider === provider.id && !provider.apiKey.optional && <span className="text-red-500 ml-1">*</span>}
+              </label>
+              <input
+                id={`${provider.id}-key`}
+                type="password"
+                value={apiKeys[provider.id] || ''}
+                onChange={(e) => setApiKeys(prev => ({ ...prev, [provider.id]: e.target.value }))}
+                placeholder={provider.apiKey.placeholder}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {apiKeys[provider.id] && (
+                <p className="mt-1 text-xs text-gray-500">
+                  保存済み: {maskApiKey(apiKeys[provider.id])}
+                </p>
+              )}
+            </div>
+          ))}
 
-          {/* Gemini APIキー */}
+          {/* システムプロンプト */}
           <div>
-            <label htmlFor="gemini-key" className="block text-sm font-medium text-gray-700 mb-2">
-              Gemini APIキー
-              {selectedProvider === 'gemini' && <span className="text-red-500 ml-1">*</span>}
-            </label>
-            <input
-              id="gemini-key"
-              type="password"
-              value={geminiKey}
-              onChange={(e) => setGeminiKey(e.target.value)}
-              placeholder="AI..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="system-prompt" className="block text-sm font-medium text-gray-700">
+                システムプロンプト
+              </label>
+              <button
+                onClick={() => setSystemPrompt(DEFAULT_SYSTEM_PROMPT)}
+                disabled={systemPrompt === DEFAULT_SYSTEM_PROMPT}
+                className="text-xs text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+              >
+                デフォルトに戻す
+              </button>
+            </div>
+            <textarea
+              id="system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
-            {geminiKey && (
-              <p className="mt-1 text-xs text-gray-500">
-                保存済み: {maskApiKey(geminiKey)}
-              </p>
-            )}
+            <p className="mt-1 text-xs text-gray-500">
+              すべてのプロバイダーへのリクエストに付与されます（会話履歴のトークン数には含まれません）
+            </p>
           </div>
 
           {/* メッセージ表示 */}
           {message && (
             <div className={`p-3 rounded-md ${
-              message.type === 'success' 
-                ? 'bg-green-50 text-green-800 border border-green-200' 
+              message.type === 'success'
+                ? 'bg-green-50 text-green-800 border border-green-200'
                 : 'bg-red-50 text-red-800 border border-red-200'
             }`}>
               {message.text}
@@ -225,9 +476,13 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
           {/* 説明 */}
           <div className="text-xs text-gray-500 space-y-2">
             <p>• APIキーはブラウザのローカルストレージに保存されます</p>
+            <p>• ローカル: Ollama等のOpenAI互換サーバーを利用できます（例: http://localhost:11434/v1）</p>
             <p>• <strong>OpenAI推奨</strong>: より安定した動作が期待できます</p>
-            <p>• OpenAI: <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">https://platform.openai.com/api-keys</a></p>
-            <p>• Gemini: <a href="https://makersuite.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">https://makersuite.google.com/app/apikey</a></p>
+            {providers.filter(provider => provider.apiKey.helpUrl).map(provider => (
+              <p key={provider.id}>
+                • {provider.name}: <a href={provider.apiKey.helpUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{provider.apiKey.helpUrl}</a>
+              </p>
+            ))}
           </div>
         </div>
 
@@ -250,4 +505,4 @@ export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
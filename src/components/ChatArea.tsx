@@ -2,6 +2,22 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useAppState } from '../contexts/AppStateContext';
+import { useErrorHandling } from '../contexts/ErrorHandlingContext';
+import { usePromptLibrary } from '../hooks/usePromptLibrary';
+import { ChatMessage, PromptTemplate } from '../types';
+import { copyToClipboard } from '../utils/fileOperations';
+import { extractMarkdownPayload } from '../utils/markdownPayload';
+import {
+  SlashCommandMatch,
+  expandTemplate,
+  filterTemplates,
+  findSlashCommand,
+  formatTemplateDate
+} from '../utils/promptTemplates';
+import { getSelectedText } from '../utils/selectionEdit';
+import { ConversationSummaryCard } from './ConversationSummaryCard';
+import { MarkdownMessage } from './MarkdownMessage';
+import { PromptLibraryPanel } from './PromptLibraryPanel';
 
 /**
  * ChatArea Props
@@ -15,8 +31,28 @@ interface ChatAreaProps {
  * Requirements: 1.3, 1.5, 4.3, 1.1, 5.5
  */
 export function ChatArea({ className = '' }: ChatAreaProps) {
-  const { state, clearHistory, updateCode, setError, sendPromptAndUpdateCode, clearAllData } = useAppState();
+  const {
+    state,
+    updateCode,
+    setError,
+    sendPromptAndUpdateCode,
+    cancelGeneration,
+    applyMessageToEditor,
+    insertMessageAtCursor,
+    deleteMessage,
+    regenerateMessage,
+    setApplyMode,
+    clearAllData,
+    editorSelection,
+    isRestoring
+  } = useAppState();
+  const { showFileSuccess, showFileError } = useErrorHandling();
   const [inputValue, setInputValue] = useState('');
+  const [editCurrentDocument, setEditCurrentDocument] = useState(true);
+  const { library, updateLibrary } = usePromptLibrary();
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [slashCommand, setSlashCommand] = useState<SlashCommandMatch | null>(null);
+  const [activeTemplateIndex, setActiveTemplateIndex] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const chatHistoryRef = useRef<HTMLDivElement>(null);
 
@@ -49,20 +85,87 @@ export function ChatArea({ className = '' }: ChatAreaProps) {
     setInputValue('');
     
     // Use integrated function for prompt submission and code update
-    await sendPromptAndUpdateCode(prompt);
+    await sendPromptAndUpdateCode(prompt, { includeDocument: editCurrentDocument });
+  };
+
+  // 入力中のスラッシュコマンドに一致するテンプレート
+  const templateSuggestions = slashCommand ? filterTemplates(library.templates, slashCommand.query) : [];
+
+  /**
+   * Handle input change
+   * カーソルの直前に「/コマンド」を入力している間はテンプレートの候補を表示する
+   */
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInputValue(e.target.value);
+    setSlashCommand(findSlashCommand(e.target.value, e.target.selectionStart));
+    setActiveTemplateIndex(0);
+  };
+
+  /**
+   * 入力中のスラッシュコマンドをテンプレートの内容（変数を展開したもの）で置き換える
+   */
+  const insertTemplate = (template: PromptTemplate) => {
+    if (!slashCommand) return;
+
+    const activeWorkspace = state.workspaces.find(workspace => workspace.id === state.activeWorkspaceId);
+    const content = expandTemplate(template.content, {
+      project: activeWorkspace?.name ?? '',
+      date: formatTemplateDate(new Date()),
+      selection: editorSelection ? getSelectedText(state.currentCode, editorSelection) : '',
+    });
+    const end = slashCommand.start + slashCommand.query.length + 1;
+    setInputValue(inputValue.slice(0, slashCommand.start) + content + inputValue.slice(end));
+    setSlashCommand(null);
+
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      requestAnimationFrame(() => {
+        const caret = slashCommand.start + content.length;
+        textarea.setSelectionRange(caret, caret);
+      });
+    }
   };
 
   /**
    * Handle Enter key press
+   * テンプレートの候補を表示している間は上下キーで選択し、Enter・Tabで挿入する
    * Requirements: 1.5
    */
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (templateSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveTemplateIndex(index => (index + step + templateSuggestions.length) % templateSuggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        insertTemplate(templateSuggestions[Math.min(activeTemplateIndex, templateSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSlashCommand(null);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
     }
   };
 
+  /**
+   * Handle stop button
+   * 生成中のリクエストを中断し、途中までの応答を履歴に残す
+   */
+  const handleStop = () => {
+    cancelGeneration();
+  };
+
   /**
    * Handle log clear
    * Requirements: 4.3
@@ -72,6 +175,140 @@ export function ChatArea({ className = '' }: ChatAreaProps) {
     clearAllData();
   };
 
+  /**
+   * Render message text
+   * アシスタントの応答はMarkdownとしてレンダリングし、ユーザーの入力はそのまま表示する
+   */
+  const renderMessageText = (message: ChatMessage, text: string) => {
+    if (message.role === 'assistant') {
+      return <MarkdownMessage content={text} />;
+    }
+    return (
+      <div className="whitespace-pre-wrap break-words">
+        {text}
+      </div>
+    );
+  };
+
+  const handleCopyMessage = async (message: ChatMessage) => {
+    if (await copyToClipboard(message.content)) {
+      showFileSuccess('コピー', 'メッセージをクリップボードにコピーしました');
+    } else {
+      showFileError('コピー', 'クリップボードへのコピーに失敗しました');
+    }
+  };
+
+  const handleDeleteMessage = (message: ChatMessage) => {
+    if (window.confirm('このメッセージを削除しますか？')) {
+      deleteMessage(message.id);
+    }
+  };
+
+  /**
+   * Render message actions
+   * コピー・削除はすべてのメッセージ、反映・挿入はアシスタントの応答、再生成は最新の応答のみ
+   * 選択範囲の編集の応答は文書全体を置き換えないため「反映」を表示しない
+   */
+  const renderMessageActions = (message: ChatMessage, isLatest: boolean) => {
+    const canEdit = !state.isLoading && !state.pendingProposal;
+    const actionClass = 'hover:text-gray-800 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors';
+
+    return (
+      <div
+        className="mt-1 flex gap-3 px-1 text-xs text-gray-500 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity"
+        aria-label="メッセージの操作"
+      >
+        <button onClick={() => handleCopyMessage(message)} className={actionClass}>
+          コピー
+        </button>
+        {message.role === 'assistant' && (
+          <>
+            {!message.selection && (
+              <button
+                onClick={() => applyMessageToEditor(message.id, !!message.applyRaw)}
+                disabled={!canEdit}
+                className={actionClass}
+                title="この応答で文書全体を置き換えます（元に戻すで取り消せます）"
+              >
+                エディターに反映
+              </button>
+            )}
+            <button
+              onClick={() => insertMessageAtCursor(message.id)}
+              disabled={!canEdit}
+              className={actionClass}
+              title="エディターのカーソル位置に挿入します（選択範囲は置き換えます）"
+            >
+              カーソル位置に挿入
+            </button>
+            {isLatest && (
+              <button
+                onClick={() => regenerateMessage(message.id, { includeDocument: editCurrentDocument })}
+                disabled={state.isLoading}
+                className={actionClass}
+                title="直前のプロンプトで応答を生成し直します"
+              >
+                再生成
+              </button>
+            )}
+          </>
+        )}
+        <button
+          onClick={() => handleDeleteMessage(message)}
+          disabled={state.isLoading}
+          className="hover:text-red-600 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+        >
+          削除
+        </button>
+      </div>
+    );
+  };
+
+  /**
+   * Render message body
+   * アシスタントの応答から文書を抽出した場合は説明文のみを表示し、反映方法を切り替えられるようにする
+   * 選択範囲の編集は文書全体を置き換えないため切り替えを表示しない
+   */
+  const renderMessageBody = (message: ChatMessage) => {
+    const payload = message.role === 'assistant'
+      ? extractMarkdownPayload(message.content)
+      : null;
+
+    if (message.selection) {
+      const text = payload?.extracted ? payload.explanation : message.content;
+      return (
+        <>
+          {text && renderMessageText(message, text)}
+          <div className="mt-1 text-xs text-gray-500">
+            選択範囲に反映しました
+          </div>
+        </>
+      );
+    }
+
+    if (!payload?.extracted) {
+      return renderMessageText(message, message.content);
+    }
+
+    return (
+      <>
+        {payload.explanation && renderMessageText(message, payload.explanation)}
+        <div className="flex items-center justify-between gap-2 mt-1 text-xs text-gray-500">
+          <span>
+            {message.applyRaw ? '応答全体をエディターに反映しました' : '文書をエディターに反映しました'}
+          </span>
+          <button
+            onClick={() => applyMessageToEditor(message.id, !message.applyRaw)}
+            disabled={state.isLoading}
+            className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+          >
+            {message.applyRaw ? '文書のみ反映' : '応答全体を反映'}
+          </button>
+        </div>
+      </>
+    );
+  };
+
   /**
    * Format timestamp for display
    */
@@ -88,16 +325,36 @@ export function ChatArea({ className = '' }: ChatAreaProps) {
       <div className="flex-shrink-0 p-4 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold text-gray-800">AI Chat</h2>
-          <button
-            onClick={handleClearHistory}
-            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
-            title="チャット履歴をクリア"
-          >
-            ログクリア
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
+              title="プロンプトのテンプレートと固定の指示を編集"
+            >
+              テンプレート
+              {library.pinnedInstructions.trim() && (
+                <span className="ml-1 text-xs text-blue-600" title="固定の指示が設定されています">●</span>
+              )}
+            </button>
+            <button
+              onClick={handleClearHistory}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded transition-colors"
+              title="チャット履歴をクリア"
+            >
+              ログクリア
+            </button>
+          </div>
         </div>
       </div>
 
+      {isLibraryOpen && (
+        <PromptLibraryPanel
+          library={library}
+          onSave={updateLibrary}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
       {/* Chat History Area */}
       <div 
         ref={chatHistoryRef}
@@ -109,31 +366,39 @@ export function ChatArea({ className = '' }: ChatAreaProps) {
             <p className="text-sm mt-2">プロンプトを入力してEnterキーまたは送信ボタンを押してください</p>
           </div>
         ) : (
-          state.chatHistory.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
+          <>
+            {/* 古い会話の要約（会話履歴より前に送信される） */}
+            <ConversationSummaryCard />
+            {state.chatHistory.map((message, index) => (
               <div
-                className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                  message.role === 'user'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-gray-100 text-gray-800 border border-gray-200'
-                }`}
+                key={message.id}
+                className={`group flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
               >
-                <div className="whitespace-pre-wrap break-words">
-                  {message.content}
-                </div>
                 <div
-                  className={`text-xs mt-1 ${
-                    message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                  className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                    message.role === 'user'
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 text-gray-800 border border-gray-200'
                   }`}
                 >
-                  {formatTimestamp(message.timestamp)}
+                  {renderMessageBody(message)}
+                  {message.cancelled && (
+                    <div className="text-xs mt-1 text-amber-600">
+                      生成をキャンセルしました
+                    </div>
+                  )}
+                  <div
+                    className={`text-xs mt-1 ${
+                      message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                    }`}
+                  >
+                    {formatTimestamp(message.timestamp)}
+                  </div>
                 </div>
+                {renderMessageActions(message, index === state.chatHistory.length - 1)}
               </div>
-            </div>
-          ))
+            ))}
+          </>
         )}
         
         {/* Loading indicator */}
@@ -169,27 +434,103 @@ export function ChatArea({ className = '' }: ChatAreaProps) {
 
       {/* Input Area */}
       <div className="flex-shrink-0 p-4 border-t border-gray-200 bg-gray-50">
+        <div className="flex items-center justify-between gap-2 mb-2 text-xs">
+          {/* 編集対象の切り替え（エディターに文書がある場合のみ） */}
+          {state.currentCode.trim() && (
+            <div className="flex items-center gap-1" role="group" aria-label="送信モード">
+              <button
+                onClick={() => setEditCurrentDocument(true)}
+                aria-pressed={editCurrentDocument}
+                className={`px-2 py-1 rounded transition-colors ${
+                  editCurrentDocument ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'
+                }`}
+                title="エディターの文書をAIに送信し、修正を依頼します"
+              >
+                この文書を編集
+              </button>
+              <button
+                onClick={() => setEditCurrentDocument(false)}
+                aria-pressed={!editCurrentDocument}
+                className={`px-2 py-1 rounded transition-colors ${
+                  !editCurrentDocument ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'
+                }`}
+                title="エディターの文書を送信せずに新しく作成します"
+              >
+                新規作成
+              </button>
+            </div>
+          )}
+          {/* 反映方法の切り替え */}
+          <label className="flex items-center gap-1 ml-auto text-gray-600" title="AIの提案を差分で確認してから反映します">
+            <input
+              type="checkbox"
+              checked={state.applyMode === 'review'}
+              onChange={(e) => setApplyMode(e.target.checked ? 'review' : 'direct')}
+            />
+            変更を確認してから反映
+          </label>
+        </div>
         <div className="flex space-x-2">
-          <textarea
-            ref={textareaRef}
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="プロンプトを入力してください... (Enterで送信、Shift+Enterで改行)"
-            className="flex-1 resize-none border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            rows={3}
-            disabled={state.isLoading}
-          />
-          <button
-            onClick={handleSubmit}
-            disabled={!inputValue.trim() || state.isLoading}
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {state.isLoading ? '送信中...' : '送信'}
-          </button>
+          <div className="relative flex-1 flex">
+            <textarea
+              ref={textareaRef}
+              value={inputValue}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyDown}
+              onBlur={() => setSlashCommand(null)}
+              placeholder="プロンプトを入力してください... (Enterで送信、Shift+Enterで改行、/でテンプレート)"
+              className="flex-1 resize-none border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              rows={3}
+              disabled={state.isLoading || isRestoring}
+            />
+            {/* テンプレートの候補（スラッシュコマンド、クリックしてもテキストエリアのフォーカスを外さない） */}
+            {templateSuggestions.length > 0 && (
+              <ul
+                className="absolute bottom-full left-0 mb-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-10"
+                role="listbox"
+                aria-label="テンプレート"
+              >
+                {templateSuggestions.map((template, index) => (
+                  <li
+                    key={template.id}
+                    role="option"
+                    aria-selected={index === activeTemplateIndex}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      insertTemplate(template);
+                    }}
+                    onMouseEnter={() => setActiveTemplateIndex(index)}
+                    className={`px-3 py-2 cursor-pointer text-sm ${
+                      index === activeTemplateIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="font-mono text-blue-700">/{template.command}</span>
+                    <span className="ml-2 text-gray-700">{template.name}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {state.isLoading ? (
+            <button
+              onClick={handleStop}
+              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors"
+              title="生成を停止"
+            >
+              停止
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={!inputValue.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              送信
+            </button>
+          )}
         </div>
         <div className="text-xs text-gray-500 mt-2">
-          Enterで送信、Shift+Enterで改行
+          Enterで送信、Shift+Enterで改行、/でテンプレートを挿入
         </div>
       </div>
     </div>
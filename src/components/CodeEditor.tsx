@@ -1,14 +1,97 @@
 'use client';
 
-import React, { useRef, useCallback, useEffect } from 'react';
-// import Editor from '@monaco-editor/react'; // 一時的にコメントアウト
+import React, { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import type { OnMount } from '@monaco-editor/react';
+import type { editor as MonacoEditorTypes } from 'monaco-editor';
 import { useAppState } from '../contexts/AppStateContext';
+import { DiffReview } from './DiffReview';
+import { EditorSelection } from '../types';
+import { SELECTION_ACTIONS } from '../utils/selectionEdit';
+import { ScrollSync } from '../utils/scrollSync';
+import { htmlToMarkdown, isRichHtml } from '../utils/markdownImport';
+import { ACCEPTED_FILE_EXTENSIONS, useOpenFile } from '../hooks/useOpenFile';
+import { ErrorBoundary } from './ErrorBoundary';
+
+/**
+ * Monaco Editorはブラウザでのみ動作するため遅延読み込みする（CDNではなくバンドルしたmonaco-editorを使う）
+ * 読み込みが完了するまではtextareaで編集できる（読み込みに失敗した場合はErrorBoundaryで受け止めてtextareaを使い続ける）
+ */
+const MonacoEditor = dynamic(() => import('../utils/monacoLoader'), {
+  ssr: false,
+  loading: () => null,
+});
+
+/**
+ * エディターの表示設定
+ */
+interface EditorPreferences {
+  minimap: boolean;
+  wordWrap: boolean;
+}
+
+const EDITOR_PREFERENCES_KEY = 'editor_preferences';
+
+const DEFAULT_EDITOR_PREFERENCES: EditorPreferences = {
+  minimap: false,
+  wordWrap: true,
+};
+
+/**
+ * 保存された表示設定を読み込む
+ */
+function loadEditorPreferences(): EditorPreferences {
+  if (typeof window === 'undefined') {
+    return DEFAULT_EDITOR_PREFERENCES;
+  }
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(EDITOR_PREFERENCES_KEY) || '{}');
+    return {
+      minimap: typeof saved.minimap === 'boolean' ? saved.minimap : DEFAULT_EDITOR_PREFERENCES.minimap,
+      wordWrap: typeof saved.wordWrap === 'boolean' ? saved.wordWrap : DEFAULT_EDITOR_PREFERENCES.wordWrap,
+    };
+  } catch (error) {
+    console.warn('Failed to read editor preferences from localStorage:', error);
+    return DEFAULT_EDITOR_PREFERENCES;
+  }
+}
+
+/**
+ * Monaco Editorの先頭に表示されているソースの行番号（0始まり、小数で行内の位置）
+ */
+function getMonacoTopLine(editor: MonacoEditorTypes.IStandaloneCodeEditor): number {
+  const scrollTop = editor.getScrollTop();
+  const lineNumber = editor.getVisibleRanges()[0]?.startLineNumber ?? 1;
+  const lineTop = editor.getTopForLineNumber(lineNumber);
+  const nextLineTop = editor.getTopForLineNumber(lineNumber + 1);
+  const ratio = nextLineTop > lineTop ? (scrollTop - lineTop) / (nextLineTop - lineTop) : 0;
+  return lineNumber - 1 + Math.min(Math.max(ratio, 0), 1);
+}
+
+/**
+ * Monaco Editorを指定したソースの行番号が先頭になるようにスクロールする
+ */
+function scrollMonacoToLine(editor: MonacoEditorTypes.IStandaloneCodeEditor, line: number) {
+  const lineNumber = Math.floor(line) + 1;
+  const lineTop = editor.getTopForLineNumber(lineNumber);
+  const nextLineTop = editor.getTopForLineNumber(lineNumber + 1);
+  editor.setScrollTop(lineTop + (nextLineTop - lineTop) * (line - Math.floor(line)));
+}
 
 /**
  * CodeEditor Props
  */
 interface CodeEditorProps {
   className?: string;
+  scrollSync?: ScrollSync; // 指定した場合はプレビューとスクロールを同期する
+}
+
+/**
+ * ファイルのドラッグかどうか（テキストの移動などは除く）
+ */
+function isFileDrag(e: React.DragEvent): boolean {
+  return Array.from(e.dataTransfer?.types ?? []).includes('Files');
 }
 
 /**
@@ -16,168 +99,437 @@ interface CodeEditorProps {
  * Monaco Editorを統合したMarkdownコードエディタ
  * 要件: 2.1, 2.3, 1.2, 2.2
  */
-export function CodeEditor({ className = '' }: CodeEditorProps) {
-  const { state, updateCode } = useAppState();
-  const editorRef = useRef<any>(null);
-  const lastCodeRef = useRef<string>('');
+export function CodeEditor({ className = '', scrollSync }: CodeEditorProps) {
+  const { state, updateCode, undo, redo, sendPromptAndUpdateCode, setEditorSelection, isRestoring } = useAppState();
+  const editorRef = useRef<MonacoEditorTypes.IStandaloneCodeEditor | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const lastCodeRef = useRef<string>(state.currentCode);
+  const currentCodeRef = useRef<string>(state.currentCode);
+  const [isMonacoReady, setIsMonacoReady] = useState(false);
+  const [preferences, setPreferences] = useState<EditorPreferences>(loadEditorPreferences);
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [selectionPrompt, setSelectionPrompt] = useState('');
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const dragDepthRef = useRef(0); // 子要素の出入りでオーバーレイがちらつかないよう深さを数える
+  const { openFile } = useOpenFile();
+
+  // Monacoのコマンドはマウント時に登録するため、最新の関数をrefで参照する
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+  const scrollSyncRef = useRef(scrollSync);
+  useEffect(() => {
+    undoRef.current = undo;
+    redoRef.current = redo;
+    scrollSyncRef.current = scrollSync;
+  }, [undo, redo, scrollSync]);
+
+  // プレビューのスクロールに追従する
+  useEffect(() => {
+    if (!scrollSync) return;
+
+    return scrollSync.subscribe('editor', (line) => {
+      const textarea = textareaRef.current;
+      if (editorRef.current && isMonacoReady) {
+        scrollMonacoToLine(editorRef.current, line);
+      } else if (textarea) {
+        // textareaは折り返しがあるため行数の比率で近似する
+        const lineCount = textarea.value.split('\n').length;
+        textarea.scrollTop = (line / lineCount) * textarea.scrollHeight;
+      }
+    });
+  }, [scrollSync, isMonacoReady]);
+
   /**
    * AI応答の自動反映処理（要件1.2, 2.2対応）
    * コード内容の状態同期
    */
   useEffect(() => {
+    currentCodeRef.current = state.currentCode;
     if (editorRef.current && state.currentCode !== lastCodeRef.current) {
       const editor = editorRef.current;
       const currentValue = editor.getValue();
-      
+      lastCodeRef.current = state.currentCode;
+
       // エディタの値と状態が異なる場合のみ更新
       if (currentValue !== state.currentCode) {
         // カーソル位置を保存
         const position = editor.getPosition();
-        
+
         // エディタの値を更新
         editor.setValue(state.currentCode);
-        
-        // カーソル位置を復元（可能な場合）
+
+        // カーソル位置を復元（範囲外の場合は文書内に収められる）
         if (position && state.currentCode.length > 0) {
-          try {
-            editor.setPosition(position);
-          } catch (error) {
-            // カーソル位置の復元に失敗した場合は末尾に設定
-            const lineCount = editor.getModel()?.getLineCount() || 1;
-            const lastLineLength = editor.getModel()?.getLineLength(lineCount) || 0;
-            editor.setPosition({ lineNumber: lineCount, column: lastLineLength + 1 });
+          const validPosition = editor.getModel()?.validatePosition(position);
+          if (validPosition) {
+            editor.setPosition(validPosition);
           }
         }
-        
-        // フォーカスを設定
-        editor.focus();
       }
-      
-      lastCodeRef.current = state.currentCode;
     }
   }, [state.currentCode]);
+
   /**
    * カーソル位置変更時の処理（要件2.4対応）
    */
-  const handleCursorPositionChange = useCallback((e: any) => {
-    if (e && e.position) {
-      const position = e.position;
-      console.debug('Cursor position changed:', {
-        lineNumber: position.lineNumber,
-        column: position.column,
-        timestamp: new Date().toISOString()
-      });
-    }
+  const handleCursorPositionChange = useCallback((e: MonacoEditorTypes.ICursorPositionChangedEvent) => {
+    console.debug('Cursor position changed:', {
+      lineNumber: e.position.lineNumber,
+      column: e.position.column,
+      timestamp: new Date().toISOString()
+    });
   }, []);
 
   /**
-   * エディタクリック時の処理（要件2.4対応）
+   * エディタのマウント時の処理
+   * 元に戻す／やり直すはMonaco標準の履歴ではなくアプリの編集履歴を使用する
    */
-  const handleEditorClick = useCallback((e: any) => {
-    if (e && e.target && e.target.position) {
-      const clickPosition = e.target.position;
-      console.debug('Editor clicked at position:', {
-        lineNumber: clickPosition.lineNumber,
-        column: clickPosition.column
-      });
+  const handleEditorDidMount = useCallback<OnMount>((editor, monaco) => {
+    editorRef.current = editor;
+
+    // 読み込み中にtextareaで編集された内容を反映する
+    if (editor.getValue() !== currentCodeRef.current) {
+      editor.setValue(currentCodeRef.current);
     }
-  }, []);
+    lastCodeRef.current = currentCodeRef.current;
+
+    editor.onDidChangeCursorPosition(handleCursorPositionChange);
+
+    editor.onDidScrollChange((e) => {
+      if (e.scrollTopChanged) {
+        scrollSyncRef.current?.publish('editor', getMonacoTopLine(editor));
+      }
+    });
+
+    // 選択範囲を文書内の文字位置に変換して記録する（カーソル位置はチャットのテンプレートなどで参照する）
+    editor.onDidChangeCursorSelection((e) => {
+      const model = editor.getModel();
+      if (!model) {
+        setSelection(null);
+        return;
+      }
+      const range = {
+        start: model.getOffsetAt(e.selection.getStartPosition()),
+        end: model.getOffsetAt(e.selection.getEndPosition()),
+      };
+      setEditorSelection(range);
+      setSelection(e.selection.isEmpty() ? null : range);
+    });
+
+    const { KeyMod, KeyCode } = monaco;
+    editor.addCommand(KeyMod.CtrlCmd | KeyCode.KeyZ, () => undoRef.current());
+    editor.addCommand(KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ, () => redoRef.current());
+    editor.addCommand(KeyMod.CtrlCmd | KeyCode.KeyY, () => redoRef.current());
+
+    setIsMonacoReady(true);
+  }, [handleCursorPositionChange, setEditorSelection]);
+
   /**
-   * エディタのマウント時の処理（簡素化版）
+   * Monaco Editorの読み込み・表示に失敗した場合はtextareaに戻す
    */
-  const handleEditorDidMount = useCallback((editor: any, monaco: any) => {
-    editorRef.current = editor;
-    
-    // 基本的なイベントリスナーのみ追加
-    editor.onDidChangeCursorPosition(handleCursorPositionChange);
-    editor.onMouseDown(handleEditorClick);
-  }, [handleCursorPositionChange, handleEditorClick]);
+  const handleEditorError = useCallback(() => {
+    editorRef.current = null;
+    setIsMonacoReady(false);
+  }, []);
+
   /**
    * エディタの値変更時の処理
+   * 状態からの反映（setValue）による変更は編集として扱わない
    */
   const handleEditorChange = useCallback((value: string | undefined) => {
-    if (value !== undefined) {
+    if (value !== undefined && value !== lastCodeRef.current) {
+      lastCodeRef.current = value;
       updateCode(value);
     }
   }, [updateCode]);
 
   /**
-   * プログラム的にカーソル位置を設定するメソッド（要件2.4対応）
+   * 表示設定を切り替えて保存する
    */
-  const setCursorPosition = useCallback((lineNumber: number, column: number) => {
-    if (editorRef.current) {
+  const togglePreference = useCallback((key: keyof EditorPreferences) => {
+    setPreferences(prev => {
+      const next = { ...prev, [key]: !prev[key] };
       try {
-        const position = { lineNumber, column };
-        editorRef.current.setPosition(position);
-        editorRef.current.focus();
-        console.debug('Cursor position set programmatically:', position);
-        return true;
+        localStorage.setItem(EDITOR_PREFERENCES_KEY, JSON.stringify(next));
       } catch (error) {
-        console.warn('Failed to set cursor position programmatically:', error);
-        return false;
+        console.warn('Failed to save editor preferences to localStorage:', error);
       }
-    }
-    return false;
+      return next;
+    });
   }, []);
 
   /**
-   * 現在のカーソル位置を取得するメソッド
+   * 検索・置換を開く
    */
-  const getCursorPosition = useCallback(() => {
-    if (editorRef.current) {
-      try {
-        const position = editorRef.current.getPosition();
-        return position ? {
-          lineNumber: position.lineNumber,
-          column: position.column
-        } : null;
-      } catch (error) {
-        console.warn('Failed to get cursor position:', error);
-        return null;
-      }
+  const openFindReplace = useCallback(() => {
+    editorRef.current?.focus();
+    editorRef.current?.getAction('editor.action.startFindReplaceAction')?.run();
+  }, []);
+
+  const editorOptions = useMemo<MonacoEditorTypes.IStandaloneEditorConstructionOptions>(() => ({
+    minimap: { enabled: preferences.minimap },
+    scrollBeyondLastLine: false,
+    wordWrap: preferences.wordWrap ? 'on' : 'off',
+    lineNumbers: 'on',
+    fontSize: 14,
+    automaticLayout: true,
+    readOnly: isRestoring, // 保存データの復元が終わるまでは編集しない
+  }), [preferences, isRestoring]);
+
+  /**
+   * 元に戻す／やり直すのショートカット（textarea用）
+   * Ctrl+Z: 元に戻す / Ctrl+Shift+Z, Ctrl+Y: やり直す
+   * Reactが値を書き換えるとtextarea標準の履歴は失われるため、アプリの編集履歴を使用する
+   */
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) {
+      return;
     }
-    return null;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  }, [undo, redo]);
+
+  /**
+   * 選択範囲の変更を記録する（textarea用）
+   */
+  const handleSelect = useCallback((e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setEditorSelection({ start: selectionStart, end: selectionEnd });
+    setSelection(selectionStart < selectionEnd ? { start: selectionStart, end: selectionEnd } : null);
+  }, [setEditorSelection]);
+
+  /**
+   * スクロール位置をプレビューに通知する（textarea用）
+   */
+  const handleTextareaScroll = useCallback((e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (!scrollSync) return;
+    const { scrollTop, scrollHeight, value } = e.currentTarget;
+    scrollSync.publish('editor', scrollHeight > 0 ? (scrollTop / scrollHeight) * value.split('\n').length : 0);
+  }, [scrollSync]);
+
+  /**
+   * 選択範囲についてAIに依頼する（選択範囲のみを応答で置き換える）
+   */
+  const handleAskAboutSelection = useCallback(async (prompt: string) => {
+    if (!selection || !prompt.trim()) {
+      return;
+    }
+
+    const target = selection;
+    setSelection(null);
+    setSelectionPrompt('');
+    await sendPromptAndUpdateCode(prompt.trim(), { selection: target });
+  }, [selection, sendPromptAndUpdateCode]);
+
+  /**
+   * Word・Webページからの貼り付けはMarkdownに変換して挿入する
+   * 構造のないHTML（コードエディターからのコピーなど）やCtrl+Shift+Vはそのまま貼り付ける
+   */
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    // 検索・置換の入力欄などへの貼り付けは対象外
+    const editor = editorRef.current;
+    const textarea = textareaRef.current;
+    const isDocumentTarget = isMonacoReady ? !!editor?.hasTextFocus() : e.target === textarea;
+    if (!isDocumentTarget) return;
+
+    const html = e.clipboardData.getData('text/html');
+    if (!html || !isRichHtml(html)) return;
+
+    const markdown = htmlToMarkdown(html);
+    if (!markdown) return;
+
+    // Monaco Editor・textareaの標準の貼り付けより前に処理する
+    e.preventDefault();
+    e.stopPropagation();
+
+    const editorSelection = editor?.getSelection();
+    if (isMonacoReady && editor && editorSelection) {
+      editor.executeEdits('paste-markdown', [{ range: editorSelection, text: markdown, forceMoveMarkers: true }]);
+      return;
+    }
+
+    if (textarea) {
+      const { selectionStart, selectionEnd } = textarea;
+      const value = textarea.value;
+      updateCode(value.slice(0, selectionStart) + markdown + value.slice(selectionEnd));
+      requestAnimationFrame(() => {
+        const caret = selectionStart + markdown.length;
+        textarea.setSelectionRange(caret, caret);
+      });
+    }
+  }, [isMonacoReady, updateCode]);
+
+  /**
+   * ファイルのドラッグ＆ドロップで文書を開く
+   * Monaco Editorがドロップを処理する前に捕捉する（ファイル以外のドラッグはそのまま）
+   */
+  const handleDragEnter = useCallback((e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFile(true);
   }, []);
-  // 外部からアクセス可能にするため、refに関数を設定
-  useEffect(() => {
-    if (editorRef.current) {
-      editorRef.current.setCursorPosition = setCursorPosition;
-      editorRef.current.getCursorPosition = getCursorPosition;
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'copy';
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFile(false);
     }
-  }, [setCursorPosition, getCursorPosition]);
+  }, []);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragDepthRef.current = 0;
+    setIsDraggingFile(false);
+
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      await openFile(file);
+    }
+  }, [openFile]);
 
   return (
-    <div className={`h-full w-full ${className}`}>
-      {/* 一時的にtextareaを使用 */}
-      <textarea
-        className="w-full h-full p-4 border border-gray-300 rounded-md font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
-        value={state.currentCode}
-        onChange={(e) => updateCode(e.target.value)}
-        placeholder="AIが生成したMarkdownコードがここに表示されます..."
-        style={{
-          fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
-          fontSize: '14px',
-          lineHeight: '1.5',
-        }}
-      />
-      {/* Monaco Editorは一時的にコメントアウト
-      <Editor
-        height="100%"
-        defaultLanguage="markdown"
-        value={state.currentCode}
-        onChange={handleEditorChange}
-        onMount={handleEditorDidMount}
-        options={{
-          minimap: { enabled: false },
-          scrollBeyondLastLine: false,
-          wordWrap: 'on',
-          lineNumbers: 'on',
-          fontSize: 14,
-          automaticLayout: true,
-          readOnly: false,
-        }}
-      />
-      */}
+    <div className={`relative h-full w-full flex flex-col ${className}`}>
+      {/* 選択範囲へのAIアクション */}
+      {selection && !state.isLoading && !state.pendingProposal && (
+        <div
+          className="absolute top-2 right-2 z-10 flex flex-wrap items-center gap-1 p-1 bg-white border border-gray-200 rounded-md shadow-md text-xs"
+          role="toolbar"
+          aria-label="選択範囲をAIに依頼"
+        >
+          <span className="px-1 text-gray-500">選択範囲をAIに依頼:</span>
+          {SELECTION_ACTIONS.map(action => (
+            <button
+              key={action.id}
+              onMouseDown={(e) => e.preventDefault()} // 選択範囲を維持する
+              onClick={() => handleAskAboutSelection(action.prompt)}
+              className="px-2 py-1 text-gray-700 rounded hover:bg-gray-100 transition-colors"
+            >
+              {action.label}
+            </button>
+          ))}
+          <input
+            value={selectionPrompt}
+            onChange={(e) => setSelectionPrompt(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAskAboutSelection(selectionPrompt);
+              }
+            }}
+            placeholder="その他の指示（Enterで送信）"
+            className="w-44 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      {/* 差分確認モードの提案がある場合は差分を表示する */}
+      {state.pendingProposal && (
+        <DiffReview key={state.pendingProposal.messageId} />
+      )}
+
+      {/* エディタ（提案の確認中は非表示にして状態を保持する） */}
+      <div
+        className={`${state.pendingProposal ? 'hidden' : 'flex'} relative flex-col flex-1 min-h-0`}
+        onDragEnterCapture={handleDragEnter}
+        onDragOverCapture={handleDragOver}
+        onDragLeaveCapture={handleDragLeave}
+        onDropCapture={handleDrop}
+        onPasteCapture={handlePaste}
+        data-testid="editor-drop-zone"
+      >
+        {/* ファイルのドロップ先の表示 */}
+        {isDraggingFile && (
+          <div className="absolute inset-0 z-20 flex items-center justify-center bg-blue-50/90 border-2 border-dashed border-blue-400 rounded-md pointer-events-none">
+            <p className="text-sm font-medium text-blue-700">
+              ファイルをドロップして開く（{ACCEPTED_FILE_EXTENSIONS.join(', ')}）
+            </p>
+          </div>
+        )}
+
+        {/* エディタの表示設定 */}
+        {isMonacoReady && (
+          <div className="flex-shrink-0 flex items-center justify-end gap-1 px-2 py-1 border-b border-gray-200 bg-gray-50 text-xs">
+            <button
+              onClick={openFindReplace}
+              className="px-2 py-1 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+              title="検索・置換 (Ctrl+H)"
+            >
+              検索・置換
+            </button>
+            <button
+              onClick={() => togglePreference('wordWrap')}
+              aria-pressed={preferences.wordWrap}
+              className={`px-2 py-1 rounded transition-colors ${
+                preferences.wordWrap ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              折り返し
+            </button>
+            <button
+              onClick={() => togglePreference('minimap')}
+              aria-pressed={preferences.minimap}
+              className={`px-2 py-1 rounded transition-colors ${
+                preferences.minimap ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              ミニマップ
+            </button>
+          </div>
+        )}
+
+        <div className="relative flex-1 min-h-0">
+          {/* Monaco Editorの読み込みが完了するまではtextareaを使用 */}
+          {!isMonacoReady && (
+            <textarea
+              ref={textareaRef}
+              className="w-full h-full p-4 border border-gray-300 rounded-md font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={state.currentCode}
+              onChange={(e) => updateCode(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onSelect={handleSelect}
+              onScroll={handleTextareaScroll}
+              readOnly={isRestoring}
+              placeholder="AIが生成したMarkdownコードがここに表示されます..."
+              style={{
+                fontFamily: 'Monaco, Menlo, "Ubuntu Mono", monospace',
+                fontSize: '14px',
+                lineHeight: '1.5',
+              }}
+            />
+          )}
+          <div className={`absolute inset-0 ${isMonacoReady ? '' : 'invisible'}`}>
+            <ErrorBoundary fallback={null} onError={handleEditorError}>
+              <MonacoEditor
+                height="100%"
+                defaultLanguage="markdown"
+                defaultValue={state.currentCode}
+                onChange={handleEditorChange}
+                onMount={handleEditorDidMount}
+                loading={null}
+                options={editorOptions}
+              />
+            </ErrorBoundary>
+          </div>
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+
+/**
+ * ConversationSummaryCard Component
+ * 古い会話の要約（会話履歴より前に固定してAIに送信する）を表示・編集する
+ */
+export function ConversationSummaryCard() {
+  const { state, updateConversationSummary } = useAppState();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const summary = state.conversationSummary;
+  if (!summary) return null;
+
+  const startEditing = () => {
+    setDraft(summary.content);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    updateConversationSummary(draft);
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('会話の要約を削除しますか？要約に含まれる指示はAIに送信されなくなります。')) {
+      updateConversationSummary('');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm" data-testid="conversation-summary">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-amber-800">会話の要約</span>
+        {!isEditing && (
+          <div className="flex gap-3 text-xs">
+            <button
+              onClick={startEditing}
+              disabled={state.isLoading}
+              className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              編集
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={state.isLoading}
+              className="text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              削除
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-amber-700">
+        これより前の会話の要約です。以降の会話より前にAIに送信されます。
+      </p>
+      {isEditing ? (
+        <>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            className="mt-2 w-full resize-y border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-800 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="会話の要約"
+            autoFocus
+          />
+          <div className="mt-2 flex justify-end gap-2 text-xs">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={state.isLoading}
+              className="px-2 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              保存
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="mt-2 whitespace-pre-wrap break-words text-gray-800">
+          {summary.content}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+import { applyDiffHunks, diffLines, getHunkIds } from '../utils/lineDiff';
+import { DiffView } from './DiffView';
+
+/**
+ * DiffReview Props
+ */
+interface DiffReviewProps {
+  className?: string;
+}
+
+/**
+ * DiffReview Component
+ * AIの提案と現在の文書の差分を表示し、採用する変更を選んで反映する
+ */
+export function DiffReview({ className = '' }: DiffReviewProps) {
+  const { state, resolveProposal } = useAppState();
+  const proposal = state.pendingProposal;
+
+  const segments = useMemo(
+    () => (proposal ? diffLines(state.currentCode, proposal.proposed) : []),
+    [state.currentCode, proposal]
+  );
+  const hunkIds = useMemo(() => getHunkIds(segments), [segments]);
+
+  // 既定ではすべての変更を採用する（ストリーミング中に増えたハンクも採用）
+  // 提案が変わった場合は呼び出し側でkeyを変えて選択状態をリセットする
+  const [rejectedIds, setRejectedIds] = useState<Set<number>>(new Set());
+
+  if (!proposal) {
+    return null;
+  }
+
+  const acceptedIds = hunkIds.filter(id => !rejectedIds.has(id));
+  const isGenerating = state.isLoading;
+
+  const toggleHunk = (id: number) => {
+    setRejectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className={`flex flex-col h-full w-full bg-white border border-gray-300 rounded-md ${className}`}>
+      {/* Header */}
+      <div className="flex-shrink-0 flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+        <span className="font-medium text-gray-700">
+          {isGenerating ? 'AIの提案を生成中...' : `AIの提案（変更 ${hunkIds.length} 件）`}
+        </span>
+        <span className="text-xs text-gray-500">
+          採用: {acceptedIds.length} / {hunkIds.length}
+        </span>
+      </div>
+
+      {/* Diff */}
+      <div className="flex-1 overflow-auto">
+        {hunkIds.length === 0 && !isGenerating && (
+          <div className="p-4 text-sm text-gray-500">現在の文書との差分はありません</div>
+        )}
+        <DiffView
+          segments={segments}
+          rejectedIds={rejectedIds}
+          onToggleHunk={toggleHunk}
+          disabled={isGenerating}
+        />
+      </div>
+
+      {/* Actions */}
+      <div className="flex-shrink-0 flex items-center justify-end gap-2 px-4 py-2 border-t border-gray-200 bg-gray-50">
+        <button
+          onClick={() => resolveProposal(null)}
+          disabled={isGenerating}
+          className="px-3 py-1 text-sm text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50 transition-colors"
+        >
+          すべて却下
+        </button>
+        <button
+          onClick={() => resolveProposal(applyDiffHunks(segments, acceptedIds))}
+          disabled={isGenerating}
+          className="px-3 py-1 text-sm text-blue-700 border border-blue-300 rounded hover:bg-blue-50 disabled:opacity-50 transition-colors"
+        >
+          選択した変更を反映
+        </button>
+        <button
+          onClick={() => resolveProposal(proposal.proposed)}
+          disabled={isGenerating}
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          すべて採用
+        </button>
+      </div>
+    </div>
+  );
+}
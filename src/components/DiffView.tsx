@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { DiffSegment } from '../utils/lineDiff';
+
+/**
+ * DiffView Props
+ */
+interface DiffViewProps {
+  segments: DiffSegment[];
+  className?: string;
+  rejectedIds?: Set<number>; // 採用しないハンク（onToggleHunk指定時のみ使用）
+  onToggleHunk?: (id: number) => void; // 指定した場合はハンクごとに採用を切り替えられる
+  disabled?: boolean;
+}
+
+/**
+ * DiffView Component
+ * 行単位の差分をインライン形式で表示する
+ */
+export function DiffView({
+  segments,
+  className = '',
+  rejectedIds,
+  onToggleHunk,
+  disabled = false,
+}: DiffViewProps) {
+  return (
+    <div className={`font-mono text-sm ${className}`} style={{ lineHeight: '1.5' }}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'equal') {
+          return (
+            <pre key={`equal-${index}`} className="px-4 text-gray-500 whitespace-pre-wrap break-words">
+              {segment.lines.join('\n')}
+            </pre>
+          );
+        }
+
+        const accepted = !rejectedIds?.has(segment.id);
+        return (
+          <div
+            key={`change-${segment.id}`}
+            className={`relative border-y border-gray-200 ${accepted ? '' : 'opacity-50'}`}
+          >
+            {onToggleHunk && (
+              <label className="absolute top-0 right-2 flex items-center gap-1 text-xs font-sans text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={accepted}
+                  onChange={() => onToggleHunk(segment.id)}
+                  disabled={disabled}
+                />
+                採用
+              </label>
+            )}
+            {segment.removed.length > 0 && (
+              <pre className="px-4 bg-red-50 text-red-800 whitespace-pre-wrap break-words line-through decoration-red-300">
+                {segment.removed.map(line => `- ${line}`).join('\n')}
+              </pre>
+            )}
+            {segment.added.length > 0 && (
+              <pre className="px-4 bg-green-50 text-green-800 whitespace-pre-wrap break-words">
+                {segment.added.map(line => `+ ${line}`).join('\n')}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
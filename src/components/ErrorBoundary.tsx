@@ -1,6 +1,7 @@
 'use client';
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { clearPersistedState, isPersistenceAvailable } from '../services/persistence';
 
 /**
  * Error boundary props
@@ -55,10 +56,25 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
     this.setState({ hasError: false, error: undefined, errorInfo: undefined });
   };
 
+  /**
+   * 保存データが原因で再読み込み後もエラーになる場合に、保存データを消去して再読み込みする
+   */
+  clearDataAndReload = async () => {
+    if (!window.confirm('保存されているチャット履歴と文書を消去して再読み込みしますか？')) {
+      return;
+    }
+    try {
+      await clearPersistedState();
+    } catch (error) {
+      console.error('Failed to clear persisted state:', error);
+    }
+    window.location.reload();
+  };
+
   render() {
     if (this.state.hasError) {
-      // Custom fallback UI
-      if (this.props.fallback) {
+      // Custom fallback UI（nullの場合は何も表示しない）
+      if (this.props.fallback !== undefined) {
         return this.props.fallback;
       }
 
@@ -115,6 +131,15 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
                 ページ再読み込み
               </button>
             </div>
+
+            {isPersistenceAvailable() && (
+              <button
+                onClick={this.clearDataAndReload}
+                className="mt-3 w-full text-sm text-gray-500 hover:text-gray-700 underline"
+              >
+                保存データを消去して再読み込み
+              </button>
+            )}
           </div>
         </div>
       );
@@ -1,9 +1,12 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useAppState } from '../contexts/AppStateContext';
 import { useErrorHandling } from '../contexts/ErrorHandlingContext';
 import { downloadMarkdownFile, copyToClipboard } from '../utils/fileOperations';
+import { EXPORT_FORMATS, ExportFormat, exportDocument } from '../utils/documentExport';
+import { ACCEPTED_FILE_EXTENSIONS, useOpenFile } from '../hooks/useOpenFile';
+import { VersionPanel } from './VersionPanel';
 
 /**
  * FileOperations Props
@@ -14,14 +17,33 @@ interface FileOperationsProps {
 
 /**
  * FileOperations Component
- * ファイル保存とクリップボードコピー機能を提供
+ * ファイルの読み込み・保存・エクスポートとクリップボードコピー機能を提供
  * 要件: 3.1, 3.2, 3.3
  */
 export function FileOperations({ className = '' }: FileOperationsProps) {
-  const { state } = useAppState();
+  const { state, undo, redo, canUndo, canRedo, markSaved } = useAppState();
   const { showFileSuccess, showFileError } = useErrorHandling();
+  const { openFile, isOpening } = useOpenFile();
   const [isDownloading, setIsDownloading] = useState(false);
   const [isCopying, setIsCopying] = useState(false);
+  const [isVersionPanelOpen, setIsVersionPanelOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // メニューの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!isExportMenuOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!exportMenuRef.current?.contains(e.target as Node)) {
+        setIsExportMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isExportMenuOpen]);
 
   /**
    * ファイル保存処理
@@ -36,6 +58,7 @@ export function FileOperations({ className = '' }: FileOperationsProps) {
       const success = downloadMarkdownFile(state.currentCode);
       
       if (success) {
+        markSaved();
         showFileSuccess('保存', 'ファイルが正常に保存されました');
       } else {
         showFileError('保存', 'ファイルの保存に失敗しました');
@@ -46,7 +69,47 @@ export function FileOperations({ className = '' }: FileOperationsProps) {
     } finally {
       setIsDownloading(false);
     }
-  }, [state.currentCode, isDownloading, showFileSuccess, showFileError]);
+  }, [state.currentCode, isDownloading, markSaved, showFileSuccess, showFileError]);
+
+  /**
+   * ファイル読み込み処理（同じファイルを続けて選択できるよう選択状態をリセット）
+   */
+  const handleFileSelected = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    if (file) {
+      await openFile(file);
+    }
+    input.value = '';
+  }, [openFile]);
+
+  /**
+   * エクスポート処理（HTML・PDF・DOCX）
+   */
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    if (exportingFormat) return;
+
+    const label = EXPORT_FORMATS.find(candidate => candidate.id === format)?.label ?? format;
+    setIsExportMenuOpen(false);
+    setExportingFormat(format);
+
+    try {
+      const success = await exportDocument(state.currentCode, format);
+
+      if (success) {
+        showFileSuccess('エクスポート', format === 'pdf'
+          ? '印刷ダイアログで「PDFに保存」を選択してください'
+          : `${label}ファイルを保存しました`);
+      } else {
+        showFileError('エクスポート', `${label}へのエクスポートに失敗しました`);
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      showFileError('エクスポート', error instanceof Error ? error.message : `${label}へのエクスポートに失敗しました`);
+    } finally {
+      setExportingFormat(null);
+    }
+  }, [state.currentCode, exportingFormat, showFileSuccess, showFileError]);
 
   /**
    * クリップボードコピー処理
@@ -77,6 +140,31 @@ export function FileOperations({ className = '' }: FileOperationsProps) {
     <div className={`flex flex-col gap-2 ${className}`}>
       {/* ファイル操作ボタン */}
       <div className="flex gap-2">
+        {/* 開くボタン */}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isOpening || state.isLoading}
+          className={`
+            flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium
+            transition-colors duration-200
+            ${isOpening || state.isLoading
+              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+            }
+          `}
+          title="Markdown・Word・HTMLファイルを開く（エディターへのドラッグ＆ドロップでも開けます）"
+        >
+          {isOpening ? '読み込み中...' : '開く'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILE_EXTENSIONS.join(',')}
+          onChange={handleFileSelected}
+          className="hidden"
+          data-testid="open-file-input"
+        />
+
         {/* 保存ボタン */}
         <button
           onClick={handleSaveFile}
@@ -117,6 +205,56 @@ export function FileOperations({ className = '' }: FileOperationsProps) {
           )}
         </button>
 
+        {/* エクスポートボタン */}
+        <div className="relative" ref={exportMenuRef}>
+          <button
+            onClick={() => setIsExportMenuOpen(open => !open)}
+            disabled={!!exportingFormat || !state.currentCode.trim()}
+            aria-haspopup="menu"
+            aria-expanded={isExportMenuOpen}
+            className={`
+              flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium
+              transition-colors duration-200
+              ${exportingFormat || !state.currentCode.trim()
+                ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-100'
+              }
+            `}
+            title="HTML・PDF・Word形式でエクスポート"
+          >
+            {exportingFormat ? (
+              <>
+                <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+                エクスポート中...
+              </>
+            ) : (
+              <>
+                エクスポート
+                <span aria-hidden="true" className="text-xs">▾</span>
+              </>
+            )}
+          </button>
+
+          {isExportMenuOpen && (
+            <div
+              className="absolute left-0 top-full mt-1 z-20 w-64 py-1 bg-white border border-gray-200 rounded-md shadow-lg"
+              role="menu"
+            >
+              {EXPORT_FORMATS.map(format => (
+                <button
+                  key={format.id}
+                  onClick={() => handleExport(format.id)}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-100 transition-colors"
+                  role="menuitem"
+                >
+                  <div className="text-sm font-medium text-gray-800">{format.label}</div>
+                  <div className="text-xs text-gray-500">{format.description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* コピーボタン */}
         <button
           onClick={handleCopyToClipboard}
@@ -156,7 +294,39 @@ export function FileOperations({ className = '' }: FileOperationsProps) {
             </>
           )}
         </button>
+
+        {/* 元に戻す／やり直す／バージョン履歴 */}
+        <div className="flex gap-1 ml-auto">
+          <button
+            onClick={undo}
+            disabled={!canUndo || state.isLoading}
+            className="px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors duration-200"
+            title="元に戻す (Ctrl+Z)"
+          >
+            元に戻す
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo || state.isLoading}
+            className="px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors duration-200"
+            title="やり直す (Ctrl+Shift+Z)"
+          >
+            やり直す
+          </button>
+          <button
+            onClick={() => setIsVersionPanelOpen(true)}
+            className="px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-200 transition-colors duration-200"
+            title="AIが生成した文書のバージョン履歴"
+          >
+            バージョン ({state.versions.length})
+          </button>
+        </div>
       </div>
+
+      <VersionPanel
+        isOpen={isVersionPanelOpen}
+        onClose={() => setIsVersionPanelOpen(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+'use client';
+
+import React, { memo, useMemo } from 'react';
+import 'highlight.js/styles/github.css';
+import 'katex/dist/katex.min.css';
+import { renderMarkdown } from '../utils/markdownRenderer';
+
+/**
+ * MarkdownMessage Props
+ */
+interface MarkdownMessageProps {
+  content: string;
+}
+
+/**
+ * MarkdownMessage Component
+ * チャットのアシスタントの応答をMarkdownとしてレンダリングする（プレビューと同じ記法・サニタイズ）
+ * レンダリングできない環境ではテキストのまま表示する
+ */
+export const MarkdownMessage = memo(function MarkdownMessage({ content }: MarkdownMessageProps) {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  if (!html) {
+    return (
+      <div className="whitespace-pre-wrap break-words">
+        {content}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="markdown-preview chat-markdown break-words"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+});
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useRef } from 'react';
+import 'highlight.js/styles/github.css';
+import 'katex/dist/katex.min.css';
+import { useAppState } from '../contexts/AppStateContext';
+import { renderMarkdown, SOURCE_LINE_ATTRIBUTE } from '../utils/markdownRenderer';
+import { MermaidCache, renderMermaidDiagrams } from '../utils/mermaidRenderer';
+import { LineAnchor, lineToOffset, offsetToLine, ScrollSync } from '../utils/scrollSync';
+
+/**
+ * MarkdownPreview Props
+ */
+interface MarkdownPreviewProps {
+  className?: string;
+  scrollSync?: ScrollSync; // 指定した場合はエディターとスクロールを同期する
+}
+
+/**
+ * MarkdownPreview Component
+ * 現在の文書をレンダリングして表示する（GFM・コードハイライト・脚注・数式・mermaidの図に対応）
+ */
+export function MarkdownPreview({ className = '', scrollSync }: MarkdownPreviewProps) {
+  const { state } = useAppState();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const articleRef = useRef<HTMLElement>(null);
+  const diagramCacheRef = useRef<MermaidCache>(new Map());
+
+  // 入力やストリーミング中の更新でエディターの操作が重くならないように遅延させる
+  const markdown = useDeferredValue(state.currentCode);
+  const html = useMemo(() => renderMarkdown(markdown), [markdown]);
+  const totalLines = useMemo(() => markdown.split('\n').length, [markdown]);
+
+  // mermaidの図を描画する（生成中は途中の図でエラーが続くため、完了後に描画する）
+  useEffect(() => {
+    if (articleRef.current && !state.isLoading) {
+      renderMermaidDiagrams(articleRef.current, diagramCacheRef.current);
+    }
+  }, [html, state.isLoading]);
+
+  /**
+   * ソース行のアンカーの位置を取得する
+   */
+  const getAnchors = useCallback((): LineAnchor[] => {
+    const container = containerRef.current;
+    if (!container) return [];
+
+    const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+    return Array.from(container.querySelectorAll<HTMLElement>(`[${SOURCE_LINE_ATTRIBUTE}]`)).map(anchor => ({
+      line: Number(anchor.getAttribute(SOURCE_LINE_ATTRIBUTE)),
+      offset: anchor.getBoundingClientRect().top - containerTop,
+    }));
+  }, []);
+
+  // エディターのスクロールに追従する
+  useEffect(() => {
+    if (!scrollSync) return;
+
+    return scrollSync.subscribe('preview', (line) => {
+      const container = containerRef.current;
+      if (!container) return;
+      container.scrollTop = lineToOffset(getAnchors(), line, totalLines, container.scrollHeight);
+    });
+  }, [scrollSync, getAnchors, totalLines]);
+
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!scrollSync || !container) return;
+    scrollSync.publish('preview', offsetToLine(getAnchors(), container.scrollTop, totalLines, container.scrollHeight));
+  }, [scrollSync, getAnchors, totalLines]);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className={`h-full w-full overflow-auto bg-white ${className}`}
+      data-testid="markdown-preview"
+    >
+      {html ? (
+        <article
+          ref={articleRef}
+          className="markdown-preview px-6 py-4"
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      ) : (
+        <div className="flex items-center justify-center h-full text-sm text-gray-500">
+          プレビューする内容がありません
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useErrorHandling } from '../contexts/ErrorHandlingContext';
+import { PromptLibrary, PromptTemplate } from '../types';
+import { downloadBlob, generateTimestampedFilename } from '../utils/fileOperations';
+import {
+  createTemplateId,
+  exportPromptLibrary,
+  getTemplatesError,
+  parsePromptLibrary
+} from '../utils/promptTemplates';
+
+/**
+ * PromptLibraryPanel Props
+ */
+interface PromptLibraryPanelProps {
+  library: PromptLibrary;
+  onSave: (library: PromptLibrary) => void;
+  onClose: () => void;
+}
+
+/**
+ * PromptLibraryPanel Component
+ * プロンプトのテンプレートと固定の指示を編集し、JSONで書き出し・読み込みする
+ * 編集内容は「保存」を押すまで反映しない
+ */
+export function PromptLibraryPanel({ library, onSave, onClose }: PromptLibraryPanelProps) {
+  const { showFileSuccess, showFileError } = useErrorHandling();
+  const [draft, setDraft] = useState<PromptLibrary>(library);
+  const [selectedId, setSelectedId] = useState<string | null>(library.templates[0]?.id ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = draft.templates.find(template => template.id === selectedId);
+
+  const updateTemplate = (id: string, changes: Partial<PromptTemplate>) => {
+    setDraft(current => ({
+      ...current,
+      templates: current.templates.map(template => (template.id === id ? { ...template, ...changes } : template)),
+    }));
+  };
+
+  const handleAdd = () => {
+    const template: PromptTemplate = {
+      id: createTemplateId(),
+      name: '新しいテンプレート',
+      command: `template${draft.templates.length + 1}`,
+      content: '',
+    };
+    setDraft(current => ({ ...current, templates: [...current.templates, template] }));
+    setSelectedId(template.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const remaining = draft.templates.filter(template => template.id !== id);
+    setDraft(current => ({ ...current, templates: remaining }));
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    const templatesError = getTemplatesError(draft.templates);
+    if (templatesError) {
+      setError(templatesError);
+      return;
+    }
+    onSave(draft);
+    onClose();
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([exportPromptLibrary(library)], { type: 'application/json' }),
+      generateTimestampedFilename('prompt-templates', 'json')
+    );
+  };
+
+  /**
+   * 読み込んだ内容で編集中の内容を置き換える（同じファイルを続けて選択できるよう選択状態をリセット）
+   */
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePromptLibrary(await file.text());
+      setDraft(imported);
+      setSelectedId(imported.templates[0]?.id ?? null);
+      setError(null);
+      showFileSuccess('読み込み', `「${file.name}」を読み込みました。保存すると反映されます`);
+    } catch (importError) {
+      console.error('Import prompt library error:', importError);
+      showFileError('読み込み', importError instanceof Error ? importError.message : 'テンプレートの読み込みに失敗しました');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl mx-4 h-[80vh] flex flex-col">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">プロンプトテンプレート</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 固定の指示 */}
+        <div className="p-4 border-b border-gray-200">
+          <label htmlFor="pinned-instructions" className="block text-sm font-medium text-gray-700">
+            固定の指示
+          </label>
+          <p className="mt-1 text-xs text-gray-500">
+            すべてのリクエストの先頭に付与されます（例: 敬体で書く、見出しは日本語にする）
+          </p>
+          <textarea
+            id="pinned-instructions"
+            value={draft.pinnedInstructions}
+            onChange={(e) => setDraft(current => ({ ...current, pinnedInstructions: e.target.value }))}
+            rows={3}
+            className="mt-2 w-full resize-y border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* テンプレート一覧 */}
+          <div className="w-56 flex-shrink-0 flex flex-col border-r border-gray-200">
+            <ul className="flex-1 overflow-y-auto">
+              {draft.templates.map(template => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => setSelectedId(template.id)}
+                    className={`w-full text-left px-4 py-2 border-b border-gray-100 transition-colors ${
+                      template.id === selected?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="text-sm text-gray-800 truncate">{template.name || '（名前なし）'}</div>
+                    <div className="text-xs text-gray-500 font-mono">/{template.command}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-2 border-t border-gray-200">
+              <button
+                onClick={handleAdd}
+                className="w-full px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50 transition-colors"
+              >
+                新規テンプレート
+              </button>
+            </div>
+          </div>
+
+          {/* テンプレートの編集 */}
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-3 overflow-y-auto">
+            {selected ? (
+              <>
+                <div className="flex gap-3">
+                  <label className="flex-1 text-sm text-gray-700">
+                    名前
+                    <input
+                      value={selected.name}
+                      onChange={(e) => updateTemplate(selected.id, { name: e.target.value })}
+                      className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                  <label className="w-48 text-sm text-gray-700">
+                    コマンド
+                    <div className="mt-1 flex items-center">
+                      <span className="px-2 py-1 text-gray-500 font-mono">/</span>
+                      <input
+                        value={selected.command}
+                        onChange={(e) => updateTemplate(selected.id, { command: e.target.value.trim() })}
+                        className="w-full px-2 py-1 font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </label>
+                </div>
+                <label className="flex-1 flex flex-col text-sm text-gray-700">
+                  内容
+                  <textarea
+                    value={selected.content}
+                    onChange={(e) => updateTemplate(selected.id, { content: e.target.value })}
+                    className="mt-1 flex-1 min-h-[8rem] resize-none border border-gray-300 rounded-md px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </label>
+                <div className="flex items-start justify-between gap-2 text-xs text-gray-500">
+                  <p>
+                    {'使用できる変数: {{project}}（ワークスペース名）、{{date}}（今日の日付）、{{selection}}（エディターの選択範囲）'}
+                  </p>
+                  <button
+                    onClick={() => handleDelete(selected.id)}
+                    className="flex-shrink-0 text-red-500 hover:text-red-700 transition-colors"
+                  >
+                    削除
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">
+                テンプレートはありません
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* フッター */}
+        <div className="flex items-center gap-2 p-4 border-t border-gray-200 text-sm">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+            title="書き出したJSONファイルから読み込みます（保存するまで反映されません）"
+          >
+            読み込み
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileSelected}
+            className="hidden"
+            data-testid="prompt-library-file-input"
+          />
+          <button
+            onClick={handleExport}
+            className="px-3 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+            title="保存済みのテンプレートと固定の指示をJSONファイルに書き出します"
+          >
+            書き出し
+          </button>
+          {error && <span className="text-red-600" role="alert">{error}</span>}
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1 text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
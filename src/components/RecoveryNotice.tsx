@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+import { downloadBlob, generateTimestampedFilename } from '../utils/fileOperations';
+
+/**
+ * RecoveryNotice Component
+ * 保存データを復元できなかった場合、または自動保存に失敗した場合に通知する
+ * 復元できなかったデータはダウンロードして手動で取り出せる
+ */
+export function RecoveryNotice() {
+  const { persistenceStatus, corruptedData, discardCorruptedData } = useAppState();
+
+  if (corruptedData === undefined && persistenceStatus !== 'error') {
+    return null;
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(corruptedData, null, 2)], { type: 'application/json;charset=utf-8' });
+    downloadBlob(blob, generateTimestampedFilename('recovered-data', 'json'));
+  };
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[min(36rem,calc(100%-2rem))] p-4 bg-white border border-amber-300 rounded-lg shadow-lg"
+      role="alert"
+    >
+      {corruptedData !== undefined ? (
+        <>
+          <p className="text-sm font-medium text-gray-900">前回のチャット履歴と文書を復元できませんでした</p>
+          <p className="mt-1 text-xs text-gray-600">
+            保存データが壊れているか、形式が古い可能性があります。データは別に保管しているため、ダウンロードして内容を確認できます。
+          </p>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              onClick={handleDownload}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+            >
+              データをダウンロード
+            </button>
+            <button
+              onClick={discardCorruptedData}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 transition-colors"
+            >
+              破棄する
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-700">
+          自動保存を利用できません。ページを再読み込みするとチャット履歴と文書が失われます。
+        </p>
+      )}
+    </div>
+  );
+}
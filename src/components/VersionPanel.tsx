@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+import { diffLines } from '../utils/lineDiff';
+import { DiffView } from './DiffView';
+
+/**
+ * VersionPanel Props
+ */
+interface VersionPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 比較対象に現在の文書を選んだ場合の値
+ */
+const CURRENT_DOCUMENT = 'current';
+
+/**
+ * VersionPanel Component
+ * AIが生成した文書のバージョンを一覧表示し、プレビュー・差分表示・復元を行う
+ */
+export function VersionPanel({ isOpen, onClose }: VersionPanelProps) {
+  const { state, restoreVersion } = useAppState();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT_DOCUMENT);
+  const [viewMode, setViewMode] = useState<'preview' | 'diff'>('preview');
+
+  // 新しい順に表示する
+  const versions = useMemo(() => [...state.versions].reverse(), [state.versions]);
+  const selected = versions.find(version => version.id === selectedId) ?? versions[0];
+
+  const compareContent = compareId === CURRENT_DOCUMENT
+    ? state.currentCode
+    : versions.find(version => version.id === compareId)?.content ?? state.currentCode;
+
+  const segments = useMemo(
+    () => (selected && viewMode === 'diff' ? diffLines(compareContent, selected.content) : []),
+    [selected, compareContent, viewMode]
+  );
+
+  if (!isOpen) return null;
+
+  /**
+   * バージョンの表示名（プロンプト、なければ文書の1行目）
+   */
+  const getVersionTitle = (prompt: string | undefined, content: string) => {
+    const title = prompt?.trim() || content.split('\n').find(line => line.trim())?.trim() || '（空の文書）';
+    return title.length > 40 ? `${title.slice(0, 40)}…` : title;
+  };
+
+  const formatTimestamp = (timestamp: Date): string => {
+    return timestamp.toLocaleString('ja-JP', {
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+    restoreVersion(selected.id);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl mx-4 h-[80vh] flex flex-col">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">バージョン履歴</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {versions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500">
+            AIが生成した文書はまだありません
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* バージョン一覧 */}
+            <ul className="w-64 flex-shrink-0 overflow-y-auto border-r border-gray-200">
+              {versions.map((version, index) => (
+                <li key={version.id}>
+                  <button
+                    onClick={() => setSelectedId(version.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                      version.id === selected?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="text-sm text-gray-800">
+                      v{versions.length - index}: {getVersionTitle(version.prompt, version.content)}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {formatTimestamp(version.createdAt)}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* プレビュー・差分 */}
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+                <div className="flex gap-1" role="group" aria-label="表示切り替え">
+                  {(['preview', 'diff'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      aria-pressed={viewMode === mode}
+                      className={`px-2 py-1 rounded transition-colors ${
+                        viewMode === mode ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'
+                      }`}
+                    >
+                      {mode === 'preview' ? 'プレビュー' : '差分'}
+                    </button>
+                  ))}
+                </div>
+                {viewMode === 'diff' && (
+                  <label className="flex items-center gap-1 text-gray-600">
+                    比較対象:
+                    <select
+                      value={compareId}
+                      onChange={(e) => setCompareId(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded bg-white"
+                    >
+                      <option value={CURRENT_DOCUMENT}>現在の文書</option>
+                      {versions.map((version, index) => (
+                        <option key={version.id} value={version.id} disabled={version.id === selected?.id}>
+                          v{versions.length - index}: {getVersionTitle(version.prompt, version.content)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <button
+                  onClick={handleRestore}
+                  disabled={state.isLoading || !!state.pendingProposal}
+                  className="ml-auto px-3 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  title="このバージョンを現在の文書に復元します（元に戻すで取り消せます）"
+                >
+                  このバージョンを復元
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-auto">
+                {viewMode === 'preview' ? (
+                  <pre className="p-4 font-mono text-sm whitespace-pre-wrap break-words text-gray-800">
+                    {selected?.content}
+                  </pre>
+                ) : segments.some(segment => segment.type === 'change') ? (
+                  <DiffView segments={segments} />
+                ) : (
+                  <div className="p-4 text-sm text-gray-500">差分はありません</div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
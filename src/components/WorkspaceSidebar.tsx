@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+
+/**
+ * WorkspaceSidebar Props
+ */
+interface WorkspaceSidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * WorkspaceSidebar Component
+ * 名前付きのワークスペース（文書とチャット履歴の組）を一覧表示し、作成・切り替え・名前の変更・複製・削除を行う
+ */
+export function WorkspaceSidebar({ isOpen, onClose }: WorkspaceSidebarProps) {
+  const { state, createWorkspace, switchWorkspace, renameWorkspace, duplicateWorkspace, deleteWorkspace } = useAppState();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (!isOpen) return null;
+
+  const canDelete = state.workspaces.length > 1;
+
+  const handleSwitch = (id: string) => {
+    switchWorkspace(id);
+    onClose();
+  };
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      renameWorkspace(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`「${name}」を削除しますか？文書とチャット履歴は元に戻せません。`)) {
+      deleteWorkspace(id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      <aside className="w-80 max-w-[85vw] h-full bg-white shadow-xl flex flex-col" aria-label="ワークスペース">
+        {/* ヘッダー */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">ワークスペース</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            title="閉じる"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200">
+          <button
+            onClick={() => createWorkspace()}
+            disabled={state.isLoading}
+            className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            新規ワークスペース
+          </button>
+        </div>
+
+        {/* ワークスペース一覧（作成順） */}
+        <ul className="flex-1 overflow-y-auto py-2">
+          {state.workspaces.map(workspace => {
+            const isActive = workspace.id === state.activeWorkspaceId;
+            return (
+              <li
+                key={workspace.id}
+                className={`px-4 py-2 ${isActive ? 'bg-blue-50 border-l-4 border-blue-600' : 'border-l-4 border-transparent hover:bg-gray-50'}`}
+              >
+                {editingId === workspace.id ? (
+                  <input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={handleRenameKeyDown}
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="ワークスペース名"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    onClick={() => handleSwitch(workspace.id)}
+                    disabled={state.isLoading && !isActive}
+                    aria-current={isActive ? 'true' : undefined}
+                    className={`w-full text-left text-sm truncate disabled:cursor-not-allowed ${
+                      isActive ? 'font-semibold text-blue-700' : 'text-gray-800'
+                    }`}
+                    title={workspace.name}
+                  >
+                    {workspace.name}
+                  </button>
+                )}
+                <div className="mt-1 flex gap-3 text-xs">
+                  <button
+                    onClick={() => startRename(workspace.id, workspace.name)}
+                    className="text-gray-500 hover:text-gray-800 transition-colors"
+                  >
+                    名前を変更
+                  </button>
+                  <button
+                    onClick={() => duplicateWorkspace(workspace.id)}
+                    disabled={state.isLoading}
+                    className="text-gray-500 hover:text-gray-800 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+                  >
+                    複製
+                  </button>
+                  <button
+                    onClick={() => handleDelete(workspace.id, workspace.name)}
+                    disabled={!canDelete || state.isLoading}
+                    className="text-red-500 hover:text-red-700 disabled:text-gray-300 disabled:cursor-not-allowed transition-colors"
+                    title={canDelete ? undefined : '最後のワークスペースは削除できません'}
+                  >
+                    削除
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </aside>
+
+      {/* 背景（クリックで閉じる） */}
+      <div className="flex-1 bg-black bg-opacity-50" onClick={onClose} aria-hidden="true" />
+    </div>
+  );
+}
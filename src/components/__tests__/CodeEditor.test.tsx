@@ -0,0 +1,167 @@
+/**
+ * CodeEditor Component Tests
+ * textareaでの編集（Monaco Editorの読み込み前・読み込み失敗時）と元に戻す／やり直すのショートカットのテスト
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import type { OnMount } from '@monaco-editor/react';
+import { CodeEditor } from '../CodeEditor';
+import { AppStateProvider, useAppState } from '../../contexts/AppStateContext';
+import { ErrorHandlingProvider } from '../../contexts/ErrorHandlingContext';
+
+// Monaco Editorの代わり（mockMountEditorがtrueの場合はマウント時の処理を呼び出し、mockLoadErrorがある場合は読み込みに失敗する）
+let mockMountEditor = false;
+let mockLoadError: Error | null = null;
+jest.mock('../../utils/monacoLoader', () => ({
+  __esModule: true,
+  default: function MockMonacoEditor({ onMount }: { onMount: OnMount }) {
+    if (mockLoadError) {
+      throw mockLoadError;
+    }
+    const { useEffect } = jest.requireActual<typeof React>('react');
+    useEffect(() => {
+      if (mockMountEditor) {
+        onMount(mockEditor as never, mockMonaco as never);
+      }
+    }, [onMount]);
+    return <div data-testid="monaco-editor" />;
+  },
+}));
+
+const mockMonaco = {
+  KeyMod: { CtrlCmd: 1 << 11, Shift: 1 << 10 },
+  KeyCode: { KeyY: 55, KeyZ: 56 },
+};
+
+const mockEditor = {
+  getValue: jest.fn(() => ''),
+  setValue: jest.fn(),
+  getModel: jest.fn(() => null),
+  getPosition: jest.fn(() => null),
+  onDidChangeCursorPosition: jest.fn(),
+  onDidScrollChange: jest.fn(),
+  onDidChangeCursorSelection: jest.fn(),
+  addCommand: jest.fn(),
+};
+
+// 文書の状態を表示し、編集できるようにする部品
+const Seed = () => {
+  const { state, updateCode } = useAppState();
+  return (
+    <>
+      <button onClick={() => updateCode('# Draft')}>seed</button>
+      <output data-testid="current-code">{state.currentCode}</output>
+    </>
+  );
+};
+
+const renderEditor = () => render(
+  <ErrorHandlingProvider>
+    <AppStateProvider>
+      <Seed />
+      <CodeEditor />
+    </AppStateProvider>
+  </ErrorHandlingProvider>
+);
+
+describe('CodeEditor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMountEditor = false;
+    mockLoadError = null;
+  });
+
+  describe('textarea fallback', () => {
+    it('should edit the document until Monaco Editor is ready', async () => {
+      renderEditor();
+      await screen.findByTestId('monaco-editor');
+
+      const textarea = screen.getByPlaceholderText('AIが生成したMarkdownコードがここに表示されます...');
+      fireEvent.change(textarea, { target: { value: '# Draft' } });
+
+      expect(screen.getByTestId('current-code')).toHaveTextContent('# Draft');
+      expect(textarea).toHaveValue('# Draft');
+    });
+
+    it('should keep the textarea when Monaco Editor fails to load', async () => {
+      mockLoadError = new Error('Loading chunk monaco failed');
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      renderEditor();
+
+      await waitFor(() => expect(consoleError).toHaveBeenCalledWith(
+        'Error Boundary caught an error:', mockLoadError, expect.anything()
+      ));
+      expect(screen.queryByText('アプリケーションエラー')).not.toBeInTheDocument();
+
+      const textarea = screen.getByPlaceholderText('AIが生成したMarkdownコードがここに表示されます...');
+      fireEvent.change(textarea, { target: { value: '# Draft' } });
+      expect(screen.getByTestId('current-code')).toHaveTextContent('# Draft');
+      consoleError.mockRestore();
+    });
+
+    it('should undo with Ctrl+Z and redo with Ctrl+Shift+Z or Ctrl+Y', async () => {
+      renderEditor();
+      await screen.findByTestId('monaco-editor');
+
+      const textarea = screen.getByPlaceholderText('AIが生成したMarkdownコードがここに表示されます...');
+      fireEvent.change(textarea, { target: { value: '# Draft' } });
+
+      fireEvent.keyDown(textarea, { key: 'z', ctrlKey: true });
+      expect(textarea).toHaveValue('');
+
+      fireEvent.keyDown(textarea, { key: 'Z', ctrlKey: true, shiftKey: true });
+      expect(textarea).toHaveValue('# Draft');
+
+      fireEvent.keyDown(textarea, { key: 'z', metaKey: true });
+      expect(textarea).toHaveValue('');
+
+      fireEvent.keyDown(textarea, { key: 'y', ctrlKey: true });
+      expect(textarea).toHaveValue('# Draft');
+
+      // Altとの組み合わせは対象外
+      fireEvent.keyDown(textarea, { key: 'z', ctrlKey: true, altKey: true });
+      expect(textarea).toHaveValue('# Draft');
+    });
+  });
+
+  describe('Monaco Editor', () => {
+    it('should replace the textarea and bind undo/redo to the app history', async () => {
+      mockMountEditor = true;
+      renderEditor();
+
+      await waitFor(() => expect(screen.queryByPlaceholderText('AIが生成したMarkdownコードがここに表示されます...')).not.toBeInTheDocument());
+      expect(screen.getByText('検索・置換')).toBeInTheDocument();
+
+      const { KeyMod, KeyCode } = mockMonaco;
+      const commands = new Map<number, () => void>(
+        mockEditor.addCommand.mock.calls.map(([keybinding, handler]) => [keybinding, handler])
+      );
+      expect([...commands.keys()]).toEqual([
+        KeyMod.CtrlCmd | KeyCode.KeyZ,
+        KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ,
+        KeyMod.CtrlCmd | KeyCode.KeyY,
+      ]);
+
+      fireEvent.click(screen.getByText('seed'));
+
+      act(() => {
+        commands.get(KeyMod.CtrlCmd | KeyCode.KeyZ)!();
+      });
+      expect(screen.getByTestId('current-code')).toHaveTextContent(/^$/);
+
+      act(() => {
+        commands.get(KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ)!();
+      });
+      expect(screen.getByTestId('current-code')).toHaveTextContent('# Draft');
+
+      act(() => {
+        commands.get(KeyMod.CtrlCmd | KeyCode.KeyZ)!();
+      });
+      act(() => {
+        commands.get(KeyMod.CtrlCmd | KeyCode.KeyY)!();
+      });
+      expect(screen.getByTestId('current-code')).toHaveTextContent('# Draft');
+    });
+  });
+});
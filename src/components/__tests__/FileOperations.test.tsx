@@ -4,15 +4,25 @@
  */
 
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { FileOperations } from '../FileOperations';
-import { AppStateProvider } from '../../contexts/AppStateContext';
+import { AppStateProvider, useAppState } from '../../contexts/AppStateContext';
+import { exportDocument } from '../../utils/documentExport';
+import { readTextFile } from '../../utils/fileOperations';
 import { ErrorHandlingProvider } from '../../contexts/ErrorHandlingContext';
 
 // Mock file operations
 jest.mock('../../utils/fileOperations', () => ({
+  ...jest.requireActual('../../utils/fileOperations'),
   downloadMarkdownFile: jest.fn(),
   copyToClipboard: jest.fn(),
+  readTextFile: jest.fn(),
+}));
+
+// Mock document export
+jest.mock('../../utils/documentExport', () => ({
+  ...jest.requireActual('../../utils/documentExport'),
+  exportDocument: jest.fn(),
 }));
 
 // Test wrapper with context
@@ -73,6 +83,75 @@ describe('FileOperations', () => {
     expect(svgElements).toHaveLength(2); // One for each button
   });
 
+  it('should export the document in the selected format', async () => {
+    (exportDocument as jest.Mock).mockResolvedValue(true);
+    const Seed = () => {
+      const { updateCode } = useAppState();
+      return <button onClick={() => updateCode('# Doc')}>seed</button>;
+    };
+    render(
+      <TestWrapper>
+        <Seed />
+        <FileOperations />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByText('seed'));
+    fireEvent.click(screen.getByText('エクスポート'));
+    expect(screen.getAllByRole('menuitem').map(item => item.textContent)).toEqual([
+      expect.stringContaining('HTML'),
+      expect.stringContaining('PDF'),
+      expect.stringContaining('Word (DOCX)'),
+    ]);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Word (DOCX)'));
+    });
+
+    expect(exportDocument).toHaveBeenCalledWith('# Doc', 'docx');
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+
+  it('should confirm before replacing unsaved content with an opened file', async () => {
+    (readTextFile as jest.Mock).mockResolvedValue({ text: '# Opened', encoding: 'shift_jis' });
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const Seed = () => {
+      const { state, updateCode } = useAppState();
+      return (
+        <>
+          <button onClick={() => updateCode('# Draft')}>seed</button>
+          <output data-testid="current-code">{state.currentCode}</output>
+        </>
+      );
+    };
+    render(
+      <TestWrapper>
+        <Seed />
+        <FileOperations />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByText('seed'));
+    const input = screen.getByTestId('open-file-input');
+    const file = new File(['# Opened'], 'notes.md', { type: 'text/markdown' });
+
+    // キャンセルした場合は置き換えない
+    await act(async () => {
+      fireEvent.change(input, { target: { files: [file] } });
+    });
+    expect(confirmSpy).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('current-code')).toHaveTextContent('# Draft');
+
+    await act(async () => {
+      fireEvent.change(input, { target: { files: [file] } });
+    });
+    expect(readTextFile).toHaveBeenCalledWith(file);
+    expect(screen.getByTestId('current-code')).toHaveTextContent('# Opened');
+    expect(screen.getByText(/notes\.md.*Shift_JIS/)).toBeInTheDocument();
+
+    confirmSpy.mockRestore();
+  });
+
   it('should render with custom className', () => {
     const { container } = render(
       <TestWrapper>
@@ -7,4 +7,9 @@ export { CodeEditor } from './CodeEditor';
 export { FileOperations } from './FileOperations';
 export { ToastNotification, ToastContainer } from './ToastNotification';
 export { ErrorBoundary, withErrorBoundary } from './ErrorBoundary';
-export { ApiKeySettings } from './ApiKeySettings';
\ No newline at end of file
+export { ApiKeySettings } from './ApiKeySettings';
+export { RecoveryNotice } from './RecoveryNotice';
+export { WorkspaceSidebar } from './WorkspaceSidebar';
+export { ConversationSummaryCard } from './ConversationSummaryCard';
+export { PromptLibraryPanel } from './PromptLibraryPanel';
+export { MarkdownMessage } from './MarkdownMessage';
@@ -1,56 +1,323 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
-import { AppState, ChatMessage, limitChatHistory } from '../types';
+import React, { createContext, useContext, useEffect, useReducer, useRef, useState, ReactNode } from 'react';
+import {
+  AppState,
+  ApplyMode,
+  ChatMessage,
+  CodeHistory,
+  ConversationSummary,
+  DEFAULT_WORKSPACE,
+  DocumentProposal,
+  DocumentVersion,
+  EditorSelection,
+  HISTORY_CONFIG,
+  PERSISTENCE_CONFIG,
+  WorkspaceSummary,
+  validateAppState
+} from '../types';
+import {
+  PersistedAppState,
+  clearCorruptedState,
+  deleteWorkspaceDocument,
+  isPersistenceAvailable,
+  loadPersistedState,
+  saveCorruptedState,
+  saveWorkspaceDocument,
+  saveWorkspaces
+} from '../services/persistence';
+import type { AIService } from '../services/aiService';
+import {
+  createSummaryPrompt,
+  getUnsummarizedMessages,
+  selectContextMessages,
+  summarizeOmittedMessages
+} from '../utils/conversationContext';
+import { truncateDocument } from '../utils/documentContext';
+import { extractMarkdownPayload, isAwaitingDocumentStart } from '../utils/markdownPayload';
+import { clampSelection, getSelectedText, spliceSelection } from '../utils/selectionEdit';
 
 /**
  * 状態更新のアクション定義
  */
 export type AppStateAction =
   | { type: 'ADD_MESSAGE'; payload: ChatMessage }
+  | { type: 'UPDATE_MESSAGE'; payload: { id: string; content: string } }
+  | { type: 'MARK_MESSAGE_CANCELLED'; payload: string }
+  | { type: 'SET_MESSAGE_APPLY_RAW'; payload: { id: string; applyRaw: boolean } }
+  | { type: 'DELETE_MESSAGES'; payload: string[] }
   | { type: 'CLEAR_HISTORY' }
-  | { type: 'UPDATE_CODE'; payload: string }
+  | { type: 'SET_CONVERSATION_SUMMARY'; payload: ConversationSummary | null }
+  | { type: 'UPDATE_CODE'; payload: string; meta?: CodeEditMeta }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'SET_APPLY_MODE'; payload: ApplyMode }
+  | { type: 'SET_PROPOSAL'; payload: DocumentProposal | null }
+  | { type: 'ADD_VERSION'; payload: DocumentVersion }
+  | { type: 'CLEAR_VERSIONS' }
+  | { type: 'MARK_SAVED'; payload: string }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'RESTORE_STATE'; payload: PersistedAppState & Pick<AppState, 'workspaces' | 'activeWorkspaceId'> }
+  | { type: 'ADD_WORKSPACE'; payload: { workspace: WorkspaceSummary; snapshot: WorkspaceSnapshot } }
+  | { type: 'SWITCH_WORKSPACE'; payload: { id: string; snapshot: WorkspaceSnapshot } }
+  | { type: 'RENAME_WORKSPACE'; payload: { id: string; name: string } }
+  | { type: 'REMOVE_WORKSPACE'; payload: string }
   | { type: 'RESET_STATE' };
 
+/**
+ * ワークスペースごとに入れ替える状態（編集履歴は保存せず、切り替え中のみ保持する）
+ */
+export type WorkspaceSnapshot = Pick<
+  AppState,
+  'chatHistory' | 'conversationSummary' | 'currentCode' | 'savedCode' | 'versions' | 'codeHistory'
+>;
+
+/**
+ * 保存データの状態
+ * restoring: 復元中 / ready: 自動保存中 / unavailable: IndexedDBを利用できない / error: 読み書きに失敗した
+ */
+export type PersistenceStatus = 'restoring' | 'ready' | 'unavailable' | 'error';
+
+/**
+ * 文書の編集のまとまり
+ * manual: 手動編集（coalesceMs以内の連続した編集をまとめる）
+ * それ以外: 同じgroupの連続した編集をまとめる（AI応答のストリーミングなど）
+ */
+export interface CodeEditMeta {
+  group: string;
+  timestamp: number;
+}
+
 /**
  * 初期状態
  */
 const initialState: AppState = {
+  workspaces: [DEFAULT_WORKSPACE],
+  activeWorkspaceId: DEFAULT_WORKSPACE.id,
   chatHistory: [],
+  conversationSummary: null,
   currentCode: '',
   isLoading: false,
   error: null,
+  applyMode: 'direct',
+  pendingProposal: null,
+  codeHistory: {
+    past: [],
+    future: [],
+    lastGroup: null,
+    lastEditAt: 0,
+  },
+  versions: [],
+  savedCode: '',
+};
+
+/**
+ * 新しいワークスペースの内容
+ */
+const EMPTY_SNAPSHOT: WorkspaceSnapshot = {
+  chatHistory: initialState.chatHistory,
+  conversationSummary: initialState.conversationSummary,
+  currentCode: initialState.currentCode,
+  savedCode: initialState.savedCode,
+  versions: initialState.versions,
+  codeHistory: initialState.codeHistory,
 };
 
+/**
+ * 履歴を上限（件数・合計文字数）に収める（古いものから削除）
+ */
+function trimHistory(past: string[]): string[] {
+  const trimmed = past.slice(-HISTORY_CONFIG.maxEntries);
+  let totalChars = trimmed.reduce((sum, entry) => sum + entry.length, 0);
+  while (trimmed.length > 0 && totalChars > HISTORY_CONFIG.maxTotalChars) {
+    totalChars -= trimmed.shift()!.length;
+  }
+  return trimmed;
+}
+
+/**
+ * 文書の変更を編集履歴に記録する
+ * 直前と同じまとまりの編集であれば新しい履歴は追加しない
+ */
+function recordCodeEdit(history: CodeHistory, previousCode: string, meta?: CodeEditMeta): CodeHistory {
+  const coalesce = !!meta &&
+    meta.group === history.lastGroup &&
+    (meta.group !== 'manual' || meta.timestamp - history.lastEditAt < HISTORY_CONFIG.coalesceMs);
+
+  return {
+    past: coalesce ? history.past : trimHistory([...history.past, previousCode]),
+    future: [],
+    lastGroup: meta?.group ?? null,
+    lastEditAt: meta?.timestamp ?? 0,
+  };
+}
+
+/**
+ * 要約に含めた最後のメッセージを削除する場合は、それより前に残るメッセージまでを要約済みとする
+ * 残るメッセージがなければ、以降のメッセージはすべて会話履歴として送信する
+ */
+function moveSummaryBoundary(
+  summary: ConversationSummary,
+  history: ChatMessage[],
+  deletedIds: string[]
+): ConversationSummary {
+  if (!deletedIds.includes(summary.summarizedUntil)) {
+    return summary;
+  }
+  const index = history.findIndex(message => message.id === summary.summarizedUntil);
+  const remaining = history.slice(0, index).filter(message => !deletedIds.includes(message.id));
+  return { ...summary, summarizedUntil: remaining[remaining.length - 1]?.id ?? '' };
+}
+
 /**
  * 状態更新のReducer
  */
 function appStateReducer(state: AppState, action: AppStateAction): AppState {
   switch (action.type) {
     case 'ADD_MESSAGE':
-      const newHistory = [...state.chatHistory, action.payload];
+      // 履歴はすべて保持する（AIに送信する範囲は送信時にトークン数で選ぶ）
       return {
         ...state,
-        chatHistory: limitChatHistory(newHistory), // 履歴制限を適用
+        chatHistory: [...state.chatHistory, action.payload],
         error: null, // メッセージ追加時にエラーをクリア
       };
 
+    case 'UPDATE_MESSAGE':
+      return {
+        ...state,
+        chatHistory: state.chatHistory.map(message =>
+          message.id === action.payload.id
+            ? { ...message, content: action.payload.content }
+            : message
+        ),
+      };
+
+    case 'MARK_MESSAGE_CANCELLED':
+      return {
+        ...state,
+        chatHistory: state.chatHistory.map(message =>
+          message.id === action.payload
+            ? { ...message, cancelled: true }
+            : message
+        ),
+      };
+
+    case 'SET_MESSAGE_APPLY_RAW':
+      return {
+        ...state,
+        chatHistory: state.chatHistory.map(message =>
+          message.id === action.payload.id
+            ? { ...message, applyRaw: action.payload.applyRaw }
+            : message
+        ),
+      };
+
+    case 'DELETE_MESSAGES':
+      return {
+        ...state,
+        chatHistory: state.chatHistory.filter(message => !action.payload.includes(message.id)),
+        conversationSummary: state.conversationSummary && moveSummaryBoundary(
+          state.conversationSummary,
+          state.chatHistory,
+          action.payload
+        ),
+      };
+
     case 'CLEAR_HISTORY':
       return {
         ...state,
         chatHistory: [],
+        conversationSummary: null,
         error: null,
       };
 
+    case 'SET_CONVERSATION_SUMMARY':
+      return {
+        ...state,
+        conversationSummary: action.payload,
+      };
+
     case 'UPDATE_CODE':
       return {
         ...state,
         currentCode: action.payload,
+        codeHistory: action.payload === state.currentCode
+          ? state.codeHistory
+          : recordCodeEdit(state.codeHistory, state.currentCode, action.meta),
         error: null,
       };
 
+    case 'UNDO': {
+      const { past, future } = state.codeHistory;
+      if (past.length === 0) {
+        return state;
+      }
+      return {
+        ...state,
+        currentCode: past[past.length - 1],
+        codeHistory: {
+          past: past.slice(0, -1),
+          future: [state.currentCode, ...future],
+          lastGroup: null,
+          lastEditAt: 0,
+        },
+      };
+    }
+
+    case 'REDO': {
+      const { past, future } = state.codeHistory;
+      if (future.length === 0) {
+        return state;
+      }
+      return {
+        ...state,
+        currentCode: future[0],
+        codeHistory: {
+          past: trimHistory([...past, state.currentCode]),
+          future: future.slice(1),
+          lastGroup: null,
+          lastEditAt: 0,
+        },
+      };
+    }
+
+    case 'SET_APPLY_MODE':
+      return {
+        ...state,
+        applyMode: action.payload,
+      };
+
+    case 'SET_PROPOSAL':
+      return {
+        ...state,
+        pendingProposal: action.payload,
+      };
+
+    case 'ADD_VERSION': {
+      // 直前のバージョンと同じ内容の場合は追加しない
+      const latest = state.versions[state.versions.length - 1];
+      if (latest && latest.content === action.payload.content) {
+        return state;
+      }
+      return {
+        ...state,
+        versions: [...state.versions, action.payload].slice(-HISTORY_CONFIG.maxVersions),
+      };
+    }
+
+    case 'CLEAR_VERSIONS':
+      return {
+        ...state,
+        versions: [],
+      };
+
+    case 'MARK_SAVED':
+      return {
+        ...state,
+        savedCode: action.payload,
+      };
+
     case 'SET_LOADING':
       return {
         ...state,
@@ -64,28 +331,131 @@ function appStateReducer(state: AppState, action: AppStateAction): AppState {
         isLoading: false, // エラー時はローディングを停止
       };
 
+    case 'RESTORE_STATE':
+      // 復元が終わるまでは編集を受け付けないため、保存データでそのまま置き換える
+      return {
+        ...state,
+        workspaces: action.payload.workspaces,
+        activeWorkspaceId: action.payload.activeWorkspaceId,
+        chatHistory: action.payload.chatHistory,
+        conversationSummary: action.payload.conversationSummary,
+        currentCode: action.payload.currentCode,
+        savedCode: action.payload.savedCode,
+      };
+
+    case 'ADD_WORKSPACE':
+      return {
+        ...state,
+        ...action.payload.snapshot,
+        workspaces: [...state.workspaces, action.payload.workspace],
+        activeWorkspaceId: action.payload.workspace.id,
+        pendingProposal: null,
+        error: null,
+      };
+
+    case 'SWITCH_WORKSPACE':
+      return {
+        ...state,
+        ...action.payload.snapshot,
+        activeWorkspaceId: action.payload.id,
+        pendingProposal: null,
+        error: null,
+      };
+
+    case 'RENAME_WORKSPACE':
+      return {
+        ...state,
+        workspaces: state.workspaces.map(workspace =>
+          workspace.id === action.payload.id ? { ...workspace, name: action.payload.name } : workspace
+        ),
+      };
+
+    case 'REMOVE_WORKSPACE':
+      // 選択中のワークスペースは削除しない（先に切り替える）
+      if (action.payload === state.activeWorkspaceId) {
+        return state;
+      }
+      return {
+        ...state,
+        workspaces: state.workspaces.filter(workspace => workspace.id !== action.payload),
+      };
+
     case 'RESET_STATE':
-      return initialState;
+      // ワークスペース一覧は残し、選択中のワークスペースの内容のみ初期化する
+      return {
+        ...initialState,
+        workspaces: state.workspaces,
+        activeWorkspaceId: state.activeWorkspaceId,
+      };
 
     default:
       return state;
   }
 }
 
+/**
+ * プロンプト送信のオプション
+ */
+export interface SendPromptOptions {
+  includeDocument?: boolean; // エディターの文書を編集対象として送信する（デフォルト: true）
+  selection?: EditorSelection; // 指定した場合は選択範囲のみを応答で置き換える
+}
+
+/**
+ * AI生成文書の反映オプション
+ */
+interface ProposeCodeOptions {
+  review: boolean; // 差分確認用の提案として保持する
+  group: string; // 編集履歴のまとまり
+  messageId: string; // 生成元のアシスタントメッセージ
+  prompt?: string;
+  final?: boolean; // 応答が確定した（バージョンとして記録する）
+}
+
 /**
  * Context型定義
  */
 interface AppStateContextType {
   state: AppState;
   addMessage: (message: ChatMessage) => void;
+  updateMessage: (id: string, content: string) => void;
   clearHistory: () => void;
   updateCode: (code: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   resetState: () => void;
   // 統合機能の追加
-  sendPromptAndUpdateCode: (prompt: string) => Promise<void>;
+  sendPromptAndUpdateCode: (prompt: string, options?: SendPromptOptions) => Promise<void>;
+  cancelGeneration: () => void;
+  applyMessageToEditor: (id: string, raw: boolean) => void;
+  insertMessageAtCursor: (id: string) => void;
+  deleteMessage: (id: string) => void;
+  regenerateMessage: (id: string, options?: Pick<SendPromptOptions, 'includeDocument'>) => Promise<void>;
+  updateConversationSummary: (content: string) => void;
+  setApplyMode: (mode: ApplyMode) => void;
+  resolveProposal: (code: string | null) => void;
+  restoreVersion: (id: string) => void;
+  openDocument: (code: string) => void;
+  markSaved: () => void;
+  hasUnsavedChanges: boolean;
   clearAllData: () => void;
+  persistenceStatus: PersistenceStatus;
+  isRestoring: boolean; // 保存データの復元中（編集を受け付けない）
+  corruptedData: unknown; // 復元できなかった保存データ（なければundefined）
+  discardCorruptedData: () => Promise<void>;
+  // ワークスペース
+  createWorkspace: (name?: string) => void;
+  switchWorkspace: (id: string) => void;
+  renameWorkspace: (id: string, name: string) => void;
+  duplicateWorkspace: (id: string) => void;
+  deleteWorkspace: (id: string) => void;
+  // エディターのカーソル位置・選択範囲（選択していない場合はstart === end）
+  editorSelection: EditorSelection | null;
+  setEditorSelection: (selection: EditorSelection | null) => void;
 }
 
 /**
@@ -105,18 +475,185 @@ interface AppStateProviderProps {
  */
 export function AppStateProvider({ children }: AppStateProviderProps) {
   const [state, dispatch] = useReducer(appStateReducer, initialState);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const editGroupRef = useRef(0);
+  // サーバーとクライアントの初回描画を一致させるため、IndexedDBの有無は復元時に確認する
+  const [persistenceStatus, setPersistenceStatus] = useState<PersistenceStatus>('unavailable');
+  const [corruptedData, setCorruptedData] = useState<unknown>(undefined);
+  const [editorSelection, setEditorSelection] = useState<EditorSelection | null>(null);
+  const pendingSaveRef = useRef<{ workspaceId: string; state: PersistedAppState } | null>(null);
+  // 選択中以外のワークスペースの内容（編集履歴も含めて切り替え時に戻す）
+  const workspaceSnapshotsRef = useRef(new Map<string, WorkspaceSnapshot>());
+
+  // 保存されているワークスペースとチャット履歴・文書を復元する（検証に失敗したデータは退避して通知する）
+  useEffect(() => {
+    if (!isPersistenceAvailable()) {
+      return;
+    }
+    let cancelled = false;
+
+    const restore = async () => {
+      setPersistenceStatus('restoring');
+      try {
+        const { rawWorkspaces, workspaces, documents, corrupted } = await loadPersistedState();
+        if (cancelled) return;
+
+        // 以前に退避したデータに今回退避したデータを加えて通知する
+        let unrestorable: Record<string, unknown> | undefined = corrupted;
+        if (workspaces) {
+          const invalidDocuments: Record<string, unknown> = {};
+          const snapshots = new Map<string, WorkspaceSnapshot>();
+          for (const workspace of workspaces.workspaces) {
+            const { raw, state: stored } = documents[workspace.id] ?? { raw: undefined, state: null };
+            if (stored && validateAppState({ ...initialState, ...stored })) {
+              snapshots.set(workspace.id, { ...EMPTY_SNAPSHOT, ...stored });
+            } else if (raw !== undefined) {
+              console.error(`Stored workspace "${workspace.name}" failed validation:`, raw);
+              invalidDocuments[workspace.id] = raw;
+            }
+          }
+          if (Object.keys(invalidDocuments).length > 0) {
+            unrestorable = { ...unrestorable, [await saveCorruptedState(invalidDocuments)]: invalidDocuments };
+          }
+          if (cancelled) return;
+
+          const active = snapshots.get(workspaces.activeWorkspaceId) ?? EMPTY_SNAPSHOT;
+          snapshots.delete(workspaces.activeWorkspaceId);
+          workspaceSnapshotsRef.current = snapshots;
+          dispatch({
+            type: 'RESTORE_STATE',
+            payload: {
+              ...workspaces,
+              chatHistory: active.chatHistory,
+              conversationSummary: active.conversationSummary,
+              currentCode: active.currentCode,
+              savedCode: active.savedCode,
+            },
+          });
+        } else if (rawWorkspaces !== undefined) {
+          // ワークスペース一覧を復元できない場合は、既定のワークスペースの自動保存で上書きされる前にすべての内容を退避する
+          console.error('Stored workspaces failed validation:', rawWorkspaces);
+          const backup = {
+            workspaces: rawWorkspaces,
+            documents: Object.fromEntries(Object.entries(documents).map(([id, { raw }]) => [id, raw])),
+          };
+          unrestorable = { ...unrestorable, [await saveCorruptedState(backup)]: backup };
+        }
+        if (cancelled) return;
+
+        setCorruptedData(unrestorable);
+        setPersistenceStatus('ready');
+      } catch (error) {
+        console.error('Failed to restore app state:', error);
+        if (!cancelled) {
+          setPersistenceStatus('error');
+        }
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const canPersist = persistenceStatus !== 'restoring' && persistenceStatus !== 'unavailable';
+  // 復元中に編集すると保存データのワークスペースを上書きしてしまうため、復元が終わるまで編集を受け付けない
+  const isRestoring = persistenceStatus === 'restoring';
+
+  // ワークスペース一覧は変更のたびに保存する
+  useEffect(() => {
+    if (!canPersist) {
+      return;
+    }
+    saveWorkspaces({ workspaces: state.workspaces, activeWorkspaceId: state.activeWorkspaceId })
+      .catch((error) => {
+        console.error('Failed to save workspaces:', error);
+        setPersistenceStatus('error');
+      });
+  }, [state.workspaces, state.activeWorkspaceId, canPersist]);
+
+  // 変更が落ち着いたら自動保存する（復元が終わるまでは保存データを上書きしない）
+  useEffect(() => {
+    if (!canPersist) {
+      return;
+    }
+
+    const pending = {
+      workspaceId: state.activeWorkspaceId,
+      state: {
+        chatHistory: state.chatHistory,
+        conversationSummary: state.conversationSummary,
+        currentCode: state.currentCode,
+        savedCode: state.savedCode,
+      },
+    };
+    pendingSaveRef.current = pending;
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      saveWorkspaceDocument(pending.workspaceId, pending.state)
+        .then(() => setPersistenceStatus('ready'))
+        .catch((error) => {
+          console.error('Failed to save app state:', error);
+          setPersistenceStatus('error');
+        });
+    }, PERSISTENCE_CONFIG.saveDebounceMs);
+
+    return () => clearTimeout(timer);
+  }, [state.chatHistory, state.conversationSummary, state.currentCode, state.savedCode, state.activeWorkspaceId, canPersist]);
+
+  // ページを閉じる・再読み込みする前に未保存の変更を書き込む
+  useEffect(() => {
+    const flush = () => {
+      if (pendingSaveRef.current) {
+        saveWorkspaceDocument(pendingSaveRef.current.workspaceId, pendingSaveRef.current.state).catch(() => {});
+        pendingSaveRef.current = null;
+      }
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
 
   // アクション関数
   const addMessage = (message: ChatMessage) => {
     dispatch({ type: 'ADD_MESSAGE', payload: message });
   };
 
+  const updateMessage = (id: string, content: string) => {
+    dispatch({ type: 'UPDATE_MESSAGE', payload: { id, content } });
+  };
+
   const clearHistory = () => {
     dispatch({ type: 'CLEAR_HISTORY' });
   };
 
+  // 手動編集（連続した入力は履歴上1件にまとめる）
   const updateCode = (code: string) => {
-    dispatch({ type: 'UPDATE_CODE', payload: code });
+    if (isRestoring) {
+      return;
+    }
+    commitCode(code, 'manual');
+  };
+
+  // 編集のまとまりを指定して文書を更新する
+  const commitCode = (code: string, group: string) => {
+    dispatch({ type: 'UPDATE_CODE', payload: code, meta: { group, timestamp: Date.now() } });
+  };
+
+  // 単独の編集として記録するためのまとまりID
+  const createEditGroup = (prefix: string) => `${prefix}:${++editGroupRef.current}`;
+
+  // 生成中はAI応答で上書きされるため元に戻す／やり直すを受け付けない
+  const undo = () => {
+    if (!state.isLoading) {
+      dispatch({ type: 'UNDO' });
+    }
+  };
+
+  const redo = () => {
+    if (!state.isLoading) {
+      dispatch({ type: 'REDO' });
+    }
   };
 
   const setLoading = (loading: boolean) => {
@@ -131,19 +668,78 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     dispatch({ type: 'RESET_STATE' });
   };
 
+  // AIが生成した文書をバージョンとして記録する
+  const addVersion = (content: string, messageId: string, prompt?: string) => {
+    dispatch({
+      type: 'ADD_VERSION',
+      payload: {
+        id: `version-${Date.now()}-${state.versions.length}`,
+        messageId,
+        content,
+        createdAt: new Date(),
+        prompt,
+      },
+    });
+  };
+
+  // AIが生成した文書を反映する（review: 差分確認用の提案として保持）
+  // 同じgroupでの反映（ストリーミング中の更新）は履歴上1件として記録し、確定時（final）にバージョンを記録する
+  const proposeCode = (code: string, options: ProposeCodeOptions) => {
+    const { review, group, messageId, prompt, final = false } = options;
+    if (review) {
+      dispatch({ type: 'SET_PROPOSAL', payload: { proposed: code, messageId, prompt } });
+    } else {
+      commitCode(code, group);
+      if (final) {
+        addVersion(code, messageId, prompt);
+      }
+    }
+  };
+
   // 統合機能: プロンプト送信とコード更新を一括処理
-  const sendPromptAndUpdateCode = async (prompt: string) => {
-    if (!prompt.trim() || state.isLoading) {
+  const sendPromptAndUpdateCode = (prompt: string, options: SendPromptOptions = {}) => (
+    runPrompt(prompt, options, state.chatHistory, state.currentCode)
+  );
+
+  // 会話履歴（history）の後にプロンプトを送信し、応答で文書（baseCode）を更新する
+  const runPrompt = async (prompt: string, options: SendPromptOptions, history: ChatMessage[], baseCode: string) => {
+    const { includeDocument = true } = options;
+
+    if (!prompt.trim() || state.isLoading || isRestoring) {
       return;
     }
 
+    // 選択範囲の編集では、送信時点の文書を基準に選択範囲だけを置き換える
+    const selection = options.selection ? clampSelection(baseCode, options.selection) : undefined;
+    const isSelectionEdit = !!selection && selection.start < selection.end;
+
+    // 差分確認モードでは提案として保持し、ユーザーの確認後に反映する
+    const reviewChanges = state.applyMode === 'review';
+    // ストリーミング途中は、前置きの説明文の可能性がある間は反映しない
+    // 文書部分（フェンス・<document>）がなく、Markdownで始まらない応答は確定時（final）に応答全体を反映する
+    const applyReply = (content: string, final: boolean) => {
+      const { document, extracted } = extractMarkdownPayload(content);
+      if (!extracted && !final && isAwaitingDocumentStart(content)) {
+        return;
+      }
+      proposeCode(
+        isSelectionEdit ? spliceSelection(baseCode, selection!, document) : document,
+        { review: reviewChanges, group: `ai:${assistantId}`, messageId: assistantId, prompt, final }
+      );
+    };
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const assistantId = `assistant-${Date.now()}`;
+    let hasAssistantMessage = false;
+
     try {
       setError(null);
       setLoading(true);
 
       // Import AI service dynamically to avoid circular dependencies
-      const { getAIService, AIServiceError, resetAIService } = await import('../services/aiService');
-      const { AI_CONFIG } = await import('../types');
+      const { getAIService, resetAIService } = await import('../services/aiService');
+      const { AI_CONFIG, SUMMARY_SYSTEM_PROMPT } = await import('../types');
 
       // AI Serviceインスタンスをリセット（最新の設定を反映）
       resetAIService();
@@ -160,37 +756,91 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
       addMessage(userMessage);
 
       // Prepare AI request with context limit
+      // 要約済みより後の会話履歴を、トークン数の上限内で新しいものから送信する
       const aiService = getAIService();
-      const contextMessages = [...state.chatHistory, userMessage].slice(-AI_CONFIG.contextLimit * 2);
-      
+      const maxContextTokens = aiService.getContextTokens();
+      const unsummarized = getUnsummarizedMessages([...history, userMessage], state.conversationSummary);
+      let { messages: contextMessages, omitted } = selectContextMessages(unsummarized, maxContextTokens);
+      let historySummary = state.conversationSummary?.content.trim() || undefined;
+
+      // 上限を超えた古い会話はAIで要約し、会話履歴より前に固定して送信する
+      // 要約の頻度を抑えるため、要約する際は上限の一部だけを会話履歴として残す
+      if (omitted.length > 0 && aiService.shouldSummarizeHistory()) {
+        ({ messages: contextMessages, omitted } = selectContextMessages(
+          unsummarized,
+          Math.floor(maxContextTokens * AI_CONFIG.summaryRetainRatio)
+        ));
+        try {
+          const summary = await summarizeConversation(aiService, omitted, {
+            systemPrompt: SUMMARY_SYSTEM_PROMPT,
+            temperature: AI_CONFIG.temperature,
+            maxTokens: AI_CONFIG.historySummaryTokens,
+          }, abortController.signal);
+          dispatch({ type: 'SET_CONVERSATION_SUMMARY', payload: summary });
+          historySummary = summary.content;
+        } catch (error) {
+          if (abortController.signal.aborted) {
+            throw error;
+          }
+          // 要約に失敗した場合は、今回だけ依頼内容の抜粋で代用する
+          console.error('Failed to summarize conversation:', error);
+          historySummary = [historySummary, summarizeOmittedMessages(omitted, AI_CONFIG.historySummaryTokens)]
+            .filter(Boolean)
+            .join('\n') || undefined;
+        }
+      }
+
+      // 手動編集を反映するため、現在の文書をコンテキストとして送信する
+      // 応答で文書全体を置き換える場合、省略した部分は応答に含まれず失われるため、選択範囲の編集でのみ長い文書を省略する
       const aiRequest = {
         messages: contextMessages,
+        document: (includeDocument || isSelectionEdit) && baseCode.trim()
+          ? (isSelectionEdit ? truncateDocument(baseCode, AI_CONFIG.documentContextLimit) : baseCode)
+          : undefined,
+        selection: isSelectionEdit ? getSelectedText(baseCode, selection!) : undefined,
+        historySummary,
         temperature: AI_CONFIG.temperature,
         maxTokens: AI_CONFIG.maxTokens,
       };
 
-      // Send request to AI API
-      const response = await aiService.sendRequest(aiRequest);
-
-      // Create assistant message
-      const assistantMessage: ChatMessage = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: response.content,
-        timestamp: new Date(),
-      };
+      // Stream response from AI API
+      // 最初のチャンク受信時にアシスタントメッセージを追加し、以降は逐次更新する
+      const response = await aiService.streamRequest(aiRequest, (_delta, content) => {
+        if (!hasAssistantMessage) {
+          hasAssistantMessage = true;
+          addMessage({
+            id: assistantId,
+            role: 'assistant',
+            content,
+            timestamp: new Date(),
+            selection: isSelectionEdit ? selection : undefined,
+          });
+        } else {
+          updateMessage(assistantId, content);
+        }
 
-      // Add assistant message to history
-      addMessage(assistantMessage);
+        // Update code editor with the partial response
+        // 説明文やフェンスを除いた文書部分のみを反映する
+        applyReply(content, false);
+      }, abortController.signal);
 
-      // Update code editor with the response
-      updateCode(response.content);
+      // 最終的な応答内容で確定する
+      updateMessage(assistantId, response.content);
+      applyReply(response.content, true);
 
     } catch (error) {
-      console.error('AI request failed:', error);
-      
       // Dynamic import to avoid circular dependency
       const { AIServiceError } = await import('../services/aiService');
+
+      // ユーザーによるキャンセルはエラー扱いせず、途中までの応答をキャンセル済みとして残す
+      if (error instanceof AIServiceError && error.code === 'CANCELLED') {
+        if (hasAssistantMessage) {
+          dispatch({ type: 'MARK_MESSAGE_CANCELLED', payload: assistantId });
+        }
+        return;
+      }
+
+      console.error('AI request failed:', error);
       
       let errorMessage = '予期しないエラーが発生しました。再試行してください。';
       
@@ -202,28 +852,348 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
       
       setError(errorMessage);
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setLoading(false);
     }
   };
 
+  // 古い会話をAIで要約する（既存の要約を引き継いで更新する）
+  const summarizeConversation = async (
+    aiService: AIService,
+    messages: ChatMessage[],
+    options: { systemPrompt: string; temperature: number; maxTokens: number },
+    signal: AbortSignal
+  ): Promise<ConversationSummary> => {
+    const response = await aiService.sendRequest({
+      ...options,
+      messages: [{
+        id: `summary-${Date.now()}`,
+        role: 'user',
+        content: createSummaryPrompt(state.conversationSummary?.content, messages),
+        timestamp: new Date(),
+      }],
+    }, signal);
+
+    const content = response.content.trim();
+    if (!content) {
+      throw new Error('Empty summary');
+    }
+    return { content, summarizedUntil: messages[messages.length - 1].id, updatedAt: new Date() };
+  };
+
+  // 統合機能: 要約を編集する（空にした場合は要約を削除し、以降の要約は新しく作成する）
+  const updateConversationSummary = (content: string) => {
+    const summary = state.conversationSummary;
+    if (!summary) {
+      return;
+    }
+    dispatch({
+      type: 'SET_CONVERSATION_SUMMARY',
+      payload: content.trim() ? { ...summary, content: content.trim(), updatedAt: new Date() } : null,
+    });
+  };
+
+  // 統合機能: 生成中のAIリクエストを中断
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // 統合機能: アシスタントの応答をエディターに反映（raw: 応答全体 / 抽出した文書）
+  const applyMessageToEditor = (id: string, raw: boolean) => {
+    const message = state.chatHistory.find(candidate => candidate.id === id);
+    // 選択範囲の編集は文書全体を置き換えない
+    if (!message || message.role !== 'assistant' || message.selection) {
+      return;
+    }
+
+    dispatch({ type: 'SET_MESSAGE_APPLY_RAW', payload: { id, applyRaw: raw } });
+    proposeCode(
+      raw ? message.content : extractMarkdownPayload(message.content).document,
+      { review: state.applyMode === 'review', group: createEditGroup('apply'), messageId: id, prompt: findMessagePrompt(message), final: true }
+    );
+  };
+
+  // 統合機能: アシスタントの応答をエディターのカーソル位置に挿入（選択範囲は置き換え、カーソル位置が不明な場合は末尾に追加）
+  const insertMessageAtCursor = (id: string) => {
+    const message = state.chatHistory.find(candidate => candidate.id === id);
+    if (!message || message.role !== 'assistant') {
+      return;
+    }
+
+    const code = state.currentCode;
+    const { start, end } = editorSelection
+      ? clampSelection(code, editorSelection)
+      : { start: code.length, end: code.length };
+    const inserted = message.applyRaw ? message.content : extractMarkdownPayload(message.content).document;
+
+    proposeCode(
+      code.slice(0, start) + inserted + code.slice(end),
+      { review: state.applyMode === 'review', group: createEditGroup('apply'), messageId: id, prompt: findMessagePrompt(message), final: true }
+    );
+  };
+
+  // 応答の直前のユーザーメッセージ（バージョンのプロンプトとして記録する）
+  const findMessagePrompt = (message: ChatMessage) => {
+    const index = state.chatHistory.indexOf(message);
+    return state.chatHistory
+      .slice(0, index)
+      .reverse()
+      .find(candidate => candidate.role === 'user')?.content;
+  };
+
+  // 統合機能: メッセージを削除する
+  const deleteMessage = (id: string) => {
+    if (!state.isLoading) {
+      dispatch({ type: 'DELETE_MESSAGES', payload: [id] });
+    }
+  };
+
+  // 統合機能: 最新のアシスタントの応答を、直前のプロンプトで生成し直す
+  // 応答を反映した文書は反映前の状態を基準にする（生成し直した応答の反映は元に戻すで取り消せる）
+  const regenerateMessage = async (id: string, options: Pick<SendPromptOptions, 'includeDocument'> = {}) => {
+    const index = state.chatHistory.length - 1;
+    const message = state.chatHistory[index];
+    const promptMessage = state.chatHistory[index - 1];
+    if (state.isLoading || message?.id !== id || message.role !== 'assistant' || promptMessage?.role !== 'user') {
+      return;
+    }
+
+    const latestVersion = state.versions[state.versions.length - 1];
+    const { past } = state.codeHistory;
+    const baseCode = latestVersion?.messageId === id && latestVersion.content === state.currentCode && past.length > 0
+      ? past[past.length - 1]
+      : state.currentCode;
+
+    dispatch({ type: 'DELETE_MESSAGES', payload: [promptMessage.id, id] });
+    await runPrompt(
+      promptMessage.content,
+      { ...options, selection: message.selection },
+      state.chatHistory.slice(0, index - 1),
+      baseCode
+    );
+  };
+
+  // 統合機能: 反映方法の切り替え
+  const setApplyMode = (mode: ApplyMode) => {
+    dispatch({ type: 'SET_APPLY_MODE', payload: mode });
+  };
+
+  // 統合機能: 差分確認の結果を反映（null: すべて却下）
+  const resolveProposal = (code: string | null) => {
+    const proposal = state.pendingProposal;
+    if (code !== null) {
+      commitCode(code, createEditGroup('review'));
+      if (proposal?.messageId) {
+        addVersion(code, proposal.messageId, proposal.prompt);
+      }
+    }
+    dispatch({ type: 'SET_PROPOSAL', payload: null });
+  };
+
+  // 統合機能: バージョンを復元（元に戻すで取り消せる）
+  const restoreVersion = (id: string) => {
+    const version = state.versions.find(candidate => candidate.id === id);
+    if (!version || state.isLoading) {
+      return;
+    }
+    commitCode(version.content, createEditGroup('restore'));
+  };
+
+  // 統合機能: ファイルから読み込んだ文書で置き換える（元に戻すで取り消せる）
+  const openDocument = (code: string) => {
+    if (state.isLoading || isRestoring) {
+      return;
+    }
+    commitCode(code, createEditGroup('open'));
+    dispatch({ type: 'SET_PROPOSAL', payload: null });
+    dispatch({ type: 'MARK_SAVED', payload: code });
+  };
+
+  // 現在の文書を保存済みとして記録する
+  const markSaved = () => {
+    dispatch({ type: 'MARK_SAVED', payload: state.currentCode });
+  };
+
+  // 復元できなかった保存データを破棄する
+  const discardCorruptedData = async () => {
+    try {
+      await clearCorruptedState();
+    } catch (error) {
+      console.error('Failed to discard corrupted app state:', error);
+    }
+    setCorruptedData(undefined);
+  };
+
   // 統合機能: 全データクリア
   const clearAllData = () => {
+    if (isRestoring) {
+      return;
+    }
+    cancelGeneration();
     clearHistory();
-    updateCode('');
+    commitCode('', createEditGroup('clear'));
+    dispatch({ type: 'SET_PROPOSAL', payload: null });
+    dispatch({ type: 'CLEAR_VERSIONS' });
+    dispatch({ type: 'MARK_SAVED', payload: '' });
     setError(null);
     setLoading(false);
   };
 
+  // 現在のワークスペースの内容
+  const takeSnapshot = (): WorkspaceSnapshot => ({
+    chatHistory: state.chatHistory,
+    conversationSummary: state.conversationSummary,
+    currentCode: state.currentCode,
+    savedCode: state.savedCode,
+    versions: state.versions,
+    codeHistory: state.codeHistory,
+  });
+
+  // 切り替え前のワークスペースを退避し、保留中の自動保存を待たずに書き込む
+  const stashActiveWorkspace = () => {
+    const snapshot = takeSnapshot();
+    workspaceSnapshotsRef.current.set(state.activeWorkspaceId, snapshot);
+    if (canPersist) {
+      pendingSaveRef.current = null;
+      saveWorkspaceDocument(state.activeWorkspaceId, {
+        chatHistory: snapshot.chatHistory,
+        conversationSummary: snapshot.conversationSummary,
+        currentCode: snapshot.currentCode,
+        savedCode: snapshot.savedCode,
+      }).catch((error) => {
+        console.error('Failed to save app state:', error);
+        setPersistenceStatus('error');
+      });
+    }
+  };
+
+  // 既存の名前と重ならない名前（「名前 2」「名前 3」…）
+  const createUniqueName = (base: string) => {
+    const names = new Set(state.workspaces.map(workspace => workspace.name));
+    let name = base;
+    for (let index = 2; names.has(name); index++) {
+      name = `${base} ${index}`;
+    }
+    return name;
+  };
+
+  const createWorkspaceSummary = (name: string): WorkspaceSummary => ({
+    id: `workspace-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: createUniqueName(name),
+  });
+
+  // ワークスペース: 新規作成して切り替える（生成中は切り替えない）
+  const createWorkspace = (name: string = DEFAULT_WORKSPACE.name) => {
+    if (state.isLoading || isRestoring) {
+      return;
+    }
+    stashActiveWorkspace();
+    dispatch({
+      type: 'ADD_WORKSPACE',
+      payload: { workspace: createWorkspaceSummary(name.trim() || DEFAULT_WORKSPACE.name), snapshot: EMPTY_SNAPSHOT },
+    });
+  };
+
+  // ワークスペース: 切り替える（切り替え前の内容は編集履歴とともに保持する）
+  const switchWorkspace = (id: string) => {
+    if (state.isLoading || isRestoring || id === state.activeWorkspaceId || !state.workspaces.some(workspace => workspace.id === id)) {
+      return;
+    }
+    stashActiveWorkspace();
+    const snapshot = workspaceSnapshotsRef.current.get(id) ?? EMPTY_SNAPSHOT;
+    workspaceSnapshotsRef.current.delete(id);
+    dispatch({ type: 'SWITCH_WORKSPACE', payload: { id, snapshot } });
+  };
+
+  // ワークスペース: 名前を変更する（空の名前は無視する）
+  const renameWorkspace = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && !isRestoring) {
+      dispatch({ type: 'RENAME_WORKSPACE', payload: { id, name: trimmed } });
+    }
+  };
+
+  // ワークスペース: 複製して切り替える（編集履歴は引き継がない）
+  const duplicateWorkspace = (id: string) => {
+    const source = state.workspaces.find(workspace => workspace.id === id);
+    if (!source || state.isLoading || isRestoring) {
+      return;
+    }
+    const snapshot = id === state.activeWorkspaceId
+      ? takeSnapshot()
+      : workspaceSnapshotsRef.current.get(id) ?? EMPTY_SNAPSHOT;
+    stashActiveWorkspace();
+    dispatch({
+      type: 'ADD_WORKSPACE',
+      payload: {
+        workspace: createWorkspaceSummary(`${source.name} のコピー`),
+        snapshot: { ...snapshot, codeHistory: EMPTY_SNAPSHOT.codeHistory },
+      },
+    });
+  };
+
+  // ワークスペース: 削除する（選択中の場合は隣のワークスペースに切り替える、最後の1件は削除しない）
+  const deleteWorkspace = (id: string) => {
+    const index = state.workspaces.findIndex(workspace => workspace.id === id);
+    if (index === -1 || state.workspaces.length <= 1 || state.isLoading || isRestoring) {
+      return;
+    }
+    if (id === state.activeWorkspaceId) {
+      const next = state.workspaces[index + 1] ?? state.workspaces[index - 1];
+      const snapshot = workspaceSnapshotsRef.current.get(next.id) ?? EMPTY_SNAPSHOT;
+      workspaceSnapshotsRef.current.delete(next.id);
+      pendingSaveRef.current = null;
+      dispatch({ type: 'SWITCH_WORKSPACE', payload: { id: next.id, snapshot } });
+    }
+    workspaceSnapshotsRef.current.delete(id);
+    dispatch({ type: 'REMOVE_WORKSPACE', payload: id });
+    if (canPersist) {
+      deleteWorkspaceDocument(id).catch((error) => {
+        console.error('Failed to delete workspace:', error);
+      });
+    }
+  };
+
   const contextValue: AppStateContextType = {
     state,
     addMessage,
+    updateMessage,
     clearHistory,
     updateCode,
+    undo,
+    redo,
+    canUndo: state.codeHistory.past.length > 0,
+    canRedo: state.codeHistory.future.length > 0,
     setLoading,
     setError,
     resetState,
     sendPromptAndUpdateCode,
+    cancelGeneration,
+    applyMessageToEditor,
+    insertMessageAtCursor,
+    deleteMessage,
+    regenerateMessage,
+    updateConversationSummary,
+    setApplyMode,
+    resolveProposal,
+    restoreVersion,
+    openDocument,
+    markSaved,
+    hasUnsavedChanges: state.currentCode.trim() !== '' && state.currentCode !== state.savedCode,
     clearAllData,
+    persistenceStatus,
+    isRestoring,
+    corruptedData,
+    discardCorruptedData,
+    createWorkspace,
+    switchWorkspace,
+    renameWorkspace,
+    duplicateWorkspace,
+    deleteWorkspace,
+    editorSelection,
+    setEditorSelection,
   };
 
   return (
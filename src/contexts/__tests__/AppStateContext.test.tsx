@@ -1,9 +1,43 @@
 import React from 'react';
-import { render, act, renderHook } from '@testing-library/react';
+import { render, act, renderHook, waitFor } from '@testing-library/react';
+import { renderToString } from 'react-dom/server';
 import { AppStateProvider, useAppState } from '../AppStateContext';
-import { ChatMessage } from '../../types';
+import { ChatMessage, HISTORY_CONFIG, PERSISTENCE_CONFIG } from '../../types';
+import {
+  isPersistenceAvailable,
+  loadPersistedState,
+  saveCorruptedState,
+  saveWorkspaceDocument,
+  saveWorkspaces
+} from '../../services/persistence';
 import * as fc from 'fast-check';
 
+const mockStreamRequest = jest.fn();
+const mockSendRequest = jest.fn();
+const mockGetContextTokens = jest.fn(() => 8000);
+
+jest.mock('../../services/aiService', () => ({
+  getAIService: jest.fn(() => ({
+    streamRequest: mockStreamRequest,
+    sendRequest: mockSendRequest,
+    getContextTokens: mockGetContextTokens,
+    shouldSummarizeHistory: () => true,
+  })),
+  resetAIService: jest.fn(),
+  AIServiceError: class extends Error {},
+}));
+
+// IndexedDBへの保存はPersistenceのテストでのみ有効にする
+jest.mock('../../services/persistence', () => ({
+  isPersistenceAvailable: jest.fn(() => false),
+  loadPersistedState: jest.fn(),
+  saveWorkspaces: jest.fn(() => Promise.resolve()),
+  saveWorkspaceDocument: jest.fn(() => Promise.resolve()),
+  deleteWorkspaceDocument: jest.fn(() => Promise.resolve()),
+  saveCorruptedState: jest.fn(() => Promise.resolve('corrupted:2025-01-02T00:00:00.000Z')),
+  clearCorruptedState: jest.fn(() => Promise.resolve()),
+}));
+
 // テスト用のラッパーコンポーネント
 const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <AppStateProvider>{children}</AppStateProvider>
@@ -28,10 +62,18 @@ describe('AppStateContext', () => {
       });
 
       expect(result.current.state).toEqual({
+        workspaces: [{ id: 'default', name: '無題のドキュメント' }],
+        activeWorkspaceId: 'default',
         chatHistory: [],
+        conversationSummary: null,
         currentCode: '',
         isLoading: false,
         error: null,
+        applyMode: 'direct',
+        pendingProposal: null,
+        codeHistory: { past: [], future: [], lastGroup: null, lastEditAt: 0 },
+        versions: [],
+        savedCode: '',
       });
     });
   });
@@ -58,6 +100,59 @@ describe('AppStateContext', () => {
       expect(result.current.state.error).toBeNull();
     });
 
+    it('should update message content by id', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.addMessage({
+          id: 'assistant-1',
+          role: 'assistant',
+          content: '# Par',
+          timestamp: new Date(),
+        });
+      });
+
+      act(() => {
+        result.current.updateMessage('assistant-1', '# Partial response');
+      });
+
+      expect(result.current.state.chatHistory).toHaveLength(1);
+      expect(result.current.state.chatHistory[0].content).toBe('# Partial response');
+    });
+
+    it('should toggle between extracted document and raw reply', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      const reply = 'Here it is:\n\n```markdown\n# Doc\n```';
+
+      act(() => {
+        result.current.addMessage({
+          id: 'assistant-1',
+          role: 'assistant',
+          content: reply,
+          timestamp: new Date(),
+        });
+      });
+
+      act(() => {
+        result.current.applyMessageToEditor('assistant-1', true);
+      });
+
+      expect(result.current.state.currentCode).toBe(reply);
+      expect(result.current.state.chatHistory[0].applyRaw).toBe(true);
+
+      act(() => {
+        result.current.applyMessageToEditor('assistant-1', false);
+      });
+
+      expect(result.current.state.currentCode).toBe('# Doc');
+      expect(result.current.state.chatHistory[0].applyRaw).toBe(false);
+    });
+
     it('should clear chat history', () => {
       const { result } = renderHook(() => useAppState(), {
         wrapper: TestWrapper,
@@ -172,14 +267,22 @@ describe('AppStateContext', () => {
 
       // 初期状態に戻っていることを確認
       expect(result.current.state).toEqual({
+        workspaces: [{ id: 'default', name: '無題のドキュメント' }],
+        activeWorkspaceId: 'default',
         chatHistory: [],
+        conversationSummary: null,
         currentCode: '',
         isLoading: false,
         error: null,
+        applyMode: 'direct',
+        pendingProposal: null,
+        codeHistory: { past: [], future: [], lastGroup: null, lastEditAt: 0 },
+        versions: [],
+        savedCode: '',
       });
     });
 
-    it('should limit chat history to 6 messages (3 turns)', () => {
+    it('should keep the full chat history', () => {
       const { result } = renderHook(() => useAppState(), {
         wrapper: TestWrapper,
       });
@@ -198,10 +301,905 @@ describe('AppStateContext', () => {
         });
       }
 
-      // 最新の6つのメッセージのみが保持されていることを確認
+      // 古いメッセージも削除されずに保持されていることを確認
+      expect(result.current.state.chatHistory).toHaveLength(8);
+      expect(result.current.state.chatHistory[0].id).toBe('test-0');
+      expect(result.current.state.chatHistory[7].id).toBe('test-7');
+    });
+  });
+
+  describe('sendPromptAndUpdateCode', () => {
+    beforeEach(() => {
+      mockStreamRequest.mockReset();
+    });
+
+    it('should send the current document and replace it with the extracted reply', async () => {
+      mockStreamRequest.mockResolvedValue({ content: 'Done:\n```markdown\n# New\n```' });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Old');
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Rewrite it');
+      });
+
+      expect(mockStreamRequest.mock.calls[0][0].document).toBe('# Old');
+      expect(result.current.state.currentCode).toBe('# New');
+    });
+
+    it('should send a long document in full when the reply replaces it', async () => {
+      mockStreamRequest.mockImplementation(async request => ({ content: `${request.document}\n\n## Added` }));
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      const document = ['# Long', 'A'.repeat(10000), '## Middle section', 'B'.repeat(10000)].join('\n\n');
+
+      act(() => {
+        result.current.updateCode(document);
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Add a section');
+      });
+
+      expect(mockStreamRequest.mock.calls[0][0].document).toBe(document);
+      expect(result.current.state.currentCode).toBe(`${document}\n\n## Added`);
+      expect(result.current.state.currentCode).toContain('## Middle section');
+    });
+
+    it('should only replace the selected range for selection edits', async () => {
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        onDelta('Short', 'Short');
+        return { content: 'Short' };
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      const document = '# Title\n\nA long paragraph.\n\n## Next';
+      const start = document.indexOf('A long');
+      const end = start + 'A long paragraph.'.length;
+
+      act(() => {
+        result.current.updateCode(document);
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Summarize', { selection: { start, end } });
+      });
+
+      expect(mockStreamRequest.mock.calls[0][0].selection).toBe('A long paragraph.');
+      expect(result.current.state.currentCode).toBe('# Title\n\nShort\n\n## Next');
+      expect(result.current.state.chatHistory[1].selection).toEqual({ start, end });
+    });
+
+    it('should not write the preamble into the editor before the document arrives', async () => {
+      let emit: (content: string) => void = () => {};
+      let finish: () => void = () => {};
+      mockStreamRequest.mockImplementation((_request, onDelta) => {
+        emit = content => onDelta('', content);
+        return new Promise(resolve => {
+          finish = () => resolve({ content: 'Sure, here it is:\n```markdown\n# New\n```' });
+        });
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Old');
+      });
+      let sending: Promise<void> = Promise.resolve();
+      act(() => {
+        sending = result.current.sendPromptAndUpdateCode('Rewrite it');
+      });
+      await waitFor(() => expect(mockStreamRequest).toHaveBeenCalled());
+
+      act(() => {
+        emit('Sure, here it is:');
+      });
+      expect(result.current.state.chatHistory[1].content).toBe('Sure, here it is:');
+      expect(result.current.state.currentCode).toBe('# Old');
+
+      act(() => {
+        emit('Sure, here it is:\n```markdown\n# New');
+      });
+      expect(result.current.state.currentCode).toBe('# New');
+
+      await act(async () => {
+        finish();
+        await sending;
+      });
+      expect(result.current.state.currentCode).toBe('# New');
+    });
+
+    it('should stream a plain Markdown reply into the editor', async () => {
+      let emit: (content: string) => void = () => {};
+      let finish: () => void = () => {};
+      mockStreamRequest.mockImplementation((_request, onDelta) => {
+        emit = content => onDelta('', content);
+        return new Promise(resolve => {
+          finish = () => resolve({ content: '# New\n\nBody text' });
+        });
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Old');
+      });
+      let sending: Promise<void> = Promise.resolve();
+      act(() => {
+        sending = result.current.sendPromptAndUpdateCode('Rewrite it');
+      });
+      await waitFor(() => expect(mockStreamRequest).toHaveBeenCalled());
+
+      act(() => {
+        emit('# Ne');
+      });
+      expect(result.current.state.currentCode).toBe('# Old');
+
+      act(() => {
+        emit('# New\n\nBody');
+      });
+      expect(result.current.state.currentCode).toBe('# New\n\nBody');
+
+      await act(async () => {
+        finish();
+        await sending;
+      });
+      expect(result.current.state.currentCode).toBe('# New\n\nBody text');
+    });
+
+    it('should apply a reply without a document section once it is complete', async () => {
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        onDelta('# Plain', '# Plain');
+        return { content: '# Plain reply' };
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Write it');
+      });
+
+      expect(result.current.state.currentCode).toBe('# Plain reply');
+    });
+  });
+
+  describe('Message actions', () => {
+    beforeEach(() => {
+      mockStreamRequest.mockReset();
+    });
+
+    it('should delete a message', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        ['0', '1', '2'].forEach((id, i) => {
+          result.current.addMessage({ id, role: i % 2 === 0 ? 'user' : 'assistant', content: `Message ${id}`, timestamp: new Date() });
+        });
+      });
+      act(() => {
+        result.current.deleteMessage('1');
+      });
+      expect(result.current.state.chatHistory.map(message => message.id)).toEqual(['0', '2']);
+    });
+
+    it('should insert a reply at the cursor as its own edit and version', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.clearAllData();
+      });
+      act(() => {
+        result.current.addMessage({ id: 'user-1', role: 'user', content: 'Add a list', timestamp: new Date() });
+        result.current.addMessage({ id: 'assistant-1', role: 'assistant', content: 'Sure:\n```markdown\n- item\n```', timestamp: new Date() });
+      });
+      act(() => {
+        result.current.updateCode('# Title\n\nBody');
+        result.current.setEditorSelection({ start: 9, end: 13 });
+      });
+      act(() => {
+        now.mockReturnValue(1200);
+        result.current.insertMessageAtCursor('assistant-1');
+      });
+
+      expect(result.current.state.currentCode).toBe('# Title\n\n- item');
+      expect(result.current.state.codeHistory.past).toEqual(['', '# Title\n\nBody']);
+      expect(result.current.state.versions.map(version => version.prompt)).toEqual(['Add a list']);
+
+      act(() => {
+        result.current.setApplyMode('review');
+        result.current.setEditorSelection(null);
+      });
+      act(() => {
+        result.current.insertMessageAtCursor('assistant-1');
+      });
+      expect(result.current.state.currentCode).toBe('# Title\n\n- item');
+      expect(result.current.state.pendingProposal?.proposed).toBe('# Title\n\n- item- item');
+      now.mockRestore();
+    });
+
+    it('should regenerate the latest reply from the document before it was applied', async () => {
+      const replies = ['# First', '# Second'];
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        const content = replies.shift()!;
+        onDelta(content, content);
+        return { content };
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Draft');
+      });
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Rewrite');
+      });
+      expect(result.current.state.currentCode).toBe('# First');
+
+      const replyId = result.current.state.chatHistory[1].id;
+      await act(async () => {
+        await result.current.regenerateMessage(replyId);
+      });
+
+      const [, request] = mockStreamRequest.mock.calls.map(call => call[0]);
+      expect(request.document).toBe('# Draft');
+      expect(request.messages.map((message: ChatMessage) => message.content)).toEqual(['Rewrite']);
+      expect(result.current.state.chatHistory.map(message => message.content)).toEqual(['Rewrite', '# Second']);
+      expect(result.current.state.currentCode).toBe('# Second');
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state.currentCode).toBe('# First');
+    });
+
+    it('should only regenerate the latest reply', async () => {
+      mockStreamRequest.mockResolvedValue({ content: '# Reply' });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.addMessage({ id: 'user-1', role: 'user', content: 'Write', timestamp: new Date() });
+        result.current.addMessage({ id: 'assistant-1', role: 'assistant', content: '# Old', timestamp: new Date() });
+        result.current.addMessage({ id: 'user-2', role: 'user', content: 'More', timestamp: new Date() });
+      });
+
+      await act(async () => {
+        await result.current.regenerateMessage('assistant-1');
+      });
+
+      expect(mockStreamRequest).not.toHaveBeenCalled();
+      expect(result.current.state.chatHistory).toHaveLength(3);
+    });
+  });
+
+  describe('Diff review', () => {
+    beforeEach(() => {
+      mockStreamRequest.mockReset();
+    });
+
+    it('should hold AI output as a proposal in review mode', async () => {
+      mockStreamRequest.mockResolvedValue({ content: '# Proposed' });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Manual edit');
+        result.current.setApplyMode('review');
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Improve it');
+      });
+
+      expect(result.current.state.currentCode).toBe('# Manual edit');
+      expect(result.current.state.pendingProposal?.proposed).toBe('# Proposed');
+    });
+
+    it('should apply or discard the proposal when resolved', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Original');
+        result.current.setApplyMode('review');
+        result.current.addMessage({
+          id: 'assistant-1',
+          role: 'assistant',
+          content: '# Proposed',
+          timestamp: new Date(),
+        });
+      });
+
+      act(() => {
+        result.current.applyMessageToEditor('assistant-1', true);
+      });
+      expect(result.current.state.pendingProposal).toEqual({ proposed: '# Proposed', messageId: 'assistant-1' });
+
+      act(() => {
+        result.current.resolveProposal(null);
+      });
+      expect(result.current.state.currentCode).toBe('# Original');
+      expect(result.current.state.pendingProposal).toBeNull();
+
+      act(() => {
+        result.current.applyMessageToEditor('assistant-1', true);
+      });
+      act(() => {
+        result.current.resolveProposal('# Merged');
+      });
+      expect(result.current.state.currentCode).toBe('# Merged');
+      expect(result.current.state.pendingProposal).toBeNull();
+    });
+  });
+
+  describe('Undo/redo', () => {
+    it('should undo and redo document edits', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.clearAllData();
+      });
+      act(() => {
+        result.current.addMessage({ id: 'a-1', role: 'assistant', content: '# First', timestamp: new Date() });
+      });
+      act(() => {
+        result.current.applyMessageToEditor('a-1', true);
+      });
+
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.canRedo).toBe(false);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state.currentCode).toBe('');
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.state.currentCode).toBe('# First');
+    });
+
+    it('should coalesce rapid manual edits into one entry', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('a');
+      });
+      act(() => {
+        now.mockReturnValue(1200);
+        result.current.updateCode('ab');
+      });
+      act(() => {
+        now.mockReturnValue(1400);
+        result.current.updateCode('abc');
+      });
+
+      expect(result.current.state.codeHistory.past).toEqual(['']);
+
+      act(() => {
+        now.mockReturnValue(5000);
+        result.current.updateCode('abc d');
+      });
+
+      expect(result.current.state.codeHistory.past).toEqual(['', 'abc']);
+      now.mockRestore();
+    });
+
+    it('should record a streamed AI reply as a single entry', async () => {
+      mockStreamRequest.mockReset();
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        onDelta('# A', '# A');
+        onDelta('\nB', '# A\nB');
+        return { content: '# A\nB\nC' };
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Draft');
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Write');
+      });
+
+      expect(result.current.state.currentCode).toBe('# A\nB\nC');
+      expect(result.current.state.codeHistory.past).toEqual(['', '# Draft']);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state.currentCode).toBe('# Draft');
+    });
+
+    it('should bound the number of entries', () => {
+      const now = jest.spyOn(Date, 'now');
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      // 手動編集をまとめられない間隔で繰り返す
+      for (let i = 1; i <= HISTORY_CONFIG.maxEntries + 20; i++) {
+        now.mockReturnValue(i * HISTORY_CONFIG.coalesceMs * 2);
+        act(() => {
+          result.current.updateCode(`# ${i}`);
+        });
+      }
+
+      expect(result.current.state.codeHistory.past).toHaveLength(HISTORY_CONFIG.maxEntries);
+      expect(result.current.state.codeHistory.past[0]).toBe('# 20');
+      now.mockRestore();
+    });
+  });
+
+  describe('Document versions', () => {
+    beforeEach(() => {
+      mockStreamRequest.mockReset();
+    });
+
+    it('should record a version for each AI reply and restore it', async () => {
+      const replies = ['# First', '# Second'];
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        const content = replies.shift()!;
+        onDelta(content, content);
+        return { content };
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Write');
+      });
+      await act(async () => {
+        await result.current.sendPromptAndUpdateCode('Rewrite');
+      });
+
+      const { versions, chatHistory } = result.current.state;
+      expect(versions.map(version => version.content)).toEqual(['# First', '# Second']);
+      expect(versions.map(version => version.prompt)).toEqual(['Write', 'Rewrite']);
+      expect(versions[1].messageId).toBe(chatHistory[chatHistory.length - 1].id);
+
+      act(() => {
+        result.current.restoreVersion(versions[0].id);
+      });
+      expect(result.current.state.currentCode).toBe('# First');
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state.currentCode).toBe('# Second');
+    });
+
+    it('should send only the newest messages within the token budget', async () => {
+      let reply = 0;
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        const content = `# Doc ${++reply}`;
+        onDelta(content, content);
+        return { content };
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      for (let i = 1; i <= 5; i++) {
+        await act(async () => {
+          await result.current.sendPromptAndUpdateCode(`Doc ${i}`);
+        });
+      }
+
+      expect(result.current.state.chatHistory).toHaveLength(10);
+      expect(result.current.state.versions).toHaveLength(5);
+
+      expect(mockStreamRequest.mock.calls[4][0].historySummary).toBeUndefined();
+    });
+
+    it('should summarize turns beyond the token budget and send the summary ahead of the recent window', async () => {
+      let reply = 0;
+      mockStreamRequest.mockImplementation(async (_request, onDelta) => {
+        const content = `# Doc ${++reply}`;
+        onDelta(content, content);
+        return { content };
+      });
+      mockSendRequest.mockReset();
+      mockSendRequest.mockResolvedValueOnce({ content: '- 見出しは日本語で書く' });
+      mockSendRequest.mockResolvedValueOnce({ content: '- 見出しは日本語で書く\n- 表を追加' });
+      mockGetContextTokens.mockReturnValue(20);
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      for (let i = 1; i <= 3; i++) {
+        await act(async () => {
+          await result.current.sendPromptAndUpdateCode(`Doc ${i}`);
+        });
+      }
+
+      // 3件目の送信で上限を超えたため、上限の半分まで古い会話を要約する
+      expect(mockSendRequest).toHaveBeenCalledTimes(1);
+      expect(mockSendRequest.mock.calls[0][0].systemPrompt).toContain('要約');
+      expect(mockSendRequest.mock.calls[0][0].messages[0].content).toContain('ユーザー: Doc 1');
+      const request = mockStreamRequest.mock.calls[2][0];
+      expect(request.messages.map((message: ChatMessage) => message.content)).toEqual(['Doc 3']);
+      expect(request.historySummary).toBe('- 見出しは日本語で書く');
+      expect(result.current.state.conversationSummary).toMatchObject({
+        content: '- 見出しは日本語で書く',
+        summarizedUntil: result.current.state.chatHistory[3].id,
+      });
       expect(result.current.state.chatHistory).toHaveLength(6);
-      expect(result.current.state.chatHistory[0].id).toBe('test-2');
-      expect(result.current.state.chatHistory[5].id).toBe('test-7');
+
+      // ユーザーが編集した要約を引き継いで更新する
+      act(() => {
+        result.current.updateConversationSummary('- 見出しは日本語で書く（敬体）');
+      });
+      for (let i = 4; i <= 5; i++) {
+        await act(async () => {
+          await result.current.sendPromptAndUpdateCode(`Doc ${i}`);
+        });
+      }
+      expect(mockSendRequest).toHaveBeenCalledTimes(2);
+      expect(mockSendRequest.mock.calls[1][0].messages[0].content).toContain('<summary>\n- 見出しは日本語で書く（敬体）\n</summary>');
+      expect(mockStreamRequest.mock.calls[4][0].historySummary).toBe('- 見出しは日本語で書く\n- 表を追加');
+
+      // 要約に含めた最後のメッセージを削除すると、その前のメッセージまでを要約済みとする
+      const { chatHistory, conversationSummary } = result.current.state;
+      const boundary = chatHistory.findIndex(message => message.id === conversationSummary!.summarizedUntil);
+      act(() => {
+        result.current.deleteMessage(chatHistory[boundary].id);
+      });
+      expect(result.current.state.conversationSummary!.summarizedUntil).toBe(chatHistory[boundary - 1].id);
+
+      act(() => {
+        result.current.updateConversationSummary('  ');
+      });
+      expect(result.current.state.conversationSummary).toBeNull();
+      mockGetContextTokens.mockReturnValue(8000);
+    });
+  });
+
+  describe('Opening files', () => {
+    it('should replace the document and track unsaved changes', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Draft');
+      });
+      expect(result.current.hasUnsavedChanges).toBe(true);
+
+      act(() => {
+        result.current.openDocument('# Opened');
+      });
+      expect(result.current.state.currentCode).toBe('# Opened');
+      expect(result.current.hasUnsavedChanges).toBe(false);
+
+      act(() => {
+        result.current.updateCode('# Opened\n\nEdited');
+      });
+      expect(result.current.hasUnsavedChanges).toBe(true);
+
+      act(() => {
+        result.current.markSaved();
+      });
+      expect(result.current.hasUnsavedChanges).toBe(false);
+
+      // 読み込みも元に戻すで取り消せる
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+      });
+      expect(result.current.state.currentCode).toBe('# Draft');
+    });
+  });
+
+  describe('Persistence', () => {
+    const storedMessage: ChatMessage = {
+      id: 'stored-1',
+      role: 'user',
+      content: 'Saved prompt',
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (isPersistenceAvailable as jest.Mock).mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      (isPersistenceAvailable as jest.Mock).mockReturnValue(false);
+      jest.useRealTimers();
+    });
+
+    it('should start with the same status as the server render', () => {
+      const Status = () => <output>{useAppState().persistenceStatus}</output>;
+
+      // サーバーでは復元の副作用が実行されない
+      expect(renderToString(<TestWrapper><Status /></TestWrapper>)).toContain('unavailable');
+      expect(loadPersistedState).not.toHaveBeenCalled();
+    });
+
+    it('should restore the stored chat history and document', async () => {
+      (loadPersistedState as jest.Mock).mockResolvedValue({
+        rawWorkspaces: {},
+        workspaces: { workspaces: [{ id: 'default', name: '無題のドキュメント' }], activeWorkspaceId: 'default' },
+        documents: { default: { raw: {}, state: { chatHistory: [storedMessage], currentCode: '# Saved' } } },
+        corrupted: undefined,
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      expect(result.current.persistenceStatus).toBe('restoring');
+      await waitFor(() => expect(result.current.persistenceStatus).toBe('ready'));
+
+      expect(result.current.state.currentCode).toBe('# Saved');
+      expect(result.current.state.chatHistory).toEqual([storedMessage]);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.corruptedData).toBeUndefined();
+    });
+
+    it('should not accept edits until the stored workspaces are restored', async () => {
+      let resolveLoad: (value: unknown) => void = () => {};
+      (loadPersistedState as jest.Mock).mockReturnValue(new Promise(resolve => {
+        resolveLoad = resolve;
+      }));
+      const workspaces = [{ id: 'default', name: '無題のドキュメント' }, { id: 'notes', name: 'メモ' }];
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      expect(result.current.isRestoring).toBe(true);
+      act(() => {
+        result.current.updateCode('# Typed early');
+        result.current.createWorkspace('早すぎる');
+      });
+      expect(result.current.state.currentCode).toBe('');
+
+      await act(async () => {
+        resolveLoad({
+          rawWorkspaces: {},
+          workspaces: { workspaces, activeWorkspaceId: 'default' },
+          documents: {
+            default: { raw: {}, state: { chatHistory: [], currentCode: '# Saved' } },
+            notes: { raw: {}, state: { chatHistory: [storedMessage], currentCode: '# Notes' } },
+          },
+          corrupted: undefined,
+        });
+      });
+      await waitFor(() => expect(result.current.persistenceStatus).toBe('ready'));
+
+      expect(result.current.isRestoring).toBe(false);
+      expect(result.current.state.workspaces).toEqual(workspaces);
+      expect(result.current.state.currentCode).toBe('# Saved');
+      expect(saveWorkspaces).not.toHaveBeenCalledWith(expect.objectContaining({ workspaces: [workspaces[0]] }));
+
+      act(() => {
+        result.current.switchWorkspace('notes');
+      });
+      expect(result.current.state.currentCode).toBe('# Notes');
+    });
+
+    it('should set aside stored data that fails validation', async () => {
+      const raw = { schemaVersion: 1, chatHistory: [{ id: 'x', timestamp: 'not a date' }], currentCode: '# Broken' };
+      (loadPersistedState as jest.Mock).mockResolvedValue({
+        rawWorkspaces: {},
+        workspaces: { workspaces: [{ id: 'default', name: '無題のドキュメント' }], activeWorkspaceId: 'default' },
+        documents: {
+          default: {
+            raw,
+            state: { chatHistory: [{ ...storedMessage, timestamp: new Date('not a date') }], currentCode: '# Broken' },
+          },
+        },
+        corrupted: { 'corrupted:2025-01-01T00:00:00.000Z': { old: true } },
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      await waitFor(() => expect(result.current.persistenceStatus).toBe('ready'));
+
+      expect(result.current.state.currentCode).toBe('');
+      expect(saveCorruptedState).toHaveBeenCalledWith({ default: raw });
+      expect(result.current.corruptedData).toEqual({
+        'corrupted:2025-01-01T00:00:00.000Z': { old: true },
+        'corrupted:2025-01-02T00:00:00.000Z': { default: raw },
+      });
+
+      await act(async () => {
+        await result.current.discardCorruptedData();
+      });
+      expect(result.current.corruptedData).toBeUndefined();
+    });
+
+    it('should set aside every stored document when the workspace list fails validation', async () => {
+      const rawWorkspaces = { schemaVersion: 1, workspaces: 'broken' };
+      const notes = { schemaVersion: 1, chatHistory: [], currentCode: '# Notes' };
+      (loadPersistedState as jest.Mock).mockResolvedValue({
+        rawWorkspaces,
+        workspaces: null,
+        documents: { notes: { raw: notes, state: { chatHistory: [], currentCode: '# Notes' } } },
+        corrupted: undefined,
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      await waitFor(() => expect(result.current.persistenceStatus).toBe('ready'));
+
+      const backup = { workspaces: rawWorkspaces, documents: { notes } };
+      expect(saveCorruptedState).toHaveBeenCalledWith(backup);
+      expect(result.current.corruptedData).toEqual({ 'corrupted:2025-01-02T00:00:00.000Z': backup });
+    });
+
+    it('should save changes after the debounce interval', async () => {
+      (loadPersistedState as jest.Mock).mockResolvedValue({
+        rawWorkspaces: undefined,
+        workspaces: null,
+        documents: {},
+        corrupted: undefined,
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+      await waitFor(() => expect(result.current.persistenceStatus).toBe('ready'));
+
+      jest.useFakeTimers();
+      act(() => {
+        result.current.updateCode('# D');
+      });
+      act(() => {
+        result.current.updateCode('# Doc');
+      });
+      act(() => {
+        jest.advanceTimersByTime(PERSISTENCE_CONFIG.saveDebounceMs);
+      });
+
+      expect(saveWorkspaceDocument).toHaveBeenLastCalledWith('default', { chatHistory: [], conversationSummary: null, currentCode: '# Doc', savedCode: '' });
+      expect(saveWorkspaceDocument).not.toHaveBeenCalledWith('default', { chatHistory: [], conversationSummary: null, currentCode: '# D', savedCode: '' });
+      expect(saveWorkspaces).toHaveBeenCalledWith({
+        workspaces: [{ id: 'default', name: '無題のドキュメント' }],
+        activeWorkspaceId: 'default',
+      });
+
+      act(() => {
+        result.current.markSaved();
+      });
+      act(() => {
+        jest.advanceTimersByTime(PERSISTENCE_CONFIG.saveDebounceMs);
+      });
+
+      expect(saveWorkspaceDocument).toHaveBeenLastCalledWith('default', { chatHistory: [], conversationSummary: null, currentCode: '# Doc', savedCode: '# Doc' });
+    });
+
+    it('should restore which document was last saved', async () => {
+      (loadPersistedState as jest.Mock).mockResolvedValue({
+        rawWorkspaces: {},
+        workspaces: { workspaces: [{ id: 'default', name: '無題のドキュメント' }], activeWorkspaceId: 'default' },
+        documents: { default: { raw: {}, state: { chatHistory: [], currentCode: '# Saved', savedCode: '# Saved' } } },
+        corrupted: undefined,
+      });
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+      await waitFor(() => expect(result.current.persistenceStatus).toBe('ready'));
+
+      expect(result.current.state.savedCode).toBe('# Saved');
+      expect(result.current.hasUnsavedChanges).toBe(false);
+    });
+  });
+
+  describe('Workspaces', () => {
+    it('should create workspaces and keep each document and conversation separately', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+      const message: ChatMessage = { id: 'user-1', role: 'user', content: 'Hello', timestamp: new Date() };
+
+      act(() => {
+        result.current.addMessage(message);
+        result.current.updateCode('# First');
+      });
+      act(() => {
+        result.current.createWorkspace('Second');
+      });
+
+      expect(result.current.state.workspaces.map(workspace => workspace.name)).toEqual(['無題のドキュメント', 'Second']);
+      expect(result.current.state.activeWorkspaceId).toBe(result.current.state.workspaces[1].id);
+      expect(result.current.state.currentCode).toBe('');
+      expect(result.current.state.chatHistory).toEqual([]);
+
+      act(() => {
+        result.current.updateCode('# Second');
+      });
+      act(() => {
+        result.current.switchWorkspace('default');
+      });
+
+      expect(result.current.state.currentCode).toBe('# First');
+      expect(result.current.state.chatHistory).toEqual([message]);
+      // 編集履歴も切り替え前の状態に戻る
+      expect(result.current.canUndo).toBe(true);
+
+      act(() => {
+        result.current.switchWorkspace(result.current.state.workspaces[1].id);
+      });
+      expect(result.current.state.currentCode).toBe('# Second');
+    });
+
+    it('should rename, duplicate and delete workspaces', () => {
+      const { result } = renderHook(() => useAppState(), {
+        wrapper: TestWrapper,
+      });
+
+      act(() => {
+        result.current.updateCode('# Draft');
+      });
+      act(() => {
+        result.current.renameWorkspace('default', '  Report  ');
+      });
+      act(() => {
+        result.current.renameWorkspace('default', '   ');
+      });
+      expect(result.current.state.workspaces[0].name).toBe('Report');
+
+      act(() => {
+        result.current.duplicateWorkspace('default');
+      });
+      act(() => {
+        result.current.duplicateWorkspace('default');
+      });
+      expect(result.current.state.workspaces.map(workspace => workspace.name))
+        .toEqual(['Report', 'Report のコピー', 'Report のコピー 2']);
+      expect(result.current.state.currentCode).toBe('# Draft');
+      expect(result.current.canUndo).toBe(false);
+
+      // 選択中のワークスペースを削除すると隣のワークスペースに切り替わる
+      const [, firstCopy, secondCopy] = result.current.state.workspaces;
+      act(() => {
+        result.current.deleteWorkspace(secondCopy.id);
+      });
+      expect(result.current.state.activeWorkspaceId).toBe(firstCopy.id);
+
+      act(() => {
+        result.current.deleteWorkspace(firstCopy.id);
+      });
+      expect(result.current.state.activeWorkspaceId).toBe('default');
+      expect(result.current.state.currentCode).toBe('# Draft');
+
+      // 最後の1件は削除しない
+      act(() => {
+        result.current.deleteWorkspace('default');
+      });
+      expect(result.current.state.workspaces).toEqual([{ id: 'default', name: 'Report' }]);
     });
   });
 
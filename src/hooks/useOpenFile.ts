@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+import { useErrorHandling } from '../contexts/ErrorHandlingContext';
+import { isOpenableFile, OPENABLE_FILE_EXTENSIONS, readTextFile } from '../utils/fileOperations';
+import { importFileAsMarkdown, IMPORTABLE_FILE_EXTENSIONS, isImportableFile } from '../utils/markdownImport';
+import { TextEncoding } from '../utils/textEncoding';
+
+/**
+ * 開くことができるファイルの拡張子（DOCX・HTMLはMarkdownに変換する）
+ */
+export const ACCEPTED_FILE_EXTENSIONS = [...OPENABLE_FILE_EXTENSIONS, ...IMPORTABLE_FILE_EXTENSIONS];
+
+const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16',
+  'utf-16be': 'UTF-16',
+  shift_jis: 'Shift_JIS',
+};
+
+/**
+ * ローカルファイルを読み込んでエディターの文書を置き換えるフック
+ * Markdown・テキストはそのまま、DOCX・HTMLはMarkdownに変換して読み込む
+ * 「開く」ボタンとエディターへのドラッグ＆ドロップで共通に使用する
+ */
+export function useOpenFile() {
+  const { state, openDocument, hasUnsavedChanges } = useAppState();
+  const { showFileSuccess, showFileError } = useErrorHandling();
+  const [isOpening, setIsOpening] = useState(false);
+
+  /**
+   * ファイルを読み込む（未保存の変更がある場合は置き換える前に確認する）
+   *
+   * @returns 文書を置き換えた場合はtrue
+   */
+  const openFile = useCallback(async (file: File): Promise<boolean> => {
+    if (isOpening || state.isLoading) return false;
+
+    setIsOpening(true);
+    try {
+      let text: string;
+      let detail: string;
+      if (isImportableFile(file.name)) {
+        text = await importFileAsMarkdown(file);
+        detail = 'Markdownに変換しました';
+      } else if (isOpenableFile(file.name)) {
+        const decoded = await readTextFile(file);
+        text = decoded.text;
+        detail = `読み込みました（${ENCODING_LABELS[decoded.encoding]}）`;
+      } else {
+        throw new Error(`対応していないファイル形式です（${ACCEPTED_FILE_EXTENSIONS.join('、')}）`);
+      }
+
+      if (hasUnsavedChanges && !window.confirm(
+        `保存されていない変更があります。「${file.name}」の内容で置き換えますか？`
+      )) {
+        return false;
+      }
+
+      openDocument(text);
+      showFileSuccess('開く', `「${file.name}」を${detail}`);
+      return true;
+    } catch (error) {
+      console.error('Open file error:', error);
+      showFileError('開く', error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました');
+      return false;
+    } finally {
+      setIsOpening(false);
+    }
+  }, [isOpening, state.isLoading, hasUnsavedChanges, openDocument, showFileSuccess, showFileError]);
+
+  return { openFile, isOpening };
+}
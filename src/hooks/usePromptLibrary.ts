@@ -0,0 +1,34 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PromptLibrary } from '../types';
+import { loadPromptLibrary, savePromptLibrary } from '../utils/promptTemplates';
+
+/**
+ * 保存されたライブラリを読み込むまでの内容（サーバーとクライアントの初回描画を一致させる）
+ */
+const EMPTY_PROMPT_LIBRARY: PromptLibrary = {
+  templates: [],
+  pinnedInstructions: '',
+};
+
+/**
+ * プロンプトのテンプレートと固定の指示を読み込み、変更をlocalStorageに保存するフック
+ * 固定の指示はAIサービスの作成時にlocalStorageから読み込まれるため、保存した時点で次のリクエストに反映される
+ */
+export function usePromptLibrary() {
+  const [library, setLibrary] = useState<PromptLibrary>(EMPTY_PROMPT_LIBRARY);
+
+  // localStorageはブラウザでのみ読めるため、マウント後に読み込む
+  useEffect(() => {
+    const restoreLibrary = () => setLibrary(loadPromptLibrary());
+    restoreLibrary();
+  }, []);
+
+  const updateLibrary = useCallback((next: PromptLibrary) => {
+    setLibrary(next);
+    savePromptLibrary(next);
+  }, []);
+
+  return { library, updateLibrary };
+}
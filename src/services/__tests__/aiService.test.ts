@@ -3,8 +3,11 @@
  * Basic functionality tests for AI API client
  */
 
-import { AIService, AIServiceError, createAIService } from '../aiService';
+import { AIService, AIServiceError, createAIService, fetchProviderModels } from '../aiService';
 import { AIApiRequest, ChatMessage, AI_CONFIG } from '../../types';
+import { encodeStreamEvent } from '../streaming';
+import { getDefaultContextTokens, getDefaultModel } from '../providers';
+import { TextDecoder, TextEncoder } from 'util';
 
 // Mock the external API clients
 jest.mock('openai');
@@ -36,6 +39,15 @@ describe('AIService', () => {
       expect(service.getProvider()).toBe('gemini');
     });
 
+    it('should use the provider default model when none is given', () => {
+      const service = new AIService({
+        provider: 'gemini',
+        apiKey: mockApiKey
+      });
+      
+      expect(service.getModel()).toBe('gemini-1.0-pro');
+    });
+
     it('should use default timeout from AI_CONFIG', () => {
       const service = new AIService({
         provider: 'openai',
@@ -102,6 +114,26 @@ describe('AIService', () => {
       
       expect(service.getProvider()).toBe('gemini');
     });
+
+    it('should use the context budget of the new provider and model after switching', () => {
+      const service = new AIService({
+        provider: 'openai',
+        apiKey: mockApiKey,
+        model: 'gpt-4o',
+        contextTokens: 32000
+      });
+      const geminiModel = getDefaultModel('gemini');
+
+      service.switchProvider('gemini', 'gemini-api-key');
+      expect(service.getContextTokens()).toBe(getDefaultContextTokens('gemini', geminiModel));
+
+      localStorage.setItem(`gemini_${geminiModel}_context_tokens`, '16000');
+      service.switchProvider('openai', mockApiKey, 'gpt-4o');
+      service.switchProvider('gemini', 'gemini-api-key');
+      expect(service.getContextTokens()).toBe(16000);
+
+      localStorage.removeItem(`gemini_${geminiModel}_context_tokens`);
+    });
   });
 
   describe('Request Validation', () => {
@@ -131,6 +163,226 @@ describe('AIService', () => {
     });
   });
 
+  describe('Streaming', () => {
+    const encoder = new TextEncoder();
+    const request: AIApiRequest = {
+      messages: [
+        {
+          id: '1',
+          role: 'user',
+          content: 'Write a README',
+          timestamp: new Date()
+        }
+      ],
+      temperature: AI_CONFIG.temperature,
+      maxTokens: AI_CONFIG.maxTokens
+    };
+
+    const createStreamResponse = (chunks: string[]) => {
+      const queue = chunks.map(chunk => encoder.encode(chunk));
+      return {
+        ok: true,
+        status: 200,
+        body: {
+          getReader: () => ({
+            read: jest.fn(async () => (
+              queue.length > 0
+                ? { done: false, value: queue.shift() }
+                : { done: true, value: undefined }
+            ))
+          })
+        }
+      };
+    };
+
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      Object.assign(global, { fetch: mockFetch, TextDecoder });
+      mockFetch.mockReset();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should assemble streamed deltas and report progress', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        encodeStreamEvent({ type: 'delta', content: '# Title' }),
+        encodeStreamEvent({ type: 'delta', content: '\n\nBody' }).slice(0, 12),
+        encodeStreamEvent({ type: 'delta', content: '\n\nBody' }).slice(12),
+        encodeStreamEvent({ type: 'done', usage: { promptTokens: 5, completionTokens: 7 } })
+      ]));
+
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey });
+      const onDelta = jest.fn();
+      const response = await service.streamRequest(request, onDelta);
+
+      expect(response).toEqual({
+        content: '# Title\n\nBody',
+        usage: { promptTokens: 5, completionTokens: 7 }
+      });
+      expect(onDelta).toHaveBeenNthCalledWith(1, '# Title', '# Title');
+      expect(onDelta).toHaveBeenNthCalledWith(2, '\n\nBody', '# Title\n\nBody');
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.stream).toBe(true);
+      expect(body.model).toBe(service.getModel());
+    });
+
+    it('should send the system prompt separately from messages', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        encodeStreamEvent({ type: 'delta', content: '# Title' }),
+        encodeStreamEvent({ type: 'done' })
+      ]));
+
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey, systemPrompt: 'Markdown only' });
+      await service.streamRequest(request, jest.fn());
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.systemPrompt).toBe('Markdown only');
+      expect(body.messages).toHaveLength(request.messages.length);
+    });
+
+    it('should send pinned instructions except with an overriding system prompt', async () => {
+      mockFetch.mockImplementation(async () => createStreamResponse([
+        encodeStreamEvent({ type: 'delta', content: '# Title' }),
+        encodeStreamEvent({ type: 'done' })
+      ]));
+
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey, pinnedInstructions: '敬体で書く' });
+      await service.streamRequest(request, jest.fn());
+      await service.streamRequest({ ...request, systemPrompt: 'Summarize' }, jest.fn());
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).pinnedInstructions).toBe('敬体で書く');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).pinnedInstructions).toBeUndefined();
+    });
+
+    it('should surface error events as AIServiceError', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([
+        encodeStreamEvent({ type: 'delta', content: 'partial' }),
+        encodeStreamEvent({ type: 'error', error: 'リクエスト制限に達しました。', status: 429 })
+      ]));
+
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey });
+
+      await expect(service.streamRequest(request, jest.fn())).rejects.toMatchObject({
+        code: 'RATE_LIMIT',
+        message: 'リクエスト制限に達しました。'
+      });
+    });
+
+    it('should time out when no chunk arrives within the idle timeout', async () => {
+      jest.useFakeTimers();
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey, timeout: 1000 });
+      const promise = service.streamRequest(request, jest.fn());
+      jest.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toMatchObject({ code: 'TIMEOUT_ERROR' });
+      jest.useRealTimers();
+    });
+  });
+
+  describe('Cancellation', () => {
+    const request: AIApiRequest = {
+      messages: [
+        {
+          id: '1',
+          role: 'user',
+          content: 'Write a README',
+          timestamp: new Date()
+        }
+      ],
+      temperature: AI_CONFIG.temperature,
+      maxTokens: AI_CONFIG.maxTokens
+    };
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      Object.assign(global, { fetch: mockFetch });
+      mockFetch.mockReset();
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+    });
+
+    it('should reject streamRequest with CANCELLED when aborted', async () => {
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey });
+      const controller = new AbortController();
+
+      const promise = service.streamRequest(request, jest.fn(), controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+
+    it('should reject sendRequest with CANCELLED when aborted', async () => {
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey });
+      const controller = new AbortController();
+
+      const promise = service.sendRequest(request, controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+
+    it('should clear the timeout timer once sendRequest settles', async () => {
+      jest.useFakeTimers();
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ content: 'done' })
+      });
+
+      const service = new AIService({ provider: 'openai', apiKey: mockApiKey });
+      await expect(service.sendRequest(request)).resolves.toEqual({ content: 'done' });
+
+      expect(jest.getTimerCount()).toBe(0);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('fetchProviderModels', () => {
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      Object.assign(global, { fetch: mockFetch });
+    });
+
+    it('should return models listed by the server', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ models: [{ id: 'llama3.1', label: 'llama3.1' }] }),
+      });
+
+      const models = await fetchProviderModels('local', { apiKey: '', baseUrl: 'http://localhost:11434/v1' });
+
+      expect(models).toEqual([{ id: 'llama3.1', label: 'llama3.1' }]);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        provider: 'local',
+        apiKey: '',
+        baseUrl: 'http://localhost:11434/v1',
+      });
+    });
+
+    it('should surface server error messages', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        json: async () => ({ error: 'ローカルサーバーに接続できません。' }),
+      });
+
+      await expect(fetchProviderModels('local', { apiKey: '', baseUrl: 'http://localhost:11434/v1' }))
+        .rejects.toThrow('ローカルサーバーに接続できません。');
+    });
+  });
+
   describe('createAIService function', () => {
     const originalEnv = process.env;
 
@@ -158,6 +410,91 @@ describe('AIService', () => {
       expect(service.getProvider()).toBe('gemini');
     });
 
+    it('should use the saved system prompt', () => {
+      process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'openai-key';
+      localStorage.setItem('ai_system_prompt', 'Markdown only');
+
+      const service = createAIService();
+      expect(service.getSystemPrompt()).toBe('Markdown only');
+
+      localStorage.removeItem('ai_system_prompt');
+    });
+
+    it('should use the pinned instructions saved with the prompt templates', () => {
+      process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'openai-key';
+      expect(createAIService().getPinnedInstructions()).toBeUndefined();
+
+      localStorage.setItem('prompt_library', JSON.stringify({ templates: [], pinnedInstructions: '敬体で書く' }));
+      expect(createAIService().getPinnedInstructions()).toBe('敬体で書く');
+
+      localStorage.removeItem('prompt_library');
+    });
+
+    it('should use the saved model for the selected provider', () => {
+      process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'openai-key';
+      localStorage.setItem('openai_model', 'gpt-4o-mini');
+
+      const service = createAIService();
+      expect(service.getModel()).toBe('gpt-4o-mini');
+
+      localStorage.removeItem('openai_model');
+    });
+
+    it('should ignore saved models outside the allow-list', () => {
+      process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'openai-key';
+      localStorage.setItem('openai_model', 'gpt-unknown');
+
+      const service = createAIService();
+      expect(service.getModel()).toBe('gpt-3.5-turbo');
+
+      localStorage.removeItem('openai_model');
+    });
+
+    it('should use the saved context budget within the model context window', () => {
+      process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'openai-key';
+      localStorage.setItem('openai_model', 'gpt-4o');
+
+      expect(createAIService().getContextTokens()).toBe(8000);
+      expect(createAIService().shouldSummarizeHistory()).toBe(true);
+
+      localStorage.setItem('openai_gpt-4o_context_tokens', '32000');
+      localStorage.setItem('ai_summarize_history', 'false');
+      expect(createAIService().getContextTokens()).toBe(32000);
+      expect(createAIService().shouldSummarizeHistory()).toBe(false);
+
+      // GPT-3.5 Turboはコンテキスト長が小さいため、応答と文書の分を除いた範囲に収める
+      localStorage.setItem('openai_gpt-3.5-turbo_context_tokens', '32000');
+      localStorage.setItem('openai_model', 'gpt-3.5-turbo');
+      expect(createAIService().getContextTokens()).toBe(2385);
+
+      localStorage.removeItem('openai_model');
+      localStorage.removeItem('openai_gpt-4o_context_tokens');
+      localStorage.removeItem('openai_gpt-3.5-turbo_context_tokens');
+      localStorage.removeItem('ai_summarize_history');
+    });
+
+    it('should keep a separate context budget for each model', () => {
+      process.env.NEXT_PUBLIC_OPENAI_API_KEY = 'openai-key';
+      localStorage.setItem('openai_gpt-4o_context_tokens', '32000');
+
+      localStorage.setItem('openai_model', 'gpt-4o');
+      expect(createAIService().getContextTokens()).toBe(32000);
+
+      // 別のモデルに切り替えると、そのモデルの設定（未設定の場合は既定値）を使う
+      localStorage.setItem('openai_model', 'gpt-4o-mini');
+      expect(createAIService().getContextTokens()).toBe(8000);
+
+      localStorage.setItem('openai_gpt-4o-mini_context_tokens', '16000');
+      expect(createAIService().getContextTokens()).toBe(16000);
+
+      localStorage.setItem('openai_model', 'gpt-4o');
+      expect(createAIService().getContextTokens()).toBe(32000);
+
+      localStorage.removeItem('openai_model');
+      localStorage.removeItem('openai_gpt-4o_context_tokens');
+      localStorage.removeItem('openai_gpt-4o-mini_context_tokens');
+    });
+
     it('should throw error when no API keys are available', () => {
       delete process.env.NEXT_PUBLIC_OPENAI_API_KEY;
       delete process.env.NEXT_PUBLIC_GEMINI_API_KEY;
@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Persistence service tests
+ * IndexedDBへの保存と復元のテスト
+ */
+
+import 'fake-indexeddb/auto';
+import {
+  clearCorruptedState,
+  clearPersistedState,
+  deleteWorkspaceDocument,
+  loadPersistedState,
+  reviveAppState,
+  reviveWorkspaces,
+  saveCorruptedState,
+  saveWorkspaceDocument,
+  saveWorkspaces
+} from '../persistence';
+import { ChatMessage, PERSISTENCE_CONFIG } from '../../types';
+
+describe('persistence', () => {
+  const message: ChatMessage = {
+    id: 'message-1',
+    role: 'assistant',
+    content: '# Reply',
+    timestamp: new Date('2025-01-01T09:30:00Z'),
+    applyRaw: true,
+  };
+  const workspaces = {
+    workspaces: [{ id: 'default', name: '無題のドキュメント' }, { id: 'notes', name: 'メモ' }],
+    activeWorkspaceId: 'notes',
+  };
+
+  // 保存データを直接書き込む（旧形式・壊れたデータの再現用）
+  const putRaw = async (key: string, value: unknown) => {
+    const database = await new Promise<IDBDatabase>((resolve) => {
+      const request = indexedDB.open(PERSISTENCE_CONFIG.databaseName, 1);
+      request.onsuccess = () => resolve(request.result);
+    });
+    await new Promise((resolve) => {
+      const transaction = database.transaction(PERSISTENCE_CONFIG.storeName, 'readwrite');
+      transaction.objectStore(PERSISTENCE_CONFIG.storeName).put(value, key);
+      transaction.oncomplete = resolve;
+    });
+  };
+
+  afterEach(async () => {
+    await clearPersistedState();
+  });
+
+  it('should return nothing when no state is stored', async () => {
+    await expect(loadPersistedState()).resolves.toEqual({
+      rawWorkspaces: undefined,
+      workspaces: null,
+      documents: {},
+      corrupted: undefined,
+    });
+  });
+
+  it('should save and restore each workspace with Date timestamps', async () => {
+    await saveWorkspaces(workspaces);
+    const conversationSummary = { content: '- 見出しは日本語', summarizedUntil: 'message-0', updatedAt: new Date('2025-01-01T09:00:00Z') };
+    await saveWorkspaceDocument('default', { chatHistory: [message], conversationSummary, currentCode: '# Doc', savedCode: '# Do' });
+
+    const loaded = await loadPersistedState();
+
+    expect(loaded.workspaces).toEqual(workspaces);
+    expect(loaded.documents.default.state).toEqual({ chatHistory: [message], conversationSummary, currentCode: '# Doc', savedCode: '# Do' });
+    expect(loaded.documents.default.state?.chatHistory[0].timestamp).toBeInstanceOf(Date);
+    expect((loaded.documents.default.raw as { chatHistory: { timestamp: unknown }[] }).chatHistory[0].timestamp)
+      .toBe('2025-01-01T09:30:00.000Z');
+    expect(loaded.documents.notes).toEqual({ raw: undefined, state: null });
+
+    await deleteWorkspaceDocument('default');
+    expect((await loadPersistedState()).documents.default).toEqual({ raw: undefined, state: null });
+  });
+
+  it('should migrate data saved before workspaces were introduced', async () => {
+    // ワークスペース導入前の保存形式を直接書き込む
+    await putRaw('current', { schemaVersion: 1, savedAt: '2025-01-01T09:30:00.000Z', chatHistory: [], currentCode: '# Old' });
+
+    const loaded = await loadPersistedState();
+    expect(loaded.workspaces).toEqual({ workspaces: [{ id: 'default', name: '無題のドキュメント' }], activeWorkspaceId: 'default' });
+    expect(loaded.documents.default.state).toEqual({ chatHistory: [], conversationSummary: null, currentCode: '# Old', savedCode: '' });
+
+    // 新しい形式で保存すると旧形式のデータは削除される
+    await saveWorkspaces(loaded.workspaces!);
+    expect((await loadPersistedState()).documents.default).toEqual({ raw: undefined, state: null });
+  });
+
+  it('should not revive data in an unknown format', () => {
+    expect(reviveAppState(null)).toBeNull();
+    expect(reviveAppState({ schemaVersion: 99, chatHistory: [], currentCode: '' })).toBeNull();
+    expect(reviveAppState({ schemaVersion: 1, chatHistory: 'x', currentCode: '' })).toBeNull();
+    expect(reviveWorkspaces({ schemaVersion: 1, workspaces: [], activeWorkspaceId: 'default' })).toBeNull();
+    expect(reviveWorkspaces({ schemaVersion: 1, ...workspaces, activeWorkspaceId: 'missing' })).toBeNull();
+  });
+
+  it('should keep each set-aside copy separately until they are cleared', async () => {
+    const broken = { schemaVersion: 1, chatHistory: [{ id: 1 }], currentCode: 42 };
+    const older = { schemaVersion: 1, chatHistory: 'x', currentCode: '' };
+    jest.spyOn(Date.prototype, 'toISOString')
+      .mockReturnValueOnce('2025-01-01T09:00:00.000Z')
+      .mockReturnValueOnce('2025-01-01T10:00:00.000Z');
+    await putRaw('corrupted', older);
+    const firstKey = await saveCorruptedState(broken);
+    const secondKey = await saveCorruptedState({ ...broken, currentCode: 43 });
+    jest.restoreAllMocks();
+    await saveWorkspaceDocument('default', { chatHistory: [], conversationSummary: null, currentCode: '', savedCode: '' });
+
+    expect(firstKey).not.toBe(secondKey);
+    expect((await loadPersistedState()).corrupted).toEqual({
+      corrupted: older,
+      [firstKey]: broken,
+      [secondKey]: { ...broken, currentCode: 43 },
+    });
+
+    await clearCorruptedState();
+    expect((await loadPersistedState()).corrupted).toBeUndefined();
+  });
+
+  it('should load every stored document when the workspace list cannot be revived', async () => {
+    const rawWorkspaces = { schemaVersion: 1, workspaces: 'broken', activeWorkspaceId: 'notes' };
+    await saveWorkspaceDocument('default', { chatHistory: [], conversationSummary: null, currentCode: '# Doc', savedCode: '' });
+    await saveWorkspaceDocument('notes', { chatHistory: [message], conversationSummary: null, currentCode: '# Notes', savedCode: '' });
+    await putRaw('workspaces', rawWorkspaces);
+
+    const loaded = await loadPersistedState();
+
+    expect(loaded.rawWorkspaces).toEqual(rawWorkspaces);
+    expect(loaded.workspaces).toBeNull();
+    expect(Object.keys(loaded.documents)).toEqual(['default', 'notes']);
+    expect(loaded.documents.notes.state?.currentCode).toBe('# Notes');
+    expect((loaded.documents.default.raw as { currentCode: string }).currentCode).toBe('# Doc');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Streaming Utilities Tests
+ * SSEエンコード・パース処理のテスト
+ */
+
+import { StreamEventParser, encodeStreamEvent } from '../streaming';
+import { AIStreamEvent } from '../../types';
+
+describe('streaming', () => {
+  describe('encodeStreamEvent', () => {
+    it('should encode event as SSE data block', () => {
+      const encoded = encodeStreamEvent({ type: 'delta', content: '# Title' });
+
+      expect(encoded).toBe('data: {"type":"delta","content":"# Title"}\n\n');
+    });
+  });
+
+  describe('StreamEventParser', () => {
+    it('should parse complete events', () => {
+      const parser = new StreamEventParser();
+      const events = parser.push(
+        encodeStreamEvent({ type: 'delta', content: 'Hello' }) +
+        encodeStreamEvent({ type: 'done' })
+      );
+
+      expect(events).toEqual([
+        { type: 'delta', content: 'Hello' },
+        { type: 'done' },
+      ]);
+    });
+
+    it('should restore events split across chunks', () => {
+      const parser = new StreamEventParser();
+      const encoded = encodeStreamEvent({ type: 'delta', content: '改行\nを含む' });
+
+      expect(parser.push(encoded.slice(0, 10))).toEqual([]);
+      expect(parser.push(encoded.slice(10))).toEqual([
+        { type: 'delta', content: '改行\nを含む' },
+      ]);
+    });
+
+    it('should handle CRLF line endings split across chunks', () => {
+      const parser = new StreamEventParser();
+
+      expect(parser.push('data: {"type":"delta","content":"A"}\r\n\r')).toEqual([]);
+      expect(parser.push('\ndata: {"type":"done"}\r')).toEqual([{ type: 'delta', content: 'A' }]);
+      expect(parser.push('\n\r\n')).toEqual([{ type: 'done' }]);
+      expect(parser.flush()).toEqual([]);
+    });
+
+    it('should ignore malformed and non-data lines', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const parser = new StreamEventParser();
+
+      const events = parser.push(': keep-alive\n\ndata: {broken\n\ndata: {"type":"done"}\n\n');
+
+      expect(events).toEqual([{ type: 'done' }]);
+      consoleSpy.mockRestore();
+    });
+
+    it('should return trailing event on flush', () => {
+      const parser = new StreamEventParser();
+
+      expect(parser.push('data: {"type":"error","error":"failed","status":500}')).toEqual([]);
+      expect(parser.flush()).toEqual([{ type: 'error', error: 'failed', status: 500 }]);
+      expect(parser.flush()).toEqual([]);
+    });
+
+    it('should reassemble delta content regardless of chunk boundaries', () => {
+      const deltas = ['# Title\n', '\nSome ', 'text with **bold**', '\n- item'];
+      const encoded = deltas
+        .map(content => encodeStreamEvent({ type: 'delta', content }))
+        .join('');
+
+      for (const size of [1, 3, 7, 64]) {
+        const parser = new StreamEventParser();
+        const events: AIStreamEvent[] = [];
+        for (let i = 0; i < encoded.length; i += size) {
+          events.push(...parser.push(encoded.slice(i, i + size)));
+        }
+
+        const content = events
+          .map(event => (event.type === 'delta' ? event.content : ''))
+          .join('');
+        expect(content).toBe(deltas.join(''));
+      }
+    });
+  });
+});
@@ -1,17 +1,30 @@
 /**
  * AI API Service
- * Handles communication with OpenAI API and Gemini API
+ * Handles communication with registered AI providers via the Next.js API route
  * Requirements: 1.1, 5.1, 5.2, 5.3
  */
 
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIApiRequest, AIApiResponse, ChatMessage, AI_CONFIG } from '../types';
+import { AIApiRequest, AIApiResponse, AIStreamEvent, AI_CONFIG } from '../types';
+import { StreamEventParser } from './streaming';
+import { loadPromptLibrary } from '../utils/promptTemplates';
+import {
+  AIModelOption,
+  ProviderCredentials,
+  getContextTokensStorageKey,
+  getDefaultContextTokens,
+  getDefaultModel,
+  getMaxContextTokens,
+  getProvider,
+  getProviders,
+  isAllowedModel,
+  validateCredentials
+} from './providers';
 
 /**
  * AI API Provider types
+ * プロバイダーレジストリに登録されたプロバイダーのID
  */
-export type AIProvider = 'openai' | 'gemini';
+export type AIProvider = string;
 
 /**
  * AI Service configuration
@@ -19,9 +32,21 @@ export type AIProvider = 'openai' | 'gemini';
 export interface AIServiceConfig {
   provider: AIProvider;
   apiKey: string;
+  baseUrl?: string; // OpenAI互換エンドポイント等の接続先
+  model?: string;
+  systemPrompt?: string; // 未指定の場合はAPIルートでデフォルトを使用
+  pinnedInstructions?: string; // すべてのリクエストの先頭に付与する指示（システムプロンプトを指定したリクエストを除く）
+  contextTokens?: number; // 会話履歴に使うトークン数の上限（未指定の場合はモデルの既定値）
+  summarizeHistory?: boolean; // 上限を超えた古い会話をAIで要約して送信する（デフォルト: true）
   timeout?: number;
 }
 
+/**
+ * ストリーミング受信時のコールバック
+ * delta: 今回受信した差分, content: これまでに受信した全文
+ */
+export type AIStreamHandler = (delta: string, content: string) => void;
+
 /**
  * Custom error types for AI API
  */
@@ -40,237 +65,274 @@ export class AIServiceError extends Error {
  * AI API Service class
  */
 export class AIService {
-  private openaiClient?: OpenAI;
-  private geminiClient?: GoogleGenerativeAI;
   private config: AIServiceConfig;
 
   constructor(config: AIServiceConfig) {
+    this.assertProvider(config.provider);
+    const model = config.model || getDefaultModel(config.provider);
     this.config = {
       ...config,
+      model,
+      contextTokens: config.contextTokens || getDefaultContextTokens(config.provider, model),
+      summarizeHistory: config.summarizeHistory ?? true,
       timeout: config.timeout || AI_CONFIG.timeout
     };
-
-    this.initializeClients();
   }
 
   /**
-   * Initialize API clients based on provider
+   * Ensure the provider is registered
    */
-  private initializeClients(): void {
-    try {
-      if (this.config.provider === 'openai') {
-        this.openaiClient = new OpenAI({
-          apiKey: this.config.apiKey,
-          dangerouslyAllowBrowser: true // For client-side usage
-        });
-      } else if (this.config.provider === 'gemini') {
-        this.geminiClient = new GoogleGenerativeAI(this.config.apiKey);
-      }
-    } catch (error) {
+  private assertProvider(provider: AIProvider): void {
+    if (!getProvider(provider)) {
       throw new AIServiceError(
-        'API認証に失敗しました。設定を確認してください。',
-        'AUTH_ERROR',
-        error as Error
+        `サポートされていないプロバイダーです: ${provider}`,
+        'CONFIG_ERROR'
       );
     }
   }
 
   /**
    * Send request to AI API via Next.js API route
+   * signalが中断された場合はCANCELLEDエラーを送出する
    * Requirements: 1.1, 5.1, 5.3
    */
-  async sendRequest(request: AIApiRequest): Promise<AIApiResponse> {
-    try {
-      // Create timeout promise
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new AIServiceError(
-            'リクエストがタイムアウトしました。再試行してください。',
-            'TIMEOUT_ERROR'
-          ));
-        }, this.config.timeout);
-      });
+  async sendRequest(request: AIApiRequest, signal?: AbortSignal): Promise<AIApiResponse> {
+    const controller = new AbortController();
+    const unlink = this.linkAbortSignal(controller, signal);
+    let timedOut = false;
 
-      // Create API request promise via Next.js API route
-      const apiPromise = this.sendAPIRouteRequest(request);
+    // タイムアウト時はリクエスト自体も中断する
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.config.timeout);
 
-      // Race between API call and timeout
-      const response = await Promise.race([apiPromise, timeoutPromise]);
-      return response;
+    try {
+      return await this.sendAPIRouteRequest(request, controller.signal);
 
     } catch (error) {
+      if (signal?.aborted) {
+        throw this.createCancelledError();
+      }
+      if (timedOut) {
+        throw this.handleError(new AIServiceError(
+          'リクエストがタイムアウトしました。再試行してください。',
+          'TIMEOUT_ERROR'
+        ));
+      }
       throw this.handleError(error);
+    } finally {
+      clearTimeout(timeoutTimer);
+      unlink();
     }
   }
 
+  /**
+   * Build the /api/ai request body
+   * 固定の指示は、システムプロンプトを指定したリクエスト（要約の作成など）には付与しない
+   */
+  private createRequestBody(request: AIApiRequest) {
+    return {
+      messages: request.messages,
+      document: request.document,
+      selection: request.selection,
+      historySummary: request.historySummary,
+      provider: this.config.provider,
+      model: this.config.model,
+      apiKey: this.config.apiKey,
+      baseUrl: this.config.baseUrl,
+      systemPrompt: request.systemPrompt ?? this.config.systemPrompt,
+      pinnedInstructions: request.systemPrompt === undefined ? this.config.pinnedInstructions : undefined,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens
+    };
+  }
+
   /**
    * Send request via Next.js API route
    */
-  private async sendAPIRouteRequest(request: AIApiRequest): Promise<AIApiResponse> {
+  private async sendAPIRouteRequest(request: AIApiRequest, signal: AbortSignal): Promise<AIApiResponse> {
     const response = await fetch('/api/ai', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        messages: request.messages,
-        provider: this.config.provider,
-        apiKey: this.config.apiKey,
-        temperature: request.temperature,
-        maxTokens: request.maxTokens
-      })
+      body: JSON.stringify(this.createRequestBody(request)),
+      signal
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage = errorData.error || `HTTP ${response.status}: ${response.statusText}`;
-      
-      // 開発環境では詳細なエラー情報をログ出力
-      if (process.env.NODE_ENV === 'development') {
-        console.error('AI API Error Details:', {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
-          url: response.url
-        });
-      }
-      
-      if (response.status === 401) {
-        throw new AIServiceError(errorMessage, 'AUTH_ERROR');
-      } else if (response.status === 429) {
-        throw new AIServiceError(errorMessage, 'RATE_LIMIT');
-      } else if (response.status === 402) {
-        throw new AIServiceError(errorMessage, 'QUOTA_EXCEEDED');
-      } else if (response.status >= 500) {
-        throw new AIServiceError(errorMessage, 'SERVER_ERROR');
-      } else {
-        throw new AIServiceError(errorMessage, 'API_ERROR');
-      }
+      throw await this.createHTTPError(response);
     }
 
     const data = await response.json();
     return data;
   }
 
-  /*
-  // 以下のメソッドは直接API呼び出し用（現在は使用されていません）
-  // API Routeを使用するため、コメントアウト
-
   /**
-   * Send request to OpenAI API
+   * Stream response from AI API via Next.js API route
+   * タイムアウトはリクエスト全体ではなくチャンク間の無通信時間に適用する
+   * Requirements: 1.1, 1.2, 5.3
    */
-  /*
-  private async sendOpenAIRequest(request: AIApiRequest): Promise<AIApiResponse> {
-    if (!this.openaiClient) {
-      throw new AIServiceError(
-        'OpenAI クライアントが初期化されていません。',
-        'CLIENT_ERROR'
-      );
-    }
+  async streamRequest(
+    request: AIApiRequest,
+    onDelta: AIStreamHandler,
+    signal?: AbortSignal
+  ): Promise<AIApiResponse> {
+    const controller = new AbortController();
+    const unlink = this.linkAbortSignal(controller, signal);
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.config.timeout);
+    };
 
     try {
-      const messages = request.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
-
-      const completion = await this.openaiClient.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-        temperature: request.temperature,
-        max_tokens: request.maxTokens
+      resetIdleTimer();
+
+      const response = await fetch('/api/ai', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...this.createRequestBody(request), stream: true }),
+        signal: controller.signal
       });
 
-      const choice = completion.choices[0];
-      if (!choice?.message?.content) {
+      if (!response.ok) {
+        throw await this.createHTTPError(response);
+      }
+
+      if (!response.body) {
         throw new AIServiceError(
           'AI APIから有効な応答を受信できませんでした。',
           'INVALID_RESPONSE'
         );
       }
 
-      return {
-        content: choice.message.content,
-        usage: completion.usage ? {
-          promptTokens: completion.usage.prompt_tokens,
-          completionTokens: completion.usage.completion_tokens
-        } : undefined
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const parser = new StreamEventParser();
+      let content = '';
+      let usage: AIApiResponse['usage'];
+
+      const handleEvents = (events: AIStreamEvent[]) => {
+        for (const event of events) {
+          if (event.type === 'delta') {
+            content += event.content;
+            onDelta(event.content, content);
+          } else if (event.type === 'done') {
+            usage = event.usage;
+          } else if (event.type === 'error') {
+            throw this.createStatusError(event.error, event.status ?? 500);
+          }
+        }
       };
 
-    } catch (error: any) {
-      if (error.status === 429) {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        resetIdleTimer();
+        handleEvents(parser.push(decoder.decode(value, { stream: true })));
+      }
+      handleEvents(parser.push(decoder.decode()));
+      handleEvents(parser.flush());
+
+      if (!content) {
         throw new AIServiceError(
-          'リクエスト制限に達しました。しばらく待ってから再試行してください。',
-          'RATE_LIMIT_ERROR',
-          error
+          'AI APIから有効な応答を受信できませんでした。',
+          'INVALID_RESPONSE'
         );
       }
-      throw error;
+
+      return { content, usage };
+
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.createCancelledError();
+      }
+      if (timedOut) {
+        throw this.handleError(new AIServiceError(
+          'リクエストがタイムアウトしました。再試行してください。',
+          'TIMEOUT_ERROR'
+        ));
+      }
+      throw this.handleError(error);
+    } finally {
+      clearTimeout(idleTimer);
+      unlink();
     }
   }
-  */
 
   /**
-   * Send request to Gemini API
+   * 外部のAbortSignalを内部のAbortControllerに連動させる
+   * 戻り値の関数でリスナーを解除する
    */
-  /*
-  private async sendGeminiRequest(request: AIApiRequest): Promise<AIApiResponse> {
-    if (!this.geminiClient) {
-      throw new AIServiceError(
-        'Gemini クライアントが初期化されていません。',
-        'CLIENT_ERROR'
-      );
+  private linkAbortSignal(controller: AbortController, signal?: AbortSignal): () => void {
+    if (!signal) {
+      return () => {};
     }
 
-    try {
-      const model = this.geminiClient.getGenerativeModel({ 
-        model: 'gemini-pro',
-        generationConfig: {
-          temperature: request.temperature,
-          maxOutputTokens: request.maxTokens
-        }
-      });
+    const abort = () => controller.abort();
+    if (signal.aborted) {
+      abort();
+      return () => {};
+    }
 
-      // Convert chat history to Gemini format
-      const history = request.messages.slice(0, -1).map(msg => ({
-        role: msg.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: msg.content }]
-      }));
-
-      const lastMessage = request.messages[request.messages.length - 1];
-      
-      const chat = model.startChat({ history });
-      const result = await chat.sendMessage(lastMessage.content);
-      const response = await result.response;
-      
-      const content = response.text();
-      if (!content) {
-        throw new AIServiceError(
-          'AI APIから有効な応答を受信できませんでした。',
-          'INVALID_RESPONSE'
-        );
-      }
+    signal.addEventListener('abort', abort);
+    return () => signal.removeEventListener('abort', abort);
+  }
 
-      return {
-        content,
-        usage: response.usageMetadata ? {
-          promptTokens: response.usageMetadata.promptTokenCount || 0,
-          completionTokens: response.usageMetadata.candidatesTokenCount || 0
-        } : undefined
-      };
+  /**
+   * Create error for user-initiated cancellation
+   */
+  private createCancelledError(): AIServiceError {
+    return new AIServiceError('生成をキャンセルしました。', 'CANCELLED');
+  }
 
-    } catch (error: any) {
-      if (error.message?.includes('quota') || error.message?.includes('limit')) {
-        throw new AIServiceError(
-          'リクエスト制限に達しました。しばらく待ってから再試行してください。',
-          'RATE_LIMIT_ERROR',
-          error
-        );
-      }
-      throw error;
+  /**
+   * Create AIServiceError from a failed HTTP response
+   */
+  private async createHTTPError(response: Response): Promise<AIServiceError> {
+    const errorData = await response.json().catch(() => ({}));
+    const errorMessage = errorData.error || `HTTP ${response.status}: ${response.statusText}`;
+    
+    // 開発環境では詳細なエラー情報をログ出力
+    if (process.env.NODE_ENV === 'development') {
+      console.error('AI API Error Details:', {
+        status: response.status,
+        statusText: response.statusText,
+        errorData,
+        url: response.url
+      });
+    }
+
+    return this.createStatusError(errorMessage, response.status);
+  }
+
+  /**
+   * Map HTTP status code to AIServiceError
+   */
+  private createStatusError(errorMessage: string, status: number): AIServiceError {
+    if (status === 401) {
+      return new AIServiceError(errorMessage, 'AUTH_ERROR');
+    } else if (status === 429) {
+      return new AIServiceError(errorMessage, 'RATE_LIMIT');
+    } else if (status === 402) {
+      return new AIServiceError(errorMessage, 'QUOTA_EXCEEDED');
+    } else if (status >= 500) {
+      return new AIServiceError(errorMessage, 'SERVER_ERROR');
+    } else {
+      return new AIServiceError(errorMessage, 'API_ERROR');
     }
   }
-  */
 
   /**
    * Handle and transform errors
@@ -341,82 +403,159 @@ export class AIService {
     return this.config.provider;
   }
 
+  /**
+   * Get current model
+   */
+  getModel(): string {
+    return this.config.model!;
+  }
+
+  /**
+   * Get configured system prompt (undefined = APIルートのデフォルト)
+   */
+  getSystemPrompt(): string | undefined {
+    return this.config.systemPrompt;
+  }
+
+  /**
+   * Get pinned instructions prepended to every request
+   */
+  getPinnedInstructions(): string | undefined {
+    return this.config.pinnedInstructions;
+  }
+
+  /**
+   * Get token budget for conversation history
+   */
+  getContextTokens(): number {
+    return this.config.contextTokens!;
+  }
+
+  /**
+   * Whether older turns beyond the budget are summarized instead of dropped
+   */
+  shouldSummarizeHistory(): boolean {
+    return this.config.summarizeHistory!;
+  }
+
   /**
    * Update API key
    */
   updateApiKey(apiKey: string): void {
     this.config.apiKey = apiKey;
-    this.initializeClients();
   }
 
   /**
    * Switch provider
    */
-  switchProvider(provider: AIProvider, apiKey: string): void {
+  switchProvider(provider: AIProvider, apiKey: string, model?: string): void {
+    this.assertProvider(provider);
     this.config.provider = provider;
     this.config.apiKey = apiKey;
-    this.initializeClients();
+    this.config.model = model || getDefaultModel(provider);
+    // 会話履歴のトークン数の上限はプロバイダー・モデルごとに異なる
+    this.config.contextTokens = readContextTokens(provider, this.config.model)
+      || getDefaultContextTokens(provider, this.config.model);
   }
 }
 
 /**
- * Create AI service instance with dynamic API key support
+ * Read the saved context token budget for a provider and model
+ * 会話履歴のトークン数の上限（モデルのコンテキスト長を超える値は切り詰める）、未設定の場合はundefinedを返す
  */
-export function createAIService(): AIService {
-  // Try to get API keys from localStorage first (client-side)
-  let openaiKey: string | undefined;
-  let geminiKey: string | undefined;
-  let savedProvider: AIProvider | undefined;
+function readContextTokens(provider: AIProvider, model: string): number | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+
+  try {
+    const savedTokens = Number(localStorage.getItem(getContextTokensStorageKey(provider, model)));
+    if (Number.isInteger(savedTokens) && savedTokens >= AI_CONFIG.minContextTokens) {
+      return Math.min(savedTokens, getMaxContextTokens(provider, model) ?? Infinity);
+    }
+  } catch (error) {
+    console.warn('Failed to read context settings from localStorage:', error);
+  }
+  return undefined;
+}
+
+/**
+ * Read credentials for a provider
+ * APIキーは localStorage → ApiKeySettingsが設定するwindow変数 → 環境変数 の順に参照する
+ * 必要な認証情報が揃っていない場合はundefinedを返す
+ */
+function readProviderCredentials(providerId: string): ProviderCredentials | undefined {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    return undefined;
+  }
+
+  let apiKey: string | undefined;
+  let baseUrl: string | undefined;
 
   if (typeof window !== 'undefined') {
     // Client-side: check localStorage
     try {
-      openaiKey = localStorage.getItem('openai_api_key') || undefined;
-      geminiKey = localStorage.getItem('gemini_api_key') || undefined;
-      savedProvider = (localStorage.getItem('ai_provider') as AIProvider) || undefined;
-      
-      console.log('Loading API keys from localStorage:', {
-        hasOpenAI: !!openaiKey,
-        hasGemini: !!geminiKey,
-        savedProvider,
-        openaiPrefix: openaiKey ? openaiKey.substring(0, 8) + '...' : 'none',
-        geminiPrefix: geminiKey ? geminiKey.substring(0, 8) + '...' : 'none'
-      });
-      
+      apiKey = localStorage.getItem(provider.apiKey.storageKey) || undefined;
+      if (provider.baseUrl) {
+        baseUrl = localStorage.getItem(provider.baseUrl.storageKey) || undefined;
+      }
+
       // Also check dynamic window variables (set by ApiKeySettings)
-      openaiKey = openaiKey || (window as any).__NEXT_PUBLIC_OPENAI_API_KEY;
-      geminiKey = geminiKey || (window as any).__NEXT_PUBLIC_GEMINI_API_KEY;
+      const windowKeys = window as unknown as Record<string, string | undefined>;
+      apiKey = apiKey || windowKeys[`__NEXT_PUBLIC_${providerId.toUpperCase()}_API_KEY`];
     } catch (error) {
       console.warn('Failed to read from localStorage:', error);
     }
   }
 
   // Fallback to environment variables
-  openaiKey = openaiKey || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-  geminiKey = geminiKey || process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+  const credentials = { apiKey: apiKey || provider.apiKey.getEnvValue() || '', baseUrl };
+  return validateCredentials(provider, credentials) ? undefined : credentials;
+}
+
+/**
+ * Create AI service instance with dynamic API key support
+ */
+export function createAIService(): AIService {
+  let savedProvider: AIProvider | undefined;
+
+  if (typeof window !== 'undefined') {
+    try {
+      savedProvider = localStorage.getItem('ai_provider') || undefined;
+    } catch (error) {
+      console.warn('Failed to read from localStorage:', error);
+    }
+  }
+
+  const configured = new Map(
+    getProviders().map(provider => [provider.id, readProviderCredentials(provider.id)])
+  );
+
+  console.log('Loading API keys:', {
+    savedProvider,
+    providers: Array.from(configured.entries()).map(([id, credentials]) => ({
+      id,
+      configured: !!credentials,
+      prefix: credentials?.apiKey ? credentials.apiKey.substring(0, 8) + '...' : 'none'
+    }))
+  });
 
   // Determine which provider to use
-  let provider: AIProvider;
-  let apiKey: string;
+  // 保存済みのプロバイダーを優先し、なければ登録順で最初に設定済みのものを使用
+  let provider: AIProvider | undefined;
 
-  if (savedProvider && 
-      ((savedProvider === 'openai' && openaiKey) || 
-       (savedProvider === 'gemini' && geminiKey))) {
-    // Use saved provider if available
+  if (savedProvider && configured.get(savedProvider)) {
     provider = savedProvider;
-    apiKey = savedProvider === 'openai' ? openaiKey! : geminiKey!;
     console.log(`Using saved provider: ${provider}`);
-  } else if (openaiKey) {
-    // Default to OpenAI if available
-    provider = 'openai';
-    apiKey = openaiKey;
-    console.log('Using OpenAI as default provider');
-  } else if (geminiKey) {
-    // Use Gemini as fallback
-    provider = 'gemini';
-    apiKey = geminiKey;
-    console.log('Using Gemini as fallback provider');
   } else {
+    provider = getProviders().find(candidate => configured.get(candidate.id))?.id;
+    if (provider) {
+      console.log(`Using ${provider} as fallback provider`);
+    }
+  }
+
+  if (!provider) {
     console.error('No API keys found');
     throw new AIServiceError(
       'API キーが設定されていません。設定画面からAPIキーを入力してください。',
@@ -424,8 +563,88 @@ export function createAIService(): AIService {
     );
   }
 
-  console.log(`Creating AI service with provider: ${provider}`);
-  return new AIService({ provider, apiKey });
+  const { apiKey, baseUrl } = configured.get(provider)!;
+
+  // 保存済みのモデルを使用（許可リスト外の場合はデフォルト）
+  let model: string | undefined;
+  if (typeof window !== 'undefined') {
+    try {
+      model = localStorage.getItem(`${provider}_model`) || undefined;
+    } catch (error) {
+      console.warn('Failed to read model from localStorage:', error);
+    }
+  }
+  if (!model || !isAllowedModel(provider, model)) {
+    model = getDefaultModel(provider);
+  }
+
+  // 保存済みのシステムプロンプト（会話履歴とは別に保持する）
+  let systemPrompt: string | undefined;
+  if (typeof window !== 'undefined') {
+    try {
+      systemPrompt = localStorage.getItem('ai_system_prompt') || undefined;
+    } catch (error) {
+      console.warn('Failed to read system prompt from localStorage:', error);
+    }
+  }
+
+  // 会話履歴のトークン数の上限と古い会話の要約
+  const contextTokens = readContextTokens(provider, model);
+  let summarizeHistory = true;
+  if (typeof window !== 'undefined') {
+    try {
+      summarizeHistory = localStorage.getItem('ai_summarize_history') !== 'false';
+    } catch (error) {
+      console.warn('Failed to read context settings from localStorage:', error);
+    }
+  }
+
+  // プロンプトのテンプレートと一緒に保存している固定の指示
+  const pinnedInstructions = loadPromptLibrary().pinnedInstructions.trim() || undefined;
+
+  console.log(`Creating AI service with provider: ${provider}, model: ${model}`);
+  return new AIService({ provider, apiKey, baseUrl, model, systemPrompt, pinnedInstructions, contextTokens, summarizeHistory });
+}
+
+/**
+ * Fetch available models for a provider via Next.js API route
+ * 設定画面の接続テストで使用する（保存前の認証情報で確認できる）
+ */
+export async function fetchProviderModels(
+  provider: AIProvider,
+  credentials: ProviderCredentials
+): Promise<AIModelOption[]> {
+  let response: Response;
+
+  try {
+    response = await fetch('/api/ai/models', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        provider,
+        apiKey: credentials.apiKey,
+        baseUrl: credentials.baseUrl
+      })
+    });
+  } catch (error) {
+    throw new AIServiceError(
+      '接続に失敗しました。ネットワーク接続を確認してください。',
+      'NETWORK_ERROR',
+      error as Error
+    );
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new AIServiceError(
+      data.error || `HTTP ${response.status}: ${response.statusText}`,
+      response.status === 401 ? 'AUTH_ERROR' : 'API_ERROR'
+    );
+  }
+
+  return Array.isArray(data.models) ? data.models : [];
 }
 
 /**
@@ -6,8 +6,39 @@ export {
   AIService,
   AIServiceError,
   createAIService,
+  fetchProviderModels,
   getAIService,
   resetAIService,
   type AIProvider,
-  type AIServiceConfig
-} from './aiService';
\ No newline at end of file
+  type AIServiceConfig,
+  type AIStreamHandler
+} from './aiService';
+
+export {
+  StreamEventParser,
+  encodeStreamEvent,
+  STREAM_HEADERS
+} from './streaming';
+
+export {
+  registerProvider,
+  getProvider,
+  getProviders,
+  hasProvider,
+  getDefaultModel,
+  isAllowedModel,
+  getDefaultContextTokens,
+  type AIProviderAdapter,
+  type AIModelOption
+} from './providers';
+
+export {
+  isPersistenceAvailable,
+  loadPersistedState,
+  saveWorkspaces,
+  saveWorkspaceDocument,
+  deleteWorkspaceDocument,
+  clearPersistedState,
+  type PersistedAppState,
+  type PersistedWorkspaces
+} from './persistence';
@@ -0,0 +1,334 @@
+/**
+ * Persistence service
+ * ワークスペースごとのチャット履歴と文書をIndexedDBに保存し、再読み込み時に復元する
+ */
+
+import {
+  AppState,
+  ChatMessage,
+  ConversationSummary,
+  DEFAULT_WORKSPACE,
+  PERSISTENCE_CONFIG,
+  WorkspaceSummary,
+  validateWorkspaceSummary
+} from '../types';
+
+/**
+ * 保存対象の状態（ワークスペースごと）
+ */
+export type PersistedAppState = Pick<AppState, 'chatHistory' | 'conversationSummary' | 'currentCode' | 'savedCode'>;
+
+/**
+ * 保存対象のワークスペース一覧
+ */
+export type PersistedWorkspaces = Pick<AppState, 'workspaces' | 'activeWorkspaceId'>;
+
+/**
+ * 保存形式のチャットメッセージ（日時はISO形式の文字列）
+ */
+type StoredChatMessage = Omit<ChatMessage, 'timestamp'> & { timestamp: string };
+
+/**
+ * 保存形式の会話の要約（日時はISO形式の文字列）
+ */
+type StoredConversationSummary = Omit<ConversationSummary, 'updatedAt'> & { updatedAt: string };
+
+/**
+ * 保存形式（ワークスペースの内容）
+ */
+interface StoredAppState {
+  schemaVersion: number;
+  savedAt: string;
+  chatHistory: StoredChatMessage[];
+  conversationSummary?: StoredConversationSummary | null; // 要約の導入前の保存データにはない
+  currentCode: string;
+  savedCode?: string; // 未保存の変更の判定の導入前の保存データにはない
+}
+
+/**
+ * 保存形式（ワークスペース一覧）
+ */
+interface StoredWorkspaces extends PersistedWorkspaces {
+  schemaVersion: number;
+}
+
+/**
+ * ワークスペースの内容の読み込み結果
+ */
+export interface LoadedWorkspaceDocument {
+  raw: unknown; // 保存データ（なければundefined）
+  state: PersistedAppState | null; // 日時を復元した状態（形式が異なる場合はnull、内容の検証は呼び出し側で行う）
+}
+
+/**
+ * 読み込み結果
+ */
+export interface LoadPersistedStateResult {
+  rawWorkspaces: unknown; // ワークスペース一覧の保存データ（なければundefined）
+  workspaces: PersistedWorkspaces | null; // 形式が異なる場合・保存データがない場合はnull
+  documents: Record<string, LoadedWorkspaceDocument>; // ワークスペースIDごとの内容
+  corrupted: Record<string, unknown> | undefined; // 以前に復元できなかったデータ（退避先のキーごと、なければundefined）
+}
+
+const SCHEMA_VERSION = 1;
+const WORKSPACES_SCHEMA_VERSION = 1;
+const WORKSPACES_KEY = 'workspaces';
+const LEGACY_CURRENT_KEY = 'current'; // ワークスペース導入前の保存データ（1件の文書として読み込む）
+const LEGACY_CORRUPTED_KEY = 'corrupted'; // 以前の退避先（1件のみ）
+const CORRUPTED_KEY_PREFIX = 'corrupted:'; // 復元できなかったデータの退避先（退避した日時ごと）
+const DOCUMENT_KEY_PREFIX = 'workspace:';
+
+/**
+ * ワークスペースの内容の保存キー
+ */
+function documentKey(workspaceId: string): string {
+  return `${DOCUMENT_KEY_PREFIX}${workspaceId}`;
+}
+
+/**
+ * 指定した接頭辞で始まるキーの範囲
+ */
+function prefixRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * IndexedDBが利用可能かどうか（サーバー側・一部のプライベートブラウズでは利用不可）
+ */
+export function isPersistenceAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * データベースを開く（初回のみ作成）
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(PERSISTENCE_CONFIG.databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PERSISTENCE_CONFIG.storeName);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    databasePromise = null; // 次回の操作で開き直す
+    throw error;
+  });
+  return databasePromise;
+}
+
+/**
+ * オブジェクトストアに対する操作を1つのトランザクションで実行する
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(PERSISTENCE_CONFIG.storeName, mode);
+    const request = operation(transaction.objectStore(PERSISTENCE_CONFIG.storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * 保存形式から状態を復元する（日時をDateに戻す）
+ * 形式が異なる場合はnullを返す
+ */
+export function reviveAppState(raw: unknown): PersistedAppState | null {
+  const stored = raw as Partial<StoredAppState> | null;
+  if (
+    typeof stored !== 'object' ||
+    stored === null ||
+    stored.schemaVersion !== SCHEMA_VERSION ||
+    !Array.isArray(stored.chatHistory) ||
+    typeof stored.currentCode !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    currentCode: stored.currentCode,
+    savedCode: typeof stored.savedCode === 'string' ? stored.savedCode : '',
+    chatHistory: stored.chatHistory.map((message): ChatMessage => ({
+      ...message,
+      timestamp: new Date(message?.timestamp),
+    })),
+    conversationSummary: stored.conversationSummary
+      ? { ...stored.conversationSummary, updatedAt: new Date(stored.conversationSummary.updatedAt) }
+      : null,
+  };
+}
+
+/**
+ * 保存形式からワークスペース一覧を復元する
+ * 形式が異なる場合（IDの重複、選択中のワークスペースがないなど）はnullを返す
+ */
+export function reviveWorkspaces(raw: unknown): PersistedWorkspaces | null {
+  const stored = raw as Partial<StoredWorkspaces> | null;
+  if (
+    typeof stored !== 'object' ||
+    stored === null ||
+    stored.schemaVersion !== WORKSPACES_SCHEMA_VERSION ||
+    !Array.isArray(stored.workspaces) ||
+    stored.workspaces.length === 0 ||
+    !stored.workspaces.every(validateWorkspaceSummary) ||
+    new Set(stored.workspaces.map(workspace => workspace.id)).size !== stored.workspaces.length ||
+    !stored.workspaces.some(workspace => workspace.id === stored.activeWorkspaceId)
+  ) {
+    return null;
+  }
+
+  return {
+    workspaces: stored.workspaces.map(({ id, name }): WorkspaceSummary => ({ id, name })),
+    activeWorkspaceId: stored.activeWorkspaceId!,
+  };
+}
+
+/**
+ * ワークスペースの内容を読み込む
+ */
+async function loadDocument(workspaceId: string): Promise<LoadedWorkspaceDocument> {
+  const raw = await runRequest('readonly', store => store.get(documentKey(workspaceId)));
+  return { raw, state: raw === undefined ? null : reviveAppState(raw) };
+}
+
+/**
+ * 指定した接頭辞で始まるキーの保存データをすべて読み込む
+ *
+ * @returns 接頭辞を除いたキーごとの保存データ
+ */
+async function loadEntries(prefix: string): Promise<Record<string, unknown>> {
+  const [keys, values] = await Promise.all([
+    runRequest('readonly', store => store.getAllKeys(prefixRange(prefix))),
+    runRequest('readonly', store => store.getAll(prefixRange(prefix))),
+  ]);
+  return Object.fromEntries(keys.map((key, index) => [String(key).slice(prefix.length), values[index]]));
+}
+
+/**
+ * 退避したデータをすべて読み込む（以前の退避先も含める）
+ */
+async function loadCorruptedEntries(): Promise<Record<string, unknown> | undefined> {
+  const [legacy, entries] = await Promise.all([
+    runRequest('readonly', store => store.get(LEGACY_CORRUPTED_KEY)),
+    loadEntries(CORRUPTED_KEY_PREFIX),
+  ]);
+  const corrupted: Record<string, unknown> = legacy === undefined ? {} : { [LEGACY_CORRUPTED_KEY]: legacy };
+  for (const [savedAt, raw] of Object.entries(entries)) {
+    corrupted[`${CORRUPTED_KEY_PREFIX}${savedAt}`] = raw;
+  }
+  return Object.keys(corrupted).length > 0 ? corrupted : undefined;
+}
+
+/**
+ * 保存されているワークスペース一覧とすべての内容を読み込む
+ * ワークスペース一覧の形式が異なる場合は、退避できるよう保存されているすべての内容を読み込む
+ */
+export async function loadPersistedState(): Promise<LoadPersistedStateResult> {
+  const [rawWorkspaces, legacy, corrupted] = await Promise.all([
+    runRequest('readonly', store => store.get(WORKSPACES_KEY)),
+    runRequest('readonly', store => store.get(LEGACY_CURRENT_KEY)),
+    loadCorruptedEntries(),
+  ]);
+
+  // ワークスペース導入前の保存データは既定のワークスペースとして読み込む
+  if (rawWorkspaces === undefined && legacy !== undefined) {
+    return {
+      rawWorkspaces,
+      workspaces: { workspaces: [DEFAULT_WORKSPACE], activeWorkspaceId: DEFAULT_WORKSPACE.id },
+      documents: { [DEFAULT_WORKSPACE.id]: { raw: legacy, state: reviveAppState(legacy) } },
+      corrupted,
+    };
+  }
+
+  const workspaces = reviveWorkspaces(rawWorkspaces);
+  const documents: Record<string, LoadedWorkspaceDocument> = {};
+  if (workspaces) {
+    for (const workspace of workspaces.workspaces) {
+      documents[workspace.id] = await loadDocument(workspace.id);
+    }
+  } else if (rawWorkspaces !== undefined) {
+    for (const [workspaceId, raw] of Object.entries(await loadEntries(DOCUMENT_KEY_PREFIX))) {
+      documents[workspaceId] = { raw, state: reviveAppState(raw) };
+    }
+  }
+
+  return { rawWorkspaces, workspaces, documents, corrupted };
+}
+
+/**
+ * ワークスペース一覧を保存する（旧形式の保存データは削除する）
+ */
+export async function saveWorkspaces(workspaces: PersistedWorkspaces): Promise<void> {
+  const stored: StoredWorkspaces = {
+    schemaVersion: WORKSPACES_SCHEMA_VERSION,
+    workspaces: workspaces.workspaces,
+    activeWorkspaceId: workspaces.activeWorkspaceId,
+  };
+  await runRequest('readwrite', (store) => {
+    store.delete(LEGACY_CURRENT_KEY);
+    return store.put(stored, WORKSPACES_KEY);
+  });
+}
+
+/**
+ * ワークスペースの内容を保存する
+ */
+export async function saveWorkspaceDocument(workspaceId: string, state: PersistedAppState): Promise<void> {
+  const stored: StoredAppState = {
+    schemaVersion: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    currentCode: state.currentCode,
+    savedCode: state.savedCode,
+    chatHistory: state.chatHistory.map(message => ({
+      ...message,
+      timestamp: message.timestamp.toISOString(),
+    })),
+    conversationSummary: state.conversationSummary
+      ? { ...state.conversationSummary, updatedAt: state.conversationSummary.updatedAt.toISOString() }
+      : null,
+  };
+  await runRequest('readwrite', store => store.put(stored, documentKey(workspaceId)));
+}
+
+/**
+ * ワークスペースの内容を削除する
+ */
+export async function deleteWorkspaceDocument(workspaceId: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(documentKey(workspaceId)));
+}
+
+/**
+ * 復元できなかったデータを退避する（自動保存で上書きされないようにする）
+ * 退避した日時ごとに別のキーに保存し、以前に退避したデータは上書きしない
+ *
+ * @returns 退避先のキー
+ */
+export async function saveCorruptedState(raw: unknown): Promise<string> {
+  const key = `${CORRUPTED_KEY_PREFIX}${new Date().toISOString()}`;
+  await runRequest('readwrite', store => store.add(raw, key));
+  return key;
+}
+
+/**
+ * 退避したデータをすべて削除する
+ */
+export async function clearCorruptedState(): Promise<void> {
+  await runRequest('readwrite', (store) => {
+    store.delete(LEGACY_CORRUPTED_KEY);
+    return store.delete(prefixRange(CORRUPTED_KEY_PREFIX));
+  });
+}
+
+/**
+ * 保存されているデータをすべて削除する
+ */
+export async function clearPersistedState(): Promise<void> {
+  await runRequest('readwrite', store => store.clear());
+}
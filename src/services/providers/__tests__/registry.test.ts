@@ -0,0 +1,154 @@
+/**
+ * Provider Registry Tests
+ * プロバイダー登録・モデル許可リストのテスト
+ */
+
+import {
+  AIProviderAdapter,
+  getDefaultContextTokens,
+  getDefaultModel,
+  getMaxContextTokens,
+  getProvider,
+  getProviders,
+  hasProvider,
+  isAllowedBaseUrl,
+  isAllowedModel,
+  isValidBaseUrl,
+  mapCommonProviderError,
+  registerProvider,
+  validateCredentials
+} from '..';
+
+jest.mock('openai');
+jest.mock('@google/generative-ai');
+
+describe('provider registry', () => {
+  it('should register built-in providers in order', () => {
+    const ids = getProviders().map(provider => provider.id);
+
+    expect(ids.slice(0, 2)).toEqual(['openai', 'gemini']);
+    expect(hasProvider('openai')).toBe(true);
+    expect(hasProvider('unknown')).toBe(false);
+  });
+
+  it('should use the first model of each provider as default', () => {
+    expect(getDefaultModel('openai')).toBe(getProvider('openai')!.models[0].id);
+    expect(getDefaultModel('gemini')).toBe(getProvider('gemini')!.models[0].id);
+    expect(getDefaultModel('unknown')).toBe('');
+  });
+
+  it('should only allow models listed for the provider', () => {
+    expect(isAllowedModel('openai', 'gpt-4o')).toBe(true);
+    expect(isAllowedModel('gemini', 'gemini-1.5-flash')).toBe(true);
+    expect(isAllowedModel('openai', 'gemini-1.5-flash')).toBe(false);
+    expect(isAllowedModel('openai', 'gpt-unknown')).toBe(false);
+    expect(isAllowedModel('unknown', 'gpt-4o')).toBe(false);
+  });
+
+  it('should accept any non-empty model for providers allowing custom models', () => {
+    expect(isAllowedModel('local', 'llama3.1:8b')).toBe(true);
+    expect(isAllowedModel('local', '')).toBe(false);
+    expect(getDefaultModel('local')).toBe('');
+  });
+
+  it('should derive the context budget from the model context window', () => {
+    expect(getMaxContextTokens('openai', 'gpt-4o')).toBe(128_000 - 2000 - 12000);
+    expect(getDefaultContextTokens('openai', 'gpt-4o')).toBe(8000);
+    expect(getDefaultContextTokens('openai', 'gpt-3.5-turbo')).toBe(16_385 - 2000 - 12000);
+    // コンテキスト長が不明なモデルは既定値を使う
+    expect(getMaxContextTokens('local', 'llama3.1:8b')).toBeUndefined();
+    expect(getDefaultContextTokens('local', 'llama3.1:8b')).toBe(8000);
+  });
+
+  it('should only accept http(s) base URLs', () => {
+    expect(isValidBaseUrl('http://localhost:11434/v1')).toBe(true);
+    expect(isValidBaseUrl('https://llm.example.com/v1')).toBe(true);
+    expect(isValidBaseUrl('file:///etc/passwd')).toBe(false);
+    expect(isValidBaseUrl('localhost:11434')).toBe(false);
+  });
+
+  describe('isAllowedBaseUrl', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should only allow base URLs listed on the server', () => {
+      process.env = { ...env, LOCAL_PROVIDER_BASE_URLS: 'http://localhost:11434/v1, https://llm.example.com/v1/' };
+
+      expect(isAllowedBaseUrl('http://localhost:11434/v1/')).toBe(true);
+      expect(isAllowedBaseUrl('https://llm.example.com/v1')).toBe(true);
+      expect(isAllowedBaseUrl('http://169.254.169.254/latest')).toBe(false);
+      expect(isAllowedBaseUrl('http://localhost:8080/v1')).toBe(false);
+    });
+
+    it('should only allow localhost in development when no list is configured', () => {
+      process.env = { ...env, LOCAL_PROVIDER_BASE_URLS: '', NODE_ENV: 'development' };
+      expect(isAllowedBaseUrl('http://127.0.0.1:11434/v1')).toBe(true);
+      expect(isAllowedBaseUrl('http://10.0.0.5:11434/v1')).toBe(false);
+
+      process.env = { ...env, LOCAL_PROVIDER_BASE_URLS: '', NODE_ENV: 'production' };
+      expect(isAllowedBaseUrl('http://localhost:11434/v1')).toBe(false);
+    });
+  });
+
+  describe('validateCredentials', () => {
+    it('should require API keys unless optional', () => {
+      expect(validateCredentials(getProvider('openai')!, { apiKey: '' })).not.toBeNull();
+      expect(validateCredentials(getProvider('openai')!, { apiKey: 'sk-test' })).toBeNull();
+      expect(validateCredentials(getProvider('local')!, {
+        apiKey: '',
+        baseUrl: 'http://localhost:11434/v1',
+      })).toBeNull();
+    });
+
+    it('should require a base URL for providers that need one', () => {
+      expect(validateCredentials(getProvider('local')!, { apiKey: '' })).toBe('接続先URLが必要です');
+      expect(validateCredentials(getProvider('local')!, { apiKey: '', baseUrl: 'ftp://host' }))
+        .not.toBeNull();
+    });
+  });
+
+  it('should make newly registered providers available', () => {
+    const adapter: AIProviderAdapter = {
+      id: 'test-provider',
+      name: 'Test',
+      label: 'Test Provider',
+      models: [{ id: 'test-model', label: 'Test Model' }],
+      apiKey: {
+        storageKey: 'test_api_key',
+        placeholder: 'test-...',
+        getEnvValue: () => undefined,
+      },
+      send: jest.fn(),
+      stream: jest.fn(),
+      mapError: mapCommonProviderError,
+    };
+
+    registerProvider(adapter);
+
+    expect(getProvider('test-provider')).toBe(adapter);
+    expect(isAllowedModel('test-provider', 'test-model')).toBe(true);
+    expect(getProviders().map(provider => provider.id)).toContain('test-provider');
+  });
+
+  describe('error mapping', () => {
+    it('should map common status codes', () => {
+      expect(mapCommonProviderError({ status: 401 }).statusCode).toBe(401);
+      expect(mapCommonProviderError({ status: 429 }).statusCode).toBe(429);
+      expect(mapCommonProviderError({ code: 'ECONNREFUSED' }).statusCode).toBe(503);
+      expect(mapCommonProviderError({ message: 'boom' })).toEqual({
+        errorMessage: 'API Error: boom',
+        statusCode: 500,
+      });
+    });
+
+    it('should map invalid Gemini API keys to authentication errors', () => {
+      const gemini = getProvider('gemini')!;
+
+      expect(gemini.mapError({ status: 400, message: '[400] API key not valid. Please pass a valid API key.' }))
+        .toEqual({ errorMessage: 'APIキーが無効です。設定を確認してください。', statusCode: 401 });
+    });
+  });
+});
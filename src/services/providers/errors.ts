@@ -0,0 +1,38 @@
+/**
+ * Provider error mapping
+ * プロバイダー共通のエラー変換
+ */
+
+import { ProviderErrorLike, ProviderErrorResponse, ProviderResponseError } from './types';
+
+/**
+ * エラーの種類に応じてメッセージとステータスコードを決定する
+ */
+export function mapCommonProviderError(error: ProviderErrorLike): ProviderErrorResponse {
+  let errorMessage = '予期しないエラーが発生しました';
+  let statusCode = 500;
+
+  if (error instanceof ProviderResponseError) {
+    errorMessage = error.message;
+    statusCode = error.status;
+  } else if (error.status === 401 || error.code === 'invalid_api_key') {
+    errorMessage = 'APIキーが無効です。設定を確認してください。';
+    statusCode = 401;
+  } else if (error.status === 429) {
+    errorMessage = 'リクエスト制限に達しました。しばらく待ってから再試行してください。';
+    statusCode = 429;
+  } else if (error.status === 402) {
+    errorMessage = 'APIの使用量制限に達しました。アカウントの設定を確認してください。';
+    statusCode = 402;
+  } else if (error.status === 404 && error.message?.includes('models/')) {
+    errorMessage = 'AIモデルが見つかりません。サポートされているモデルを使用してください。';
+    statusCode = 404;
+  } else if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+    errorMessage = '接続に失敗しました。ネットワーク接続を確認してください。';
+    statusCode = 503;
+  } else if (error.message) {
+    errorMessage = `API Error: ${error.message}`;
+  }
+
+  return { errorMessage, statusCode };
+}
@@ -0,0 +1,157 @@
+/**
+ * Google Gemini provider adapter
+ */
+
+import { ChatSession, Content, GoogleGenerativeAI, UsageMetadata } from '@google/generative-ai';
+import { AIApiResponse, AIStreamEvent } from '../../types';
+import { mapCommonProviderError } from './errors';
+import {
+  AIProviderAdapter,
+  ProviderCredentials,
+  ProviderErrorLike,
+  ProviderErrorResponse,
+  ProviderMessage,
+  ProviderRequest,
+  ProviderResponseError
+} from './types';
+
+/**
+ * 会話履歴をGeminiの形式（user/model）に変換する
+ * 先頭はuserである必要があり、同じロールが連続する場合は1つにまとめる
+ */
+function toGeminiContents(messages: ProviderMessage[]): Content[] {
+  const contents: Content[] = [];
+
+  for (const msg of messages) {
+    const role = msg.role === 'assistant' ? 'model' : 'user';
+    const previous = contents[contents.length - 1];
+
+    if (!previous && role !== 'user') {
+      continue;
+    }
+
+    if (previous && previous.role === role) {
+      previous.parts.push({ text: msg.content });
+    } else {
+      contents.push({ role, parts: [{ text: msg.content }] });
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * 直前までの履歴を持つGeminiチャットセッションを開始する
+ * 最後のメッセージは送信用として分離して返す
+ */
+function startGeminiChat(
+  credentials: ProviderCredentials,
+  request: ProviderRequest
+): { chat: ChatSession; prompt: string } {
+  const genAI = new GoogleGenerativeAI(credentials.apiKey);
+  const model = genAI.getGenerativeModel({
+    model: request.model,
+    systemInstruction: request.systemPrompt || undefined,
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens
+    }
+  });
+
+  const { messages } = request;
+  const history = toGeminiContents(messages.slice(0, -1));
+  const lastMessage = messages[messages.length - 1];
+
+  // 履歴の末尾がuserの場合、送信メッセージと連続しないよう送信側にまとめる
+  const trailing = history[history.length - 1];
+  let prompt = lastMessage.content;
+  if (trailing && trailing.role === 'user') {
+    history.pop();
+    prompt = [...trailing.parts.map(part => part.text ?? ''), prompt].join('\n\n');
+  }
+
+  const chat = model.startChat({ history });
+  return { chat, prompt };
+}
+
+/**
+ * Geminiの使用量メタデータをAIApiResponse.usageに変換する
+ */
+function toUsage(usageMetadata?: UsageMetadata): AIApiResponse['usage'] {
+  return usageMetadata ? {
+    promptTokens: usageMetadata.promptTokenCount || 0,
+    completionTokens: usageMetadata.candidatesTokenCount || 0
+  } : undefined;
+}
+
+export const geminiProvider: AIProviderAdapter = {
+  id: 'gemini',
+  name: 'Gemini',
+  label: 'Google Gemini - 実験的',
+  models: [
+    { id: 'gemini-1.0-pro', label: 'Gemini 1.0 Pro', contextWindow: 32_760 },
+    { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash', contextWindow: 1_048_576 },
+    { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', contextWindow: 2_097_152 },
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', contextWindow: 1_048_576 },
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', contextWindow: 1_048_576 },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', contextWindow: 1_048_576 },
+  ],
+  apiKey: {
+    storageKey: 'gemini_api_key',
+    placeholder: 'AI...',
+    prefix: 'AI',
+    helpUrl: 'https://makersuite.google.com/app/apikey',
+    getEnvValue: () => process.env.NEXT_PUBLIC_GEMINI_API_KEY,
+  },
+
+  async send(credentials: ProviderCredentials, request: ProviderRequest): Promise<AIApiResponse> {
+    // Gemini API呼び出し（会話履歴付き）
+    console.log('Calling Gemini API...');
+    const { chat, prompt } = startGeminiChat(credentials, request);
+
+    console.log('Sending prompt to Gemini:', prompt.substring(0, 100) + '...');
+
+    const result = await chat.sendMessage(prompt, { signal: request.signal });
+    const responseText = result.response.text();
+
+    console.log('Gemini API response received successfully');
+
+    if (!responseText) {
+      throw new ProviderResponseError('AI APIから有効な応答を受信できませんでした');
+    }
+
+    return {
+      content: responseText,
+      usage: toUsage(result.response.usageMetadata)
+    };
+  },
+
+  async stream(credentials: ProviderCredentials, request: ProviderRequest): Promise<AsyncGenerator<AIStreamEvent>> {
+    console.log('Calling Gemini API (stream)...');
+    const { chat, prompt } = startGeminiChat(credentials, request);
+    const result = await chat.sendMessageStream(prompt, { signal: request.signal });
+
+    return (async function* (): AsyncGenerator<AIStreamEvent> {
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          yield { type: 'delta', content: text };
+        }
+      }
+
+      const response = await result.response;
+      yield { type: 'done', usage: toUsage(response.usageMetadata) };
+    })();
+  },
+
+  mapError(error: ProviderErrorLike): ProviderErrorResponse {
+    // GeminiはAPIキー不正を400で返すため認証エラーとして扱う
+    if (error.message?.includes('API key not valid') || error.message?.includes('API_KEY_INVALID')) {
+      return {
+        errorMessage: 'APIキーが無効です。設定を確認してください。',
+        statusCode: 401
+      };
+    }
+    return mapCommonProviderError(error);
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * AI Provider exports
+ */
+
+export {
+  registerProvider,
+  getProvider,
+  getProviders,
+  hasProvider,
+  getDefaultModel,
+  isAllowedModel,
+  getMaxContextTokens,
+  getDefaultContextTokens,
+  getContextTokensStorageKey,
+  isValidBaseUrl,
+  isAllowedBaseUrl,
+  validateCredentials
+} from './registry';
+
+export { mapCommonProviderError } from './errors';
+
+export {
+  ProviderResponseError,
+  type AIProviderAdapter,
+  type AIModelOption,
+  type ProviderApiKeyConfig,
+  type ProviderBaseUrlConfig,
+  type ProviderCredentials,
+  type ProviderErrorLike,
+  type ProviderErrorResponse,
+  type ProviderMessage,
+  type ProviderRequest
+} from './types';
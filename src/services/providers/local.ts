@@ -0,0 +1,81 @@
+/**
+ * Local OpenAI-compatible provider adapter
+ * Ollama / llama.cpp / LM Studio などOpenAI互換APIを持つサーバーに接続する
+ */
+
+import OpenAI from 'openai';
+import { AIApiResponse, AIStreamEvent } from '../../types';
+import { mapCommonProviderError } from './errors';
+import { sendChatCompletion, streamChatCompletion } from './openai';
+import {
+  AIModelOption,
+  AIProviderAdapter,
+  ProviderCredentials,
+  ProviderErrorLike,
+  ProviderErrorResponse,
+  ProviderRequest
+} from './types';
+
+/**
+ * キー不要のサーバー向けに送信するダミーキー（SDKがキーを必須とするため）
+ */
+const PLACEHOLDER_API_KEY = 'local';
+
+/**
+ * 接続先を指定したOpenAIクライアントを作成する
+ */
+function createClient(credentials: ProviderCredentials): OpenAI {
+  return new OpenAI({
+    apiKey: credentials.apiKey || PLACEHOLDER_API_KEY,
+    baseURL: credentials.baseUrl,
+  });
+}
+
+export const localProvider: AIProviderAdapter = {
+  id: 'local',
+  name: 'ローカル',
+  label: 'ローカル / OpenAI互換 (Ollama, llama.cpp, LM Studio)',
+  models: [],
+  allowCustomModels: true,
+  apiKey: {
+    storageKey: 'local_api_key',
+    placeholder: '（任意）',
+    optional: true,
+    getEnvValue: () => process.env.NEXT_PUBLIC_LOCAL_API_KEY,
+  },
+  baseUrl: {
+    storageKey: 'local_base_url',
+    placeholder: 'http://localhost:11434/v1',
+  },
+
+  async send(credentials: ProviderCredentials, request: ProviderRequest): Promise<AIApiResponse> {
+    console.log('Calling local OpenAI-compatible API...', credentials.baseUrl);
+    const response = await sendChatCompletion(createClient(credentials), request);
+    console.log('Local API response received');
+    return response;
+  },
+
+  async stream(credentials: ProviderCredentials, request: ProviderRequest): Promise<AsyncGenerator<AIStreamEvent>> {
+    console.log('Calling local OpenAI-compatible API (stream)...', credentials.baseUrl);
+    return streamChatCompletion(createClient(credentials), request);
+  },
+
+  async listModels(credentials: ProviderCredentials, signal?: AbortSignal): Promise<AIModelOption[]> {
+    const models: AIModelOption[] = [];
+    for await (const model of createClient(credentials).models.list({ signal })) {
+      models.push({ id: model.id, label: model.id });
+    }
+    return models.sort((a, b) => a.id.localeCompare(b.id));
+  },
+
+  mapError(error: ProviderErrorLike): ProviderErrorResponse {
+    // ローカルサーバーに接続できない場合は接続先の確認を促す
+    if (error.code === 'ECONNREFUSED' || error.message?.includes('Connection error')) {
+      return {
+        errorMessage: 'ローカルサーバーに接続できません。接続先URLとサーバーの起動状態を確認してください。',
+        statusCode: 503
+      };
+    }
+    return mapCommonProviderError(error);
+  },
+};
@@ -0,0 +1,135 @@
+/**
+ * OpenAI provider adapter
+ */
+
+import OpenAI from 'openai';
+import { AIApiResponse, AIStreamEvent } from '../../types';
+import { mapCommonProviderError } from './errors';
+import { AIProviderAdapter, ProviderCredentials, ProviderRequest, ProviderResponseError } from './types';
+
+/**
+ * OpenAIのusageをAIApiResponse.usageに変換する
+ */
+function toUsage(usage?: OpenAI.CompletionUsage | null): AIApiResponse['usage'] {
+  return usage ? {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens
+  } : undefined;
+}
+
+/**
+ * リクエストをChat Completions APIのパラメータに変換する
+ */
+function toCompletionParams(request: ProviderRequest) {
+  const messages: OpenAI.ChatCompletionMessageParam[] = request.messages.map(msg => ({
+    role: msg.role,
+    content: msg.content
+  }));
+
+  if (request.systemPrompt) {
+    messages.unshift({ role: 'system', content: request.systemPrompt });
+  }
+
+  return {
+    model: request.model,
+    messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens
+  };
+}
+
+/**
+ * Chat Completions APIで応答を一括取得する
+ * OpenAI互換エンドポイントのアダプターからも利用する
+ */
+export async function sendChatCompletion(openai: OpenAI, request: ProviderRequest): Promise<AIApiResponse> {
+  const completion = await openai.chat.completions.create(
+    toCompletionParams(request),
+    { signal: request.signal }
+  );
+
+  const choice = completion.choices[0];
+  if (!choice?.message?.content) {
+    console.error('Invalid chat completion response:', completion);
+    throw new ProviderResponseError('AI APIから有効な応答を受信できませんでした');
+  }
+
+  return {
+    content: choice.message.content,
+    usage: toUsage(completion.usage)
+  };
+}
+
+/**
+ * Chat Completions APIで応答をストリーミング取得する
+ * OpenAI互換エンドポイントのアダプターからも利用する
+ */
+export async function streamChatCompletion(
+  openai: OpenAI,
+  request: ProviderRequest
+): Promise<AsyncGenerator<AIStreamEvent>> {
+  const stream = await openai.chat.completions.create({
+    ...toCompletionParams(request),
+    stream: true,
+    stream_options: { include_usage: true }
+  }, { signal: request.signal });
+
+  return (async function* (): AsyncGenerator<AIStreamEvent> {
+    let usage: AIApiResponse['usage'];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield { type: 'delta', content: delta };
+      }
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage);
+      }
+    }
+
+    yield { type: 'done', usage };
+  })();
+}
+
+export const openaiProvider: AIProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  label: 'OpenAI (GPT-4, GPT-3.5) - 推奨',
+  models: [
+    { id: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', contextWindow: 16_385 },
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini', contextWindow: 128_000 },
+    { id: 'gpt-4o', label: 'GPT-4o', contextWindow: 128_000 },
+    { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini', contextWindow: 1_047_576 },
+    { id: 'gpt-4.1', label: 'GPT-4.1', contextWindow: 1_047_576 },
+    { id: 'gpt-4-turbo', label: 'GPT-4 Turbo', contextWindow: 128_000 },
+  ],
+  apiKey: {
+    storageKey: 'openai_api_key',
+    placeholder: 'sk-...',
+    prefix: 'sk-',
+    helpUrl: 'https://platform.openai.com/api-keys',
+    getEnvValue: () => process.env.NEXT_PUBLIC_OPENAI_API_KEY,
+  },
+
+  async send(credentials: ProviderCredentials, request: ProviderRequest): Promise<AIApiResponse> {
+    console.log('Calling OpenAI API...');
+    const openai = new OpenAI({
+      apiKey: credentials.apiKey,
+    });
+
+    const response = await sendChatCompletion(openai, request);
+    console.log('OpenAI API response received');
+    return response;
+  },
+
+  async stream(credentials: ProviderCredentials, request: ProviderRequest): Promise<AsyncGenerator<AIStreamEvent>> {
+    console.log('Calling OpenAI API (stream)...');
+    const openai = new OpenAI({
+      apiKey: credentials.apiKey,
+    });
+
+    return streamChatCompletion(openai, request);
+  },
+
+  mapError: mapCommonProviderError,
+};
@@ -0,0 +1,160 @@
+/**
+ * AI Provider registry
+ * API Route・AIService・設定画面が参照するプロバイダーの登録簿
+ */
+
+import { AI_CONFIG } from '../../types';
+import { geminiProvider } from './gemini';
+import { localProvider } from './local';
+import { openaiProvider } from './openai';
+import { AIProviderAdapter, ProviderCredentials } from './types';
+
+const providers = new Map<string, AIProviderAdapter>();
+
+/**
+ * プロバイダーを登録する（同じIDは上書き）
+ */
+export function registerProvider(adapter: AIProviderAdapter): void {
+  providers.set(adapter.id, adapter);
+}
+
+/**
+ * IDからプロバイダーを取得する
+ */
+export function getProvider(id: string): AIProviderAdapter | undefined {
+  return providers.get(id);
+}
+
+/**
+ * 登録済みのプロバイダーを登録順に取得する
+ */
+export function getProviders(): AIProviderAdapter[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * プロバイダーが登録されているかを確認する
+ */
+export function hasProvider(id: string): boolean {
+  return providers.has(id);
+}
+
+/**
+ * プロバイダーのデフォルトモデル（許可リストの先頭）を取得する
+ */
+export function getDefaultModel(providerId: string): string {
+  return getProvider(providerId)?.models[0]?.id ?? '';
+}
+
+/**
+ * モデルがプロバイダーの許可リストに含まれるかを検証する
+ */
+export function isAllowedModel(providerId: string, model: string): boolean {
+  const provider = getProvider(providerId);
+  if (!provider || typeof model !== 'string') {
+    return false;
+  }
+  if (provider.allowCustomModels) {
+    return model.trim().length > 0;
+  }
+  return provider.models.some(option => option.id === model);
+}
+
+/**
+ * モデルで会話履歴に使えるトークン数の上限
+ * コンテキスト長から応答と文書（全角文字のみの場合）の分を除く。コンテキスト長が不明な場合はundefined
+ */
+export function getMaxContextTokens(providerId: string, model: string): number | undefined {
+  const contextWindow = getProvider(providerId)?.models.find(option => option.id === model)?.contextWindow;
+  if (contextWindow === undefined) {
+    return undefined;
+  }
+  return Math.max(contextWindow - AI_CONFIG.maxTokens - AI_CONFIG.documentContextLimit, AI_CONFIG.minContextTokens);
+}
+
+/**
+ * モデルで会話履歴に使うトークン数の既定値
+ */
+export function getDefaultContextTokens(providerId: string, model: string): number {
+  return Math.min(AI_CONFIG.contextTokens, getMaxContextTokens(providerId, model) ?? Infinity);
+}
+
+/**
+ * 会話履歴のトークン数を保存するlocalStorageのキー（コンテキスト長はモデルごとに異なるため、モデルごとに保存する）
+ */
+export function getContextTokensStorageKey(providerId: string, model: string): string {
+  return `${providerId}_${model}_context_tokens`;
+}
+
+/**
+ * 接続先URLの形式を検証する（http/httpsのみ）
+ */
+export function isValidBaseUrl(baseUrl: string): boolean {
+  try {
+    const url = new URL(baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 開発環境で許可するローカルホストのホスト名
+ */
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * 比較用に接続先URLを正規化する（末尾のスラッシュを除く）
+ */
+function normalizeBaseUrl(baseUrl: string): string {
+  return new URL(baseUrl).href.replace(/\/+$/, '');
+}
+
+/**
+ * サーバーから接続先URLへの接続を許可するかを判定する（APIルートで使用する）
+ * 任意のURLに接続できるとサーバー内部のホストやメタデータに到達できるため、
+ * 環境変数 LOCAL_PROVIDER_BASE_URLS（カンマ区切り）に列挙したURLのみを許可する
+ * 未設定の場合、開発環境ではローカルホストのみを許可し、それ以外の環境では許可しない
+ */
+export function isAllowedBaseUrl(baseUrl: string): boolean {
+  if (!isValidBaseUrl(baseUrl)) {
+    return false;
+  }
+
+  const allowList = (process.env.LOCAL_PROVIDER_BASE_URLS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(isValidBaseUrl);
+  if (allowList.length > 0) {
+    return allowList.map(normalizeBaseUrl).includes(normalizeBaseUrl(baseUrl));
+  }
+
+  return process.env.NODE_ENV === 'development' && LOOPBACK_HOSTNAMES.includes(new URL(baseUrl).hostname);
+}
+
+/**
+ * プロバイダーに必要な認証情報が揃っているかを検証する
+ * 問題がある場合はエラーメッセージを返す
+ */
+export function validateCredentials(
+  provider: AIProviderAdapter,
+  credentials: Partial<ProviderCredentials>
+): string | null {
+  if (!provider.apiKey.optional && !credentials.apiKey) {
+    return 'プロバイダーとAPIキーが必要です';
+  }
+  if (provider.baseUrl) {
+    if (!credentials.baseUrl) {
+      return '接続先URLが必要です';
+    }
+    if (!isValidBaseUrl(credentials.baseUrl)) {
+      return '接続先URLの形式が正しくありません（http:// または https://）';
+    }
+  }
+  return null;
+}
+
+// 組み込みプロバイダー
+registerProvider(openaiProvider);
+registerProvider(geminiProvider);
+registerProvider(localProvider);
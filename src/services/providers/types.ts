@@ -0,0 +1,126 @@
+/**
+ * AI Provider adapter types
+ * プロバイダーごとの差異を吸収するアダプターの定義
+ */
+
+import { AIApiResponse, AIStreamEvent, ChatMessage } from '../../types';
+
+/**
+ * プロバイダーに送信するメッセージ
+ */
+export type ProviderMessage = Pick<ChatMessage, 'role' | 'content'>;
+
+/**
+ * プロバイダーへのリクエスト
+ */
+export interface ProviderRequest {
+  messages: ProviderMessage[];
+  model: string;
+  systemPrompt?: string; // 会話履歴とは別に渡すシステムプロンプト
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * プロバイダーの認証情報
+ */
+export interface ProviderCredentials {
+  apiKey: string;
+  baseUrl?: string; // OpenAI互換エンドポイント等の接続先
+}
+
+/**
+ * 選択可能なモデル
+ */
+export interface AIModelOption {
+  id: string;
+  label: string;
+  contextWindow?: number; // コンテキスト長（トークン数、不明な場合は省略）
+}
+
+/**
+ * APIキーの設定情報（設定画面・キー読み込みで使用）
+ */
+export interface ProviderApiKeyConfig {
+  storageKey: string; // localStorageのキー
+  placeholder: string;
+  prefix?: string; // キーの形式チェック用の接頭辞
+  helpUrl?: string; // キー発行ページ
+  optional?: boolean; // キーなしでも利用可能
+  getEnvValue: () => string | undefined; // 環境変数からのフォールバック
+}
+
+/**
+ * 接続先URLの設定情報（接続先を指定できるプロバイダーのみ）
+ */
+export interface ProviderBaseUrlConfig {
+  storageKey: string; // localStorageのキー
+  placeholder: string;
+}
+
+/**
+ * エラーレスポンスの内容
+ */
+export interface ProviderErrorResponse {
+  errorMessage: string;
+  statusCode: number;
+}
+
+/**
+ * SDKが送出するエラーの共通形
+ */
+export interface ProviderErrorLike {
+  message?: string;
+  status?: number;
+  code?: string;
+  type?: string;
+}
+
+/**
+ * プロバイダーから有効な応答が得られなかった場合のエラー
+ */
+export class ProviderResponseError extends Error {
+  constructor(
+    message: string,
+    public status: number = 500
+  ) {
+    super(message);
+    this.name = 'ProviderResponseError';
+  }
+}
+
+/**
+ * AI Provider adapter
+ * 新しいプロバイダーはこのインターフェースを実装して登録する
+ */
+export interface AIProviderAdapter {
+  id: string;
+  name: string; // 表示名（例: "OpenAI"）
+  label: string; // 設定画面での説明付きラベル
+  models: readonly AIModelOption[]; // 許可リスト（先頭がデフォルト）
+  allowCustomModels?: boolean; // 許可リスト外のモデル名を受け付ける
+  apiKey: ProviderApiKeyConfig;
+  baseUrl?: ProviderBaseUrlConfig;
+
+  /**
+   * 応答を一括で取得する（usageを含めて返す）
+   */
+  send(credentials: ProviderCredentials, request: ProviderRequest): Promise<AIApiResponse>;
+
+  /**
+   * 応答をストリーミングで取得する
+   * 認証エラー等は開始時に例外として送出し、最後にusage付きのdoneイベントを返す
+   */
+  stream(credentials: ProviderCredentials, request: ProviderRequest): Promise<AsyncGenerator<AIStreamEvent>>;
+
+  /**
+   * SDKのエラーをHTTPレスポンス用のメッセージとステータスに変換する
+   */
+  mapError(error: ProviderErrorLike): ProviderErrorResponse;
+
+  /**
+   * 利用可能なモデルを取得する（接続テストを兼ねる）
+   */
+  listModels?(credentials: ProviderCredentials, signal?: AbortSignal): Promise<AIModelOption[]>;
+}
@@ -0,0 +1,97 @@
+/**
+ * Streaming utilities
+ * AI応答をServer-Sent Events形式で送受信するためのヘルパー
+ * Requirements: 1.1, 1.2
+ */
+
+import { AIStreamEvent } from '../types';
+
+/**
+ * SSEレスポンスのヘッダー
+ */
+export const STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+} as const;
+
+/**
+ * ストリームイベントをSSEのテキスト形式に変換する
+ */
+export function encodeStreamEvent(event: AIStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * SSEテキストを逐次パースしてストリームイベントに変換する
+ * チャンク境界でイベントが分割されても正しく復元する
+ */
+export class StreamEventParser {
+  private buffer = '';
+  // チャンク末尾の\r（次のチャンクの\nと合わせて改行になる場合があるため、次のチャンクまで保留する）
+  private pendingCarriageReturn = '';
+
+  /**
+   * 受信したテキストを追加し、完成したイベントを返す
+   */
+  push(chunk: string): AIStreamEvent[] {
+    const text = this.pendingCarriageReturn + chunk;
+    this.pendingCarriageReturn = text.endsWith('\r') ? '\r' : '';
+    this.buffer += text.slice(0, text.length - this.pendingCarriageReturn.length).replace(/\r\n/g, '\n');
+
+    const events: AIStreamEvent[] = [];
+    let boundary = this.buffer.indexOf('\n\n');
+
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+
+      const event = this.parseBlock(block);
+      if (event) {
+        events.push(event);
+      }
+
+      boundary = this.buffer.indexOf('\n\n');
+    }
+
+    return events;
+  }
+
+  /**
+   * ストリーム終了時に残っているイベントを返す
+   */
+  flush(): AIStreamEvent[] {
+    const rest = this.buffer + this.pendingCarriageReturn;
+    this.buffer = '';
+    this.pendingCarriageReturn = '';
+
+    const event = this.parseBlock(rest);
+    return event ? [event] : [];
+  }
+
+  /**
+   * 1イベント分のテキストブロックをパースする
+   */
+  private parseBlock(block: string): AIStreamEvent | null {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+
+    if (!data) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(data);
+      if (event && typeof event.type === 'string') {
+        return event as AIStreamEvent;
+      }
+    } catch (error) {
+      console.warn('Failed to parse stream event:', error);
+    }
+
+    return null;
+  }
+}
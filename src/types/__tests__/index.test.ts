@@ -1,4 +1,4 @@
-import { AI_CONFIG, validateChatMessage, validateAIApiRequest, validateAIApiResponse, validateAppState, validateChatHistoryLimit, limitChatHistory } from '../index';
+import { AI_CONFIG, validateChatMessage, validateAIApiRequest, validateAIApiResponse, validateAppState, validateDocumentVersion } from '../index';
 import type { ChatMessage, AIApiRequest, AIApiResponse, AppState } from '../index';
 import * as fc from 'fast-check';
 
@@ -7,7 +7,7 @@ describe('TypeScript Interfaces', () => {
     it('should have correct configuration values', () => {
       expect(AI_CONFIG.temperature).toBe(0.3);
       expect(AI_CONFIG.maxTokens).toBe(2000);
-      expect(AI_CONFIG.contextLimit).toBe(3);
+      expect(AI_CONFIG.contextTokens).toBe(8000);
       expect(AI_CONFIG.timeout).toBe(30000);
     });
   });
@@ -75,15 +75,23 @@ describe('TypeScript Interfaces', () => {
   describe('AppState interface', () => {
     it('should accept valid AppState objects', () => {
       const state: AppState = {
+        workspaces: [{ id: 'default', name: '無題のドキュメント' }],
+        activeWorkspaceId: 'default',
         chatHistory: [{
           id: 'test-id',
           role: 'user',
           content: 'Test message',
           timestamp: new Date()
         }],
+        conversationSummary: null,
         currentCode: '# Hello World',
         isLoading: false,
-        error: null
+        error: null,
+        applyMode: 'direct',
+        pendingProposal: null,
+        codeHistory: { past: [], future: [], lastGroup: null, lastEditAt: 0 },
+        versions: [],
+        savedCode: ''
       };
 
       expect(state.chatHistory).toHaveLength(1);
@@ -114,6 +122,12 @@ describe('TypeScript Interfaces', () => {
         expect(validateChatMessage({ id: 'test', role: 'user', content: 123, timestamp: new Date() })).toBe(false);
         expect(validateChatMessage({ id: 'test', role: 'user', content: 'test', timestamp: 'invalid' })).toBe(false);
       });
+
+      it('should validate optional cancelled flag', () => {
+        const base = { id: 'test', role: 'assistant', content: 'partial', timestamp: new Date() };
+        expect(validateChatMessage({ ...base, cancelled: true })).toBe(true);
+        expect(validateChatMessage({ ...base, cancelled: 'yes' })).toBe(false);
+      });
     });
 
     describe('validateAIApiRequest', () => {
@@ -170,15 +184,23 @@ describe('TypeScript Interfaces', () => {
     describe('validateAppState', () => {
       it('should validate correct AppState', () => {
         const validState: AppState = {
+          workspaces: [{ id: 'default', name: '無題のドキュメント' }],
+          activeWorkspaceId: 'default',
           chatHistory: [{
             id: 'test-id',
             role: 'user',
             content: 'Hello',
             timestamp: new Date()
           }],
+          conversationSummary: null,
           currentCode: '# Hello World',
           isLoading: false,
-          error: null
+          error: null,
+          applyMode: 'review',
+          pendingProposal: { proposed: '# Proposed', messageId: 'assistant-1' },
+          codeHistory: { past: ['# Hello'], future: [], lastGroup: 'manual', lastEditAt: 1000 },
+          versions: [],
+          savedCode: ''
         };
         expect(validateAppState(validState)).toBe(true);
       });
@@ -191,91 +213,47 @@ describe('TypeScript Interfaces', () => {
         expect(validateAppState({ chatHistory: [], currentCode: 123, isLoading: false, error: null })).toBe(false);
         expect(validateAppState({ chatHistory: [], currentCode: '', isLoading: 'invalid', error: null })).toBe(false);
         expect(validateAppState({ chatHistory: [], currentCode: '', isLoading: false, error: 123 })).toBe(false);
-      });
-    });
-
-    describe('validateChatHistoryLimit', () => {
-      it('should validate chat history within limit', () => {
-        const messages: ChatMessage[] = [
-          { id: '1', role: 'user', content: 'Hello', timestamp: new Date() },
-          { id: '2', role: 'assistant', content: 'Hi', timestamp: new Date() }
-        ];
-        expect(validateChatHistoryLimit(messages)).toBe(true);
-      });
+        expect(validateAppState({ chatHistory: [], currentCode: '', isLoading: false, error: null, applyMode: 'auto', pendingProposal: null })).toBe(false);
+        expect(validateAppState({ chatHistory: [], currentCode: '', isLoading: false, error: null, applyMode: 'direct', pendingProposal: {} })).toBe(false);
 
-      it('should reject chat history exceeding limit', () => {
-        const messages: ChatMessage[] = Array.from({ length: 7 }, (_, i) => ({
-          id: `${i}`,
-          role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
-          content: `Message ${i}`,
-          timestamp: new Date()
-        }));
-        expect(validateChatHistoryLimit(messages)).toBe(false);
+        const workspaceState = {
+          chatHistory: [], conversationSummary: null, currentCode: '', isLoading: false, error: null, applyMode: 'direct', pendingProposal: null,
+          codeHistory: { past: [], future: [], lastGroup: null, lastEditAt: 0 }, versions: [], savedCode: ''
+        };
+        expect(validateAppState({ ...workspaceState, workspaces: [], activeWorkspaceId: 'default' })).toBe(false);
+        expect(validateAppState({ ...workspaceState, workspaces: [{ id: 'default', name: 'A' }], activeWorkspaceId: 'missing' })).toBe(false);
+        expect(validateAppState({
+          ...workspaceState,
+          workspaces: [{ id: 'default', name: 'A' }, { id: 'default', name: 'B' }],
+          activeWorkspaceId: 'default'
+        })).toBe(false);
+        expect(validateAppState({
+          ...workspaceState,
+          workspaces: [{ id: 'default', name: 'A' }],
+          activeWorkspaceId: 'default',
+          conversationSummary: { content: 'Summary', summarizedUntil: 'user-1', updatedAt: 'yesterday' }
+        })).toBe(false);
       });
     });
 
-    describe('limitChatHistory', () => {
-      it('should keep messages within limit unchanged', () => {
-        const messages: ChatMessage[] = [
-          { id: '1', role: 'user', content: 'Hello', timestamp: new Date() },
-          { id: '2', role: 'assistant', content: 'Hi', timestamp: new Date() }
-        ];
-        expect(limitChatHistory(messages)).toEqual(messages);
+    describe('validateDocumentVersion', () => {
+      it('should validate correct DocumentVersion', () => {
+        const version = { id: 'version-1', messageId: 'assistant-1', content: '# Doc', createdAt: new Date() };
+        expect(validateDocumentVersion(version)).toBe(true);
+        expect(validateDocumentVersion({ ...version, prompt: '見出しを追加' })).toBe(true);
       });
 
-      it('should trim messages exceeding limit', () => {
-        const messages: ChatMessage[] = Array.from({ length: 8 }, (_, i) => ({
-          id: `${i}`,
-          role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
-          content: `Message ${i}`,
-          timestamp: new Date()
-        }));
-        const limited = limitChatHistory(messages);
-        expect(limited).toHaveLength(6);
-        expect(limited[0].id).toBe('2'); // 最初の2つのメッセージが削除される
-        expect(limited[5].id).toBe('7');
+      it('should reject invalid DocumentVersion', () => {
+        expect(validateDocumentVersion(null)).toBe(false);
+        expect(validateDocumentVersion({ id: '', messageId: 'assistant-1', content: '', createdAt: new Date() })).toBe(false);
+        expect(validateDocumentVersion({ id: 'version-1', messageId: 'assistant-1', content: '', createdAt: '2024-01-01' })).toBe(false);
+        expect(validateDocumentVersion({ id: 'version-1', messageId: 'assistant-1', content: '', createdAt: new Date(), prompt: 1 })).toBe(false);
       });
     });
   });
 
   // fast-check property-based tests
   describe('Property-based tests with fast-check', () => {
-    /**
-     * **Feature: markdown-ai-canvas, Property 4: 履歴管理の制限遵守**
-     * **Validates: Requirements 1.4, 5.4**
-     */
-    it('should enforce chat history limit compliance', () => {
-      fc.assert(fc.property(
-        fc.array(fc.record({
-          id: fc.string({ minLength: 1 }),
-          role: fc.constantFrom('user', 'assistant'),
-          content: fc.string(),
-          timestamp: fc.date()
-        }), { minLength: 1, maxLength: 20 }), // Generate up to 20 messages to test limit enforcement
-        (messages) => {
-          // Test that limitChatHistory always returns at most 6 messages (3 turns)
-          const limitedMessages = limitChatHistory(messages);
-          expect(limitedMessages.length).toBeLessThanOrEqual(AI_CONFIG.contextLimit * 2);
-          
-          // Test that validateChatHistoryLimit correctly identifies when limit is exceeded
-          const isWithinLimit = validateChatHistoryLimit(messages);
-          const expectedWithinLimit = messages.length <= AI_CONFIG.contextLimit * 2;
-          expect(isWithinLimit).toBe(expectedWithinLimit);
-          
-          // Test that limited messages are always within limit
-          expect(validateChatHistoryLimit(limitedMessages)).toBe(true);
-          
-          // Test that if original was within limit, no messages are lost
-          if (messages.length <= AI_CONFIG.contextLimit * 2) {
-            expect(limitedMessages).toEqual(messages);
-          } else {
-            // Test that the most recent messages are kept
-            const expectedKept = messages.slice(-AI_CONFIG.contextLimit * 2);
-            expect(limitedMessages).toEqual(expectedKept);
-          }
-        }
-      ), { numRuns: 10 });
-    });
     it('should validate ChatMessage properties', () => {
       fc.assert(fc.property(
         fc.string({ minLength: 1 }),
@@ -331,7 +309,20 @@ describe('TypeScript Interfaces', () => {
         fc.boolean(),
         fc.option(fc.string()),
         (chatHistory, currentCode, isLoading, error) => {
-          const state: AppState = { chatHistory, currentCode, isLoading, error };
+          const state: AppState = {
+            workspaces: [{ id: 'default', name: '無題のドキュメント' }],
+            activeWorkspaceId: 'default',
+            chatHistory,
+            conversationSummary: null,
+            currentCode,
+            isLoading,
+            error,
+            applyMode: 'direct',
+            pendingProposal: null,
+            codeHistory: { past: [], future: [], lastGroup: null, lastEditAt: 0 },
+            versions: [],
+            savedCode: ''
+          };
           
           expect(Array.isArray(state.chatHistory)).toBe(true);
           expect(typeof state.currentCode).toBe('string');
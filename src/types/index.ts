@@ -8,10 +8,25 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  cancelled?: boolean; // 生成途中でキャンセルされた応答
+  applyRaw?: boolean; // 抽出した文書ではなく応答全体をエディターに反映した
+  selection?: EditorSelection; // 選択範囲の編集として反映した応答（元の選択範囲）
+}
+
+/**
+ * エディターの選択範囲（currentCode上の文字オフセット）
+ */
+export interface EditorSelection {
+  start: number;
+  end: number;
 }
 
 export interface AIApiRequest {
   messages: ChatMessage[];
+  document?: string; // 編集対象としてエディターの文書を送信する場合に指定
+  selection?: string; // 選択範囲のみを編集する場合の選択テキスト
+  historySummary?: string; // 送信しなかった古い会話の要約
+  systemPrompt?: string; // 設定のシステムプロンプトの代わりに使用する（要約の作成など）
   temperature: number;
   maxTokens: number;
 }
@@ -24,11 +39,102 @@ export interface AIApiResponse {
   };
 }
 
+/**
+ * ストリーミング応答のイベント（Server-Sent Events の data 部分）
+ */
+export type AIStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; usage?: AIApiResponse['usage'] }
+  | { type: 'error'; error: string; status?: number };
+
+/**
+ * AI応答の反映方法
+ * direct: そのままエディターに反映 / review: 差分を確認してから反映
+ */
+export type ApplyMode = 'direct' | 'review';
+
+/**
+ * 反映待ちのAI提案（差分確認モード）
+ */
+export interface DocumentProposal {
+  proposed: string; // 提案された文書全体
+  messageId?: string; // 提案元のアシスタントメッセージ
+  prompt?: string; // 提案のきっかけとなったプロンプト
+}
+
+/**
+ * AIが生成した文書のバージョン
+ * チャット履歴の件数制限とは独立して保持する
+ */
+export interface DocumentVersion {
+  id: string;
+  messageId: string; // 生成元のアシスタントメッセージ
+  content: string;
+  createdAt: Date;
+  prompt?: string; // 生成のきっかけとなったプロンプト
+}
+
+/**
+ * 文書の編集履歴（元に戻す／やり直す）
+ */
+export interface CodeHistory {
+  past: string[]; // 古い順
+  future: string[]; // 次にやり直す順
+  lastGroup: string | null; // 直前の編集のまとまり（同じまとまりの連続した編集は1件として記録）
+  lastEditAt: number;
+}
+
+/**
+ * 古い会話の要約（会話履歴より前に固定してAIに送信する）
+ * トークン数の上限から外れた会話をAIが要約し、ユーザーが編集することもできる
+ */
+export interface ConversationSummary {
+  content: string;
+  summarizedUntil: string; // 要約に含めた最後のメッセージID（以降のメッセージが会話履歴として送信される）
+  updatedAt: Date;
+}
+
+/**
+ * 文書と会話のまとまり（ワークスペース）
+ * 内容（チャット履歴・文書）は切り替え時にAppStateと入れ替える
+ */
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+}
+
+/**
+ * 再利用できるプロンプトのテンプレート
+ * チャットの入力欄で「/」に続けてコマンド名を入力すると挿入できる
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  command: string; // スラッシュコマンド名（英数字・ハイフン・アンダースコア）
+  content: string; // 挿入時に {{project}} {{date}} {{selection}} を置き換える
+}
+
+/**
+ * プロンプトのテンプレートと固定の指示（ブラウザーに保存し、JSONで書き出し・読み込みできる）
+ */
+export interface PromptLibrary {
+  templates: PromptTemplate[];
+  pinnedInstructions: string; // すべてのリクエストの先頭に付与する指示
+}
+
 export interface AppState {
+  workspaces: WorkspaceSummary[]; // 作成順
+  activeWorkspaceId: string;
   chatHistory: ChatMessage[];
+  conversationSummary: ConversationSummary | null;
   currentCode: string;
   isLoading: boolean;
   error: string | null;
+  applyMode: ApplyMode;
+  pendingProposal: DocumentProposal | null;
+  codeHistory: CodeHistory;
+  versions: DocumentVersion[]; // 古い順
+  savedCode: string; // 最後に保存または読み込んだ文書（未保存の変更の判定に使用）
 }
 
 /**
@@ -37,10 +143,64 @@ export interface AppState {
 export const AI_CONFIG = {
   temperature: 0.3,
   maxTokens: 2000,
-  contextLimit: 3, // ターン数
-  timeout: 30000 // 30秒
+  contextTokens: 8000, // 会話履歴に使うトークン数の既定値（モデルのコンテキスト長が小さい場合はそれに合わせる）
+  minContextTokens: 500, // 設定できるトークン数の下限
+  historySummaryTokens: 500, // 古い会話の要約に使うトークン数の上限
+  summaryRetainRatio: 0.5, // 要約する際に会話履歴として残す割合（上限に対する比率、要約の頻度を抑える）
+  documentContextLimit: 12000, // 選択範囲の編集でコンテキストとして送信する文書の最大文字数（文書全体の編集では省略しない）
+  timeout: 30000 // 30秒（ストリーミング時はチャンク間の無通信時間）
 } as const;
 
+/**
+ * Edit history configuration constants
+ */
+export const HISTORY_CONFIG = {
+  maxEntries: 100, // 保持する履歴の最大件数
+  maxTotalChars: 2_000_000, // 保持する履歴の合計文字数の上限
+  coalesceMs: 1000, // この時間内の連続した手動編集は1件にまとめる
+  maxVersions: 50 // 保持するAI生成バージョンの最大件数
+} as const;
+
+/**
+ * 最初から用意されているワークスペース
+ */
+export const DEFAULT_WORKSPACE: WorkspaceSummary = {
+  id: 'default',
+  name: '無題のドキュメント'
+};
+
+/**
+ * Persistence configuration constants
+ */
+export const PERSISTENCE_CONFIG = {
+  databaseName: 'markdown-ai-canvas',
+  storeName: 'appState',
+  saveDebounceMs: 500 // 最後の変更からこの時間が経過したら保存する
+} as const;
+
+/**
+ * デフォルトのシステムプロンプト
+ * 応答をそのままエディターに反映できるMarkdown文書に誘導する
+ */
+export const DEFAULT_SYSTEM_PROMPT = [
+  'あなたはMarkdown文書の作成・編集を支援するアシスタントです。',
+  '- 応答は完成したMarkdown文書のみとしてください。',
+  '- 「はい」「以下が〜です」などの前置きや、文書の後の補足説明は書かないでください。',
+  '- 既存の文書を修正する場合も、修正後の文書全体を出力してください。',
+  '- 特に指定がない限り、ユーザーと同じ言語で書いてください。'
+].join('\n');
+
+/**
+ * 古い会話の要約を作成・更新するためのシステムプロンプト
+ */
+export const SUMMARY_SYSTEM_PROMPT = [
+  'あなたは会話の要約を作成するアシスタントです。',
+  '- ユーザーとアシスタントの会話を、後の依頼で参照できるよう簡潔に要約してください。',
+  '- 書式・言語・文体などユーザーが指定した方針や指示は、省略せずに残してください。',
+  '- 既存の要約がある場合は、その内容を引き継いで更新してください。',
+  '- 要約のみを箇条書きで出力し、前置きや説明は書かないでください。'
+].join('\n');
+
 /**
  * Data validation functions
  */
@@ -56,7 +216,26 @@ export function validateChatMessage(message: any): message is ChatMessage {
     message.id.length > 0 &&
     (message.role === 'user' || message.role === 'assistant') &&
     typeof message.content === 'string' &&
-    message.timestamp instanceof Date
+    message.timestamp instanceof Date &&
+    !isNaN(message.timestamp.getTime()) &&
+    (message.cancelled === undefined || typeof message.cancelled === 'boolean') &&
+    (message.applyRaw === undefined || typeof message.applyRaw === 'boolean') &&
+    (message.selection === undefined || validateEditorSelection(message.selection))
+  );
+}
+
+/**
+ * EditorSelectionの検証
+ */
+export function validateEditorSelection(selection: unknown): selection is EditorSelection {
+  const candidate = selection as Partial<EditorSelection> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    Number.isInteger(candidate.start) &&
+    Number.isInteger(candidate.end) &&
+    candidate.start! >= 0 &&
+    candidate.start! <= candidate.end!
   );
 }
 
@@ -76,7 +255,11 @@ export function validateAIApiRequest(request: any): request is AIApiRequest {
     request.temperature <= 2 &&
     typeof request.maxTokens === 'number' &&
     Number.isInteger(request.maxTokens) &&
-    request.maxTokens > 0
+    request.maxTokens > 0 &&
+    (request.document === undefined || typeof request.document === 'string') &&
+    (request.selection === undefined || typeof request.selection === 'string') &&
+    (request.historySummary === undefined || typeof request.historySummary === 'string') &&
+    (request.systemPrompt === undefined || typeof request.systemPrompt === 'string')
   );
 }
 
@@ -112,28 +295,110 @@ export function validateAppState(state: any): state is AppState {
   return (
     typeof state === 'object' &&
     state !== null &&
+    Array.isArray(state.workspaces) &&
+    state.workspaces.length > 0 &&
+    state.workspaces.every(validateWorkspaceSummary) &&
+    new Set(state.workspaces.map((workspace: WorkspaceSummary) => workspace.id)).size === state.workspaces.length &&
+    state.workspaces.some((workspace: WorkspaceSummary) => workspace.id === state.activeWorkspaceId) &&
     Array.isArray(state.chatHistory) &&
     state.chatHistory.every(validateChatMessage) &&
+    (state.conversationSummary === null || validateConversationSummary(state.conversationSummary)) &&
     typeof state.currentCode === 'string' &&
     typeof state.isLoading === 'boolean' &&
-    (state.error === null || typeof state.error === 'string')
+    (state.error === null || typeof state.error === 'string') &&
+    (state.applyMode === 'direct' || state.applyMode === 'review') &&
+    (state.pendingProposal === null || (
+      typeof state.pendingProposal === 'object' &&
+      typeof state.pendingProposal.proposed === 'string'
+    )) &&
+    typeof state.codeHistory === 'object' &&
+    state.codeHistory !== null &&
+    Array.isArray(state.codeHistory.past) &&
+    state.codeHistory.past.every((entry: unknown) => typeof entry === 'string') &&
+    Array.isArray(state.codeHistory.future) &&
+    state.codeHistory.future.every((entry: unknown) => typeof entry === 'string') &&
+    Array.isArray(state.versions) &&
+    state.versions.every(validateDocumentVersion) &&
+    typeof state.savedCode === 'string'
+  );
+}
+
+/**
+ * ConversationSummaryの検証
+ */
+export function validateConversationSummary(summary: unknown): summary is ConversationSummary {
+  const candidate = summary as Partial<ConversationSummary> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.content === 'string' &&
+    typeof candidate.summarizedUntil === 'string' &&
+    candidate.updatedAt instanceof Date &&
+    !isNaN(candidate.updatedAt.getTime())
   );
 }
 
 /**
- * チャット履歴の制限チェック（要件1.4, 5.4対応）
+ * WorkspaceSummaryの検証
  */
-export function validateChatHistoryLimit(chatHistory: ChatMessage[]): boolean {
-  return chatHistory.length <= AI_CONFIG.contextLimit * 2; // 3ターン = 6メッセージ
+export function validateWorkspaceSummary(workspace: unknown): workspace is WorkspaceSummary {
+  const candidate = workspace as Partial<WorkspaceSummary> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.id === 'string' &&
+    candidate.id.length > 0 &&
+    typeof candidate.name === 'string' &&
+    candidate.name.trim().length > 0
+  );
 }
 
 /**
- * チャット履歴を制限内に収める
+ * PromptTemplateの検証
  */
-export function limitChatHistory(chatHistory: ChatMessage[]): ChatMessage[] {
-  const maxMessages = AI_CONFIG.contextLimit * 2; // 3ターン = 6メッセージ
-  if (chatHistory.length <= maxMessages) {
-    return chatHistory;
-  }
-  return chatHistory.slice(-maxMessages);
+export function validatePromptTemplate(template: unknown): template is PromptTemplate {
+  const candidate = template as Partial<PromptTemplate> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.id === 'string' &&
+    candidate.id.length > 0 &&
+    typeof candidate.name === 'string' &&
+    candidate.name.trim().length > 0 &&
+    typeof candidate.command === 'string' &&
+    /^[\w-]+$/.test(candidate.command) &&
+    typeof candidate.content === 'string'
+  );
+}
+
+/**
+ * PromptLibraryの検証（コマンド名の重複は認めない）
+ */
+export function validatePromptLibrary(library: unknown): library is PromptLibrary {
+  const candidate = library as Partial<PromptLibrary> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    Array.isArray(candidate.templates) &&
+    candidate.templates.every(validatePromptTemplate) &&
+    new Set(candidate.templates.map(template => template.command)).size === candidate.templates.length &&
+    typeof candidate.pinnedInstructions === 'string'
+  );
+}
+
+/**
+ * DocumentVersionの検証
+ */
+export function validateDocumentVersion(version: unknown): version is DocumentVersion {
+  const candidate = version as Partial<DocumentVersion> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.id === 'string' &&
+    candidate.id.length > 0 &&
+    typeof candidate.messageId === 'string' &&
+    typeof candidate.content === 'string' &&
+    candidate.createdAt instanceof Date &&
+    (candidate.prompt === undefined || typeof candidate.prompt === 'string')
+  );
 }
\ No newline at end of file
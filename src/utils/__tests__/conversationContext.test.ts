@@ -0,0 +1,131 @@
+/**
+ * Conversation context utility tests
+ * トークン数の上限による送信メッセージの選択と古い会話の要約のテスト
+ */
+
+import * as fc from 'fast-check';
+import {
+  createSummaryPrompt,
+  estimateMessageTokens,
+  estimateTokens,
+  getUnsummarizedMessages,
+  selectContextMessages,
+  summarizeOmittedMessages
+} from '../conversationContext';
+import { ChatMessage } from '../../types';
+
+const createMessage = (id: number, role: ChatMessage['role'], content: string): ChatMessage => ({
+  id: `${id}`,
+  role,
+  content,
+  timestamp: new Date(),
+});
+
+describe('conversationContext', () => {
+  describe('estimateTokens', () => {
+    it('should count wide characters individually and narrow characters in groups of four', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('abcde')).toBe(2);
+      expect(estimateTokens('見出し')).toBe(3);
+      expect(estimateTokens('見出し abc')).toBe(4);
+    });
+  });
+
+  describe('selectContextMessages', () => {
+    const history = Array.from({ length: 8 }, (_, i) =>
+      createMessage(i, i % 2 === 0 ? 'user' : 'assistant', 'x'.repeat(40))
+    );
+    const perMessage = estimateMessageTokens(history[0]);
+
+    it('should send the whole history when it fits', () => {
+      expect(selectContextMessages(history, perMessage * 8)).toEqual({ messages: history, omitted: [] });
+    });
+
+    it('should keep the newest messages and start the window with a user message', () => {
+      const { messages, omitted } = selectContextMessages(history, perMessage * 4);
+      expect(messages.map(message => message.id)).toEqual(['4', '5', '6', '7']);
+      expect(omitted).toHaveLength(4);
+
+      // 3件分の上限では先頭がアシスタントの応答になるため、2件に減らす
+      expect(selectContextMessages(history, perMessage * 3).messages.map(message => message.id)).toEqual(['6', '7']);
+    });
+
+    it('should always send the latest message even if it exceeds the budget', () => {
+      const long = [...history, createMessage(8, 'user', 'y'.repeat(10000))];
+      const { messages } = selectContextMessages(long, 100);
+      expect(messages.map(message => message.id)).toEqual(['8']);
+    });
+
+    it('should split the history into a suffix within the budget', () => {
+      fc.assert(fc.property(
+        fc.array(fc.record({
+          role: fc.constantFrom<ChatMessage['role']>('user', 'assistant'),
+          content: fc.string({ maxLength: 200 }),
+        }), { minLength: 1, maxLength: 20 }),
+        fc.integer({ min: 1, max: 500 }),
+        (records, maxTokens) => {
+          const messages = records.map((record, i) => createMessage(i, record.role, record.content));
+          const selection = selectContextMessages(messages, maxTokens);
+
+          expect([...selection.omitted, ...selection.messages]).toEqual(messages);
+          expect(selection.messages[selection.messages.length - 1]).toBe(messages[messages.length - 1]);
+          if (selection.messages.length > 1) {
+            expect(selection.messages[0].role).toBe('user');
+            const total = selection.messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+            expect(total).toBeLessThanOrEqual(maxTokens);
+          }
+        }
+      ), { numRuns: 20 });
+    });
+  });
+
+  describe('summarizeOmittedMessages', () => {
+    it('should list user requests and skip assistant replies', () => {
+      const omitted = [
+        createMessage(0, 'user', '見出しは日本語で\n書いてください'),
+        createMessage(1, 'assistant', '# 見出し'),
+        createMessage(2, 'user', 'Add a table'),
+      ];
+      expect(summarizeOmittedMessages(omitted, 100)).toBe('- 見出しは日本語で 書いてください\n- Add a table');
+    });
+
+    it('should keep the newest requests within the budget', () => {
+      const omitted = [
+        createMessage(0, 'user', 'a'.repeat(400)),
+        createMessage(1, 'user', 'Use ja-JP headings'),
+      ];
+      const summary = summarizeOmittedMessages(omitted, 10);
+      expect(summary).toBe('- Use ja-JP headings');
+    });
+
+    it('should return undefined when there is nothing to summarize', () => {
+      expect(summarizeOmittedMessages([], 100)).toBeUndefined();
+      expect(summarizeOmittedMessages([createMessage(0, 'assistant', 'Reply')], 100)).toBeUndefined();
+    });
+  });
+
+  describe('rolling summary', () => {
+    const history = [
+      createMessage(0, 'user', 'Use ja-JP headings'),
+      createMessage(1, 'assistant', '# 見出し\n\n' + 'x'.repeat(2000)),
+      createMessage(2, 'user', 'Add a table'),
+    ];
+
+    it('should return the messages after the summarized one', () => {
+      const summary = { content: '- Use ja-JP headings', summarizedUntil: '1', updatedAt: new Date() };
+      expect(getUnsummarizedMessages(history, summary)).toEqual([history[2]]);
+      expect(getUnsummarizedMessages(history, null)).toEqual(history);
+      expect(getUnsummarizedMessages(history, { ...summary, summarizedUntil: 'missing' })).toEqual(history);
+    });
+
+    it('should build a prompt carrying over the previous summary', () => {
+      const prompt = createSummaryPrompt('- 敬体で書く', history.slice(0, 2));
+      expect(prompt).toContain('<summary>\n- 敬体で書く\n</summary>');
+      expect(prompt).toContain('ユーザー: Use ja-JP headings');
+      expect(prompt).toContain('アシスタント: # 見出し');
+      expect(prompt).toContain('…（以下省略）');
+      expect(createSummaryPrompt(undefined, history)).not.toContain('<summary>');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Document Context Utility Tests
+ * 文書コンテキストの省略処理のテスト
+ */
+
+import * as fc from 'fast-check';
+import { truncateDocument } from '../documentContext';
+
+describe('truncateDocument', () => {
+  it('should return short documents unchanged', () => {
+    expect(truncateDocument('# Title\n\nBody', 100)).toBe('# Title\n\nBody');
+  });
+
+  it('should keep the beginning and end of long documents', () => {
+    const document = 'A'.repeat(500) + 'B'.repeat(500);
+    const truncated = truncateDocument(document, 200);
+
+    expect(truncated.startsWith('A')).toBe(true);
+    expect(truncated.endsWith('B')).toBe(true);
+    expect(truncated).toContain('中略');
+  });
+
+  it('should never exceed the limit', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ maxLength: 2000 }),
+        fc.integer({ min: 100, max: 1000 }),
+        (document, maxChars) => {
+          expect(truncateDocument(document, maxChars).length).toBeLessThanOrEqual(maxChars);
+        }
+      )
+    );
+  });
+});
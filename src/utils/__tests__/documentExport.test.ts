@@ -0,0 +1,111 @@
+/**
+ * Document Export Utility Tests
+ * HTML・PDF・DOCX出力のテスト
+ */
+
+import { buildStandaloneHtml, exportHtmlFile, getDocumentTitle } from '../documentExport';
+
+describe('documentExport', () => {
+  describe('getDocumentTitle', () => {
+    it('should use the first heading', () => {
+      expect(getDocumentTitle('intro\n\n## Design Doc ##\n\n# Later')).toBe('Design Doc');
+    });
+
+    it('should fall back to the default title', () => {
+      expect(getDocumentTitle('no headings')).toBe('Markdown Document');
+    });
+  });
+
+  describe('buildStandaloneHtml', () => {
+    it('should embed the styles and the sanitized body', async () => {
+      const html = await buildStandaloneHtml('# A <b>&</b> B\n\n<script>alert(1)</script>\n\nText');
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<title>A &lt;b&gt;&amp;&lt;/b&gt; B</title>');
+      expect(html).toContain('<style>');
+      expect(html).toContain('<article class="markdown-body">');
+      expect(html).toContain('<p>Text</p>');
+      expect(html).not.toContain('<script');
+    });
+
+    describe('math', () => {
+      const originalFetch = global.fetch;
+      let style: HTMLStyleElement;
+
+      beforeEach(() => {
+        // ページに読み込まれているkatex.min.cssの代わり
+        style = document.createElement('style');
+        style.textContent = [
+          '@font-face { font-family: KaTeX_Main; src: url(fonts/KaTeX_Main-Regular.woff2) format("woff2"), url(fonts/KaTeX_Main-Regular.woff) format("woff"); }',
+          '.katex { font: normal 1.21em KaTeX_Main, Times New Roman, serif; }',
+          '.unrelated { color: red; }',
+        ].join('\n');
+        document.head.appendChild(style);
+      });
+
+      afterEach(() => {
+        style.remove();
+        global.fetch = originalFetch;
+      });
+
+      it('should embed the KaTeX styles and fonts instead of linking a CDN', async () => {
+        global.fetch = jest.fn(async () => ({ ok: true, blob: async () => new Blob(['font'], { type: 'font/woff2' }) })) as unknown as typeof fetch;
+
+        const html = await buildStandaloneHtml('$x^2$');
+
+        expect(global.fetch).toHaveBeenCalledWith(new URL('fonts/KaTeX_Main-Regular.woff2', document.baseURI).href);
+        expect(html).not.toContain('<link');
+        expect(html).toContain('.katex {');
+        expect(html).toContain(`url("data:font/woff2;base64,${btoa('font')}") format("woff2")`);
+        expect(html).not.toContain('.unrelated');
+      });
+
+      it('should keep the page URL of fonts that cannot be fetched', async () => {
+        global.fetch = jest.fn(async () => ({ ok: false, status: 404 })) as unknown as typeof fetch;
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const html = await buildStandaloneHtml('$x^2$');
+
+        expect(html).toContain(`url("${new URL('fonts/KaTeX_Main-Regular.woff2', document.baseURI).href}") format("woff2")`);
+        jest.restoreAllMocks();
+      });
+
+      it('should not embed the KaTeX styles without math', async () => {
+        global.fetch = jest.fn() as unknown as typeof fetch;
+
+        const html = await buildStandaloneHtml('# Plain');
+
+        expect(html).not.toContain('.katex {');
+        expect(global.fetch).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('exportHtmlFile', () => {
+    const originalCreateObjectURL = URL.createObjectURL;
+    const originalRevokeObjectURL = URL.revokeObjectURL;
+
+    beforeEach(() => {
+      URL.createObjectURL = jest.fn(() => 'blob:export');
+      URL.revokeObjectURL = jest.fn();
+    });
+
+    afterEach(() => {
+      URL.createObjectURL = originalCreateObjectURL;
+      URL.revokeObjectURL = originalRevokeObjectURL;
+    });
+
+    it('should download an HTML file with a timestamped name', async () => {
+      const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toMatch(/^markdown_\d{8}_\d{6}\.html$/);
+      });
+
+      await expect(exportHtmlFile('# Doc')).resolves.toBe(true);
+
+      const blob = (URL.createObjectURL as jest.Mock).mock.calls[0][0] as Blob;
+      expect(blob.type).toBe('text/html;charset=utf-8');
+      expect(click).toHaveBeenCalledTimes(1);
+      click.mockRestore();
+    });
+  });
+});
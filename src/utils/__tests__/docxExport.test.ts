@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * DOCX Export Utility Tests
+ * Markdown文書からWord文書への変換のテスト
+ */
+
+import { Packer } from 'docx';
+import JSZip from 'jszip';
+import { createDocxDocument } from '../docxExport';
+
+/**
+ * 変換したWord文書の本文と脚注のXMLを取得する
+ */
+async function convertToXml(markdown: string): Promise<{ document: string; footnotes: string }> {
+  const buffer = await Packer.toBuffer(createDocxDocument(markdown, 'Test'));
+  const zip = await JSZip.loadAsync(buffer);
+  return {
+    document: await zip.file('word/document.xml')!.async('string'),
+    footnotes: await zip.file('word/footnotes.xml')?.async('string') ?? '',
+  };
+}
+
+describe('createDocxDocument', () => {
+  it('should convert headings and inline formatting', async () => {
+    const { document } = await convertToXml('# Title\n\nSome **bold** and *italic* and `code`.');
+
+    expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(document).toMatch(/<w:b\/>.*?<w:t[^>]*>bold<\/w:t>/);
+    expect(document).toMatch(/<w:i\/>.*?<w:t[^>]*>italic<\/w:t>/);
+    expect(document).toMatch(/w:ascii="Consolas".*?<w:t[^>]*>code<\/w:t>/);
+  });
+
+  it('should convert lists, tables and code blocks', async () => {
+    const { document } = await convertToXml(
+      '1. first\n2. second\n\n- [x] done\n\n| A | B |\n| - | - |\n| 1 | 2 |\n\n```\nline 1\nline 2\n```'
+    );
+
+    expect(document.match(/<w:numPr>/g)).toHaveLength(3);
+    expect(document).toContain('☑ ');
+    expect(document.match(/<w:tc>/g)).toHaveLength(4);
+    expect(document).toMatch(/line 1<\/w:t>.*?<w:br\/>.*?line 2/);
+  });
+
+  it('should convert footnotes to Word footnotes', async () => {
+    const { document, footnotes } = await convertToXml('Text[^note]\n\n[^note]: The note');
+
+    expect(document).toContain('<w:footnoteReference w:id="1"/>');
+    expect(footnotes).toContain('The note');
+  });
+
+  it('should keep links as hyperlinks', async () => {
+    const { document } = await convertToXml('[site](https://example.com)');
+
+    expect(document).toMatch(/<w:hyperlink [^>]*>.*?site<\/w:t>/);
+  });
+});
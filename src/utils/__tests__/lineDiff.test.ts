@@ -0,0 +1,51 @@
+/**
+ * Line Diff Utility Tests
+ * 行単位の差分計算とハンク適用のテスト
+ */
+
+import * as fc from 'fast-check';
+import { applyDiffHunks, diffLines, getHunkIds } from '../lineDiff';
+
+describe('lineDiff', () => {
+  it('should report no hunks for identical documents', () => {
+    const segments = diffLines('# A\nB', '# A\nB');
+
+    expect(segments).toEqual([{ type: 'equal', lines: ['# A', 'B'] }]);
+    expect(getHunkIds(segments)).toEqual([]);
+  });
+
+  it('should group consecutive changes into hunks', () => {
+    const segments = diffLines('# Title\nold 1\nold 2\nkeep\nend', '# Title\nnew 1\nkeep\nend\nadded');
+
+    expect(segments).toEqual([
+      { type: 'equal', lines: ['# Title'] },
+      { type: 'change', id: 0, removed: ['old 1', 'old 2'], added: ['new 1'] },
+      { type: 'equal', lines: ['keep', 'end'] },
+      { type: 'change', id: 1, removed: [], added: ['added'] },
+    ]);
+  });
+
+  it('should apply only the accepted hunks', () => {
+    const original = 'a\nb\nc\nd';
+    const proposed = 'a\nB\nc\nD';
+    const segments = diffLines(original, proposed);
+
+    expect(applyDiffHunks(segments, [])).toBe(original);
+    expect(applyDiffHunks(segments, getHunkIds(segments))).toBe(proposed);
+    expect(applyDiffHunks(segments, [0])).toBe('a\nB\nc\nd');
+    expect(applyDiffHunks(segments, [1])).toBe('a\nb\nc\nD');
+  });
+
+  it('should reproduce both documents for any input', () => {
+    const doc = fc.array(fc.constantFrom('a', 'b', 'c', '', '# h'), { maxLength: 20 }).map(lines => lines.join('\n'));
+
+    fc.assert(
+      fc.property(doc, doc, (original, proposed) => {
+        const segments = diffLines(original, proposed);
+
+        expect(applyDiffHunks(segments, [])).toBe(original);
+        expect(applyDiffHunks(segments, getHunkIds(segments))).toBe(proposed);
+      })
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Markdown Import Utility Tests
+ * HTML・DOCXからMarkdownへの変換のテスト
+ */
+
+import { Packer } from 'docx';
+import { createDocxDocument } from '../docxExport';
+import { docxToMarkdown, htmlToMarkdown, importFileAsMarkdown, isRichHtml } from '../markdownImport';
+
+// アプリと同じブラウザ向けビルドを使う（Node向けビルドはArrayBufferを受け付けない）
+jest.mock('mammoth', () => jest.requireActual('mammoth/mammoth.browser.js'));
+
+describe('markdownImport', () => {
+  describe('isRichHtml', () => {
+    it('should detect structured HTML but not syntax-highlighted code', () => {
+      expect(isRichHtml('<h1>Title</h1><p>Text</p>')).toBe(true);
+      expect(isRichHtml('<div style="color: #d4d4d4;"><div><span style="color: #569cd6;">const</span></div></div>')).toBe(false);
+    });
+  });
+
+  describe('htmlToMarkdown', () => {
+    it('should convert headings, formatting, lists and links', () => {
+      const markdown = htmlToMarkdown(
+        '<h2>Title</h2><p>Some <strong>bold</strong>, <em>italic</em> and <del>old</del> text with a <a href="https://example.com">link</a>.</p>' +
+        '<ul><li>One</li><li>Two</li></ul><ol><li>First</li></ol>'
+      );
+
+      expect(markdown).toBe(
+        '## Title\n\nSome **bold**, *italic* and ~~old~~ text with a [link](https://example.com).\n\n' +
+        '- One\n- Two\n\n1. First'
+      );
+    });
+
+    it('should convert tables to GFM tables', () => {
+      const markdown = htmlToMarkdown(
+        '<table><tbody><tr><td><p>Name</p></td><td>Note</td></tr><tr><td>a|b</td><td></td></tr></tbody></table>'
+      );
+
+      expect(markdown).toBe('| Name | Note |\n| --- | --- |\n| a\\|b |  |');
+    });
+
+    it('should clean up Word and Google Docs markup', () => {
+      const word =
+        '<p class="MsoListParagraphCxSpFirst" style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">·<span>&nbsp;</span></span>Item<o:p></o:p></p>' +
+        '<p class="MsoListParagraphCxSpLast" style="mso-list:l0 level2 lfo1"><span style="mso-list:Ignore">1.<span>&nbsp;</span></span>Nested</p>' +
+        '<p class="MsoNormal">After<o:p>&nbsp;</o:p></p>';
+      expect(htmlToMarkdown(word)).toBe('- Item\n    1. Nested\n\nAfter');
+
+      const googleDocs =
+        '<b style="font-weight:normal;" id="docs-internal-guid-1"><p><span style="font-weight:700;">Bold</span> and <span style="font-style:italic;">italic</span></p></b>';
+      expect(htmlToMarkdown(googleDocs)).toBe('**Bold** and *italic*');
+    });
+
+    it('should drop embedded images but keep their alt text', () => {
+      expect(htmlToMarkdown('<p><img src="data:image/png;base64,AAAA" alt="Chart"></p>')).toBe('[画像: Chart]');
+      expect(htmlToMarkdown('<p><img src="https://example.com/a.png" alt="A"></p>')).toBe('![A](https://example.com/a.png)');
+    });
+  });
+
+  describe('docxToMarkdown', () => {
+    it('should convert a Word document to Markdown', async () => {
+      const document = createDocxDocument(
+        '# Report\n\nText with **bold** and a note[^1].\n\n| A | B |\n| - | - |\n| 1 | 2 |\n\n[^1]: Footnote text',
+        'Report'
+      );
+      const buffer = await Packer.toBuffer(document);
+
+      const markdown = await docxToMarkdown(new Uint8Array(buffer).buffer);
+
+      expect(markdown).toContain('# Report');
+      expect(markdown).toContain('Text with **bold** and a note[^1].');
+      expect(markdown).toContain('| A | B |\n| --- | --- |\n| 1 | 2 |');
+      expect(markdown).toContain('[^1]: Footnote text');
+    });
+  });
+
+  describe('importFileAsMarkdown', () => {
+    it('should import HTML files and reject other formats', async () => {
+      const html = new File(['<h1>Page</h1><p>Body</p>'], 'page.html', { type: 'text/html' });
+      await expect(importFileAsMarkdown(html)).resolves.toBe('# Page\n\nBody');
+
+      await expect(importFileAsMarkdown(new File(['x'], 'notes.md'))).rejects.toThrow('対応していないファイル形式です');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Markdown Payload Utility Tests
+ * AI応答からの文書抽出のテスト
+ */
+
+import * as fc from 'fast-check';
+import { extractMarkdownPayload, isAwaitingDocumentStart } from '../markdownPayload';
+
+describe('extractMarkdownPayload', () => {
+  it('should return the whole reply when nothing is marked as a document', () => {
+    const reply = '# Title\n\nBody text';
+
+    expect(extractMarkdownPayload(reply)).toEqual({
+      document: reply,
+      explanation: '',
+      extracted: false,
+    });
+  });
+
+  it('should extract a fenced markdown block and keep the surrounding prose', () => {
+    const reply = [
+      "Sure! Here's the README:",
+      '',
+      '```markdown',
+      '# README',
+      '',
+      'Usage',
+      '```',
+      '',
+      'Let me know if you need changes.',
+    ].join('\n');
+
+    expect(extractMarkdownPayload(reply)).toEqual({
+      document: '# README\n\nUsage',
+      explanation: "Sure! Here's the README:\n\nLet me know if you need changes.",
+      extracted: true,
+    });
+  });
+
+  it('should accept md fences and tilde fences', () => {
+    expect(extractMarkdownPayload('```md\n# A\n```').document).toBe('# A');
+    expect(extractMarkdownPayload('~~~markdown\n# B\n~~~').document).toBe('# B');
+  });
+
+  it('should keep nested code blocks inside the document', () => {
+    const reply = [
+      '```markdown',
+      '# Setup',
+      '```bash',
+      'npm install',
+      '```',
+      'Done.',
+      '```',
+      'Explanation after.',
+    ].join('\n');
+
+    const payload = extractMarkdownPayload(reply);
+
+    expect(payload.document).toBe('# Setup\n```bash\nnpm install\n```\nDone.');
+    expect(payload.explanation).toBe('Explanation after.');
+  });
+
+  it('should not treat code fences of other languages as the document', () => {
+    const reply = 'Example:\n\n```js\nconsole.log(1);\n```';
+
+    expect(extractMarkdownPayload(reply).extracted).toBe(false);
+  });
+
+  it('should extract an unterminated fence while streaming', () => {
+    const payload = extractMarkdownPayload('Here you go:\n```markdown\n# Partial\n- item');
+
+    expect(payload).toEqual({
+      document: '# Partial\n- item',
+      explanation: 'Here you go:',
+      extracted: true,
+    });
+  });
+
+  it('should prefer a designated document section', () => {
+    const reply = 'Notes first.\n<document>\n# Doc\n```markdown\nsample\n```\n</document>\nThanks!';
+
+    expect(extractMarkdownPayload(reply)).toEqual({
+      document: '# Doc\n```markdown\nsample\n```',
+      explanation: 'Notes first.\n\nThanks!',
+      extracted: true,
+    });
+  });
+
+  it('should round-trip any document wrapped in a markdown fence', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.stringMatching(/^[^`~\n]*$/), { minLength: 1, maxLength: 10 }),
+        (lines) => {
+          const document = lines.join('\n').replace(/^\s*\n/, '').replace(/\s+$/, '');
+          const payload = extractMarkdownPayload(`Intro\n\n\`\`\`markdown\n${document}\n\`\`\`\n`);
+
+          expect(payload.document).toBe(document);
+          expect(payload.explanation).toBe('Intro');
+        }
+      )
+    );
+  });
+});
+
+describe('isAwaitingDocumentStart', () => {
+  it('should wait until the first line is complete', () => {
+    expect(isAwaitingDocumentStart('')).toBe(true);
+    expect(isAwaitingDocumentStart('# Tit')).toBe(true);
+    expect(isAwaitingDocumentStart('\n\n# Tit')).toBe(true);
+  });
+
+  it('should start once the first line is a Markdown block', () => {
+    expect(isAwaitingDocumentStart('# Title\n')).toBe(false);
+    expect(isAwaitingDocumentStart('\r\n- item\r\nmore')).toBe(false);
+    expect(isAwaitingDocumentStart('| a | b |\n')).toBe(false);
+    expect(isAwaitingDocumentStart('---\ntitle: x')).toBe(false);
+  });
+
+  it('should keep waiting while the first line may be a preamble', () => {
+    expect(isAwaitingDocumentStart('Sure, here it is:\n')).toBe(true);
+    expect(isAwaitingDocumentStart('以下が修正後の文書です。\n\n# Title')).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Markdown Renderer Utility Tests
+ * プレビュー用のMarkdown変換とサニタイズのテスト
+ */
+
+import { renderMarkdown, SOURCE_LINE_ATTRIBUTE } from '../markdownRenderer';
+
+/**
+ * 変換結果をDOMとして取得する
+ */
+function renderToElement(markdown: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(markdown);
+  return container;
+}
+
+describe('renderMarkdown', () => {
+  it('should render GFM tables and task lists', () => {
+    const element = renderToElement('| A | B |\n| - | - |\n| 1 | 2 |\n\n- [x] done\n- [ ] todo');
+
+    expect(element.querySelectorAll('table td')).toHaveLength(2);
+    const checkboxes = element.querySelectorAll<HTMLInputElement>('input[type="checkbox"]');
+    expect(checkboxes).toHaveLength(2);
+    expect(checkboxes[0].checked).toBe(true);
+  });
+
+  it('should highlight fenced code blocks', () => {
+    const element = renderToElement('```js\nconst a = 1;\n```');
+
+    const code = element.querySelector('pre code');
+    expect(code).toHaveClass('hljs', 'language-js');
+    expect(code?.querySelector('.hljs-keyword')?.textContent).toBe('const');
+  });
+
+  it('should render footnotes after the content', () => {
+    const element = renderToElement('Text[^1]\n\n[^1]: Note\n\n## After');
+
+    expect(element.querySelector('sup a')?.getAttribute('href')).toBe('#footnote-1');
+    expect(element.lastElementChild?.tagName).toBe('SECTION');
+    expect(element.querySelector('#footnote-1')?.textContent).toContain('Note');
+  });
+
+  it('should remove scripts and event handlers', () => {
+    const html = renderMarkdown(
+      '<script>alert(1)</script>\n\n<img src="x" onerror="alert(1)">\n\n[link](javascript:alert(1))\n\n<style>body{display:none}</style>'
+    );
+
+    expect(html).not.toMatch(/<script|onerror|javascript:|<style/i);
+  });
+
+  it('should open external links in a new tab', () => {
+    const element = renderToElement('[site](https://example.com) [anchor](#top)');
+    const [external, anchor] = Array.from(element.querySelectorAll('a'));
+
+    expect(external).toHaveAttribute('target', '_blank');
+    expect(external).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(anchor).not.toHaveAttribute('target');
+  });
+
+  it('should mark the source line of each top-level block', () => {
+    const element = renderToElement('# Title\n\nParagraph\nwith two lines\n\n- item');
+    const lines = Array.from(element.querySelectorAll(`[${SOURCE_LINE_ATTRIBUTE}]`))
+      .map(anchor => anchor.getAttribute(SOURCE_LINE_ATTRIBUTE));
+
+    expect(lines).toEqual(['0', '2', '5']);
+  });
+
+  it('should render inline and block math with KaTeX', () => {
+    const element = renderToElement('Euler: $e^{i\\pi} + 1 = 0$\n\n$$\n\\int_0^1 x\\,dx\n$$');
+
+    expect(element.querySelectorAll('.katex')).toHaveLength(2);
+    expect(element.querySelector('.katex-display')).not.toBeNull();
+  });
+
+  it('should not treat currency amounts as math', () => {
+    const element = renderToElement('It costs $5 and $10.');
+
+    expect(element.querySelector('.katex')).toBeNull();
+    expect(element.textContent).toContain('$5 and $10');
+  });
+
+  it('should show math errors inline without breaking other content', () => {
+    const element = renderToElement('Bad $\\frac{1$ formula\n\n## Next');
+
+    const error = element.querySelector('.math-error');
+    expect(error?.querySelector('code')?.textContent).toBe('$\\frac{1$');
+    expect(error?.querySelector('.render-error')?.textContent).toContain('数式エラー');
+    expect(element.querySelector('h2')?.textContent).toBe('Next');
+  });
+
+  it('should return an empty string for an empty document', () => {
+    expect(renderMarkdown('  \n')).toBe('');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Mermaid Renderer Utility Tests
+ * mermaidコードブロックの図への置き換えのテスト
+ */
+
+import { MermaidCache, renderMermaidDiagrams } from '../mermaidRenderer';
+
+const mockRender = jest.fn();
+
+jest.mock('mermaid', () => ({
+  __esModule: true,
+  default: {
+    initialize: jest.fn(),
+    render: (...args: unknown[]) => mockRender(...args),
+  },
+}));
+
+/**
+ * mermaidのコードブロックを含むコンテナを作成する
+ */
+function createContainer(...sources: string[]): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = sources
+    .map(source => `<pre><code class="hljs language-mermaid">${source}</code></pre>`)
+    .join('<p>text</p>');
+  document.body.appendChild(container);
+  return container;
+}
+
+describe('renderMermaidDiagrams', () => {
+  beforeEach(() => {
+    mockRender.mockReset();
+    document.body.innerHTML = '';
+  });
+
+  it('should replace mermaid blocks with SVG diagrams', async () => {
+    mockRender.mockResolvedValue({ svg: '<svg data-testid="diagram"></svg>' });
+    const container = createContainer('graph TD; A--&gt;B');
+
+    await renderMermaidDiagrams(container, new Map());
+
+    expect(mockRender).toHaveBeenCalledWith(expect.any(String), 'graph TD; A-->B');
+    expect(container.querySelector('pre')).toBeNull();
+    expect(container.querySelector('.mermaid-diagram svg')).not.toBeNull();
+  });
+
+  it('should show the error next to the failing block only', async () => {
+    mockRender
+      .mockRejectedValueOnce(new Error('Parse error on line 1'))
+      .mockResolvedValueOnce({ svg: '<svg></svg>' });
+    const container = createContainer('graph ???', 'graph TD; A');
+
+    await renderMermaidDiagrams(container, new Map());
+
+    const failed = container.querySelector('pre');
+    expect(failed?.textContent).toBe('graph ???');
+    expect(failed?.nextElementSibling).toHaveClass('render-error');
+    expect(failed?.nextElementSibling?.textContent).toContain('Parse error on line 1');
+    expect(container.querySelectorAll('.mermaid-diagram')).toHaveLength(1);
+  });
+
+  it('should reuse cached results for unchanged diagrams', async () => {
+    mockRender.mockResolvedValue({ svg: '<svg></svg>' });
+    const cache: MermaidCache = new Map();
+
+    await renderMermaidDiagrams(createContainer('graph TD; A'), cache);
+    await renderMermaidDiagrams(createContainer('graph TD; A'), cache);
+
+    expect(mockRender).toHaveBeenCalledTimes(1);
+    expect(document.querySelectorAll('.mermaid-diagram')).toHaveLength(2);
+  });
+});
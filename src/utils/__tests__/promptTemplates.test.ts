@@ -0,0 +1,115 @@
+/**
+ * Prompt template utility tests
+ * テンプレートの変数の展開・スラッシュコマンドの検出・保存と書き出し・読み込みのテスト
+ */
+
+import {
+  DEFAULT_PROMPT_LIBRARY,
+  PROMPT_LIBRARY_STORAGE_KEY,
+  expandTemplate,
+  exportPromptLibrary,
+  filterTemplates,
+  findSlashCommand,
+  formatTemplateDate,
+  getTemplatesError,
+  loadPromptLibrary,
+  parsePromptLibrary,
+  savePromptLibrary
+} from '../promptTemplates';
+import { PromptLibrary, PromptTemplate } from '../../types';
+
+const createTemplate = (command: string, name = command): PromptTemplate => ({
+  id: `template-${command}`,
+  name,
+  command,
+  content: `${name}の内容`,
+});
+
+describe('promptTemplates', () => {
+  describe('expandTemplate', () => {
+    it('should replace known variables and keep unknown ones', () => {
+      const content = '{{ project }} の議事録（{{date}}）\n{{selection}}\n{{author}}';
+      expect(expandTemplate(content, { project: 'Canvas', date: '2025-01-01', selection: '- 決定事項' }))
+        .toBe('Canvas の議事録（2025-01-01）\n- 決定事項\n{{author}}');
+      expect(expandTemplate('{{selection}}', { selection: '' })).toBe('');
+    });
+
+    it('should format the date variable', () => {
+      expect(formatTemplateDate(new Date(2025, 0, 5))).toBe('2025-01-05');
+    });
+  });
+
+  describe('findSlashCommand', () => {
+    it('should find a command at the start of a line or after a space', () => {
+      expect(findSlashCommand('/rea', 4)).toEqual({ start: 0, query: 'rea' });
+      expect(findSlashCommand('READMEを /', 9)).toEqual({ start: 8, query: '' });
+      expect(findSlashCommand('前置き\n/minutes 続き', 12)).toEqual({ start: 4, query: 'minutes' });
+    });
+
+    it('should ignore slashes inside words and text after the caret', () => {
+      expect(findSlashCommand('docs/readme', 11)).toBeNull();
+      expect(findSlashCommand('/readme と', 10)).toBeNull();
+      expect(findSlashCommand('/readme', 0)).toBeNull();
+    });
+  });
+
+  describe('filterTemplates', () => {
+    it('should list command prefix matches before name matches', () => {
+      const templates = [createTemplate('minutes', '議事録'), createTemplate('readme', 'README'), createTemplate('meeting', '定例 readme')];
+      expect(filterTemplates(templates, 're').map(template => template.command)).toEqual(['readme', 'meeting']);
+      expect(filterTemplates(templates, '').map(template => template.command)).toEqual(['minutes', 'readme', 'meeting']);
+      expect(filterTemplates(templates, '議事')).toEqual([templates[0]]);
+    });
+  });
+
+  describe('getTemplatesError', () => {
+    it('should report empty names, invalid commands and duplicates', () => {
+      expect(getTemplatesError([createTemplate('readme')])).toBeNull();
+      expect(getTemplatesError([createTemplate('readme', ' ')])).toBe('テンプレートの名前を入力してください');
+      expect(getTemplatesError([createTemplate('read me', 'README')])).toContain('「README」のコマンド名');
+      expect(getTemplatesError([createTemplate('readme'), createTemplate('readme', 'README 2')]))
+        .toBe('コマンド名「/readme」が重複しています');
+    });
+  });
+
+  describe('storage', () => {
+    afterEach(() => {
+      localStorage.removeItem(PROMPT_LIBRARY_STORAGE_KEY);
+    });
+
+    it('should load the defaults when nothing valid is saved', () => {
+      expect(loadPromptLibrary()).toEqual(DEFAULT_PROMPT_LIBRARY);
+
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem(PROMPT_LIBRARY_STORAGE_KEY, '{"templates": "x"}');
+      expect(loadPromptLibrary()).toEqual(DEFAULT_PROMPT_LIBRARY);
+    });
+
+    it('should save and load the library', () => {
+      const library: PromptLibrary = { templates: [createTemplate('readme')], pinnedInstructions: '敬体で書く' };
+      savePromptLibrary(library);
+      expect(loadPromptLibrary()).toEqual(library);
+    });
+  });
+
+  describe('import and export', () => {
+    const library: PromptLibrary = { templates: [createTemplate('readme', 'README')], pinnedInstructions: '敬体で書く' };
+
+    it('should round-trip the exported JSON', () => {
+      expect(parsePromptLibrary(exportPromptLibrary(library))).toEqual(library);
+    });
+
+    it('should drop unknown fields from imported templates', () => {
+      const json = JSON.stringify({ templates: [{ ...library.templates[0], extra: true }], pinnedInstructions: '' });
+      expect(parsePromptLibrary(json).templates).toEqual(library.templates);
+    });
+
+    it('should reject invalid files', () => {
+      expect(() => parsePromptLibrary('{')).toThrow('JSONファイルを読み込めませんでした');
+      expect(() => parsePromptLibrary(JSON.stringify({ ...library, schemaVersion: 2 }))).toThrow('対応していない形式のファイルです');
+      expect(() => parsePromptLibrary(JSON.stringify({ templates: [createTemplate('readme'), createTemplate('readme')], pinnedInstructions: '' })))
+        .toThrow('テンプレートの形式が正しくありません');
+      expect(() => parsePromptLibrary('[]')).toThrow('テンプレートの形式が正しくありません');
+    });
+  });
+});
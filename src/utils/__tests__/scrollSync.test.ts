@@ -0,0 +1,83 @@
+/**
+ * Scroll Sync Utility Tests
+ * スクロール同期の位置変換と通知のテスト
+ */
+
+import * as fc from 'fast-check';
+import { createScrollSync, lineToOffset, offsetToLine, LineAnchor } from '../scrollSync';
+
+describe('scrollSync', () => {
+  const anchors: LineAnchor[] = [
+    { line: 0, offset: 0 },
+    { line: 10, offset: 400 },
+    { line: 20, offset: 500 },
+  ];
+
+  describe('lineToOffset / offsetToLine', () => {
+    it('should interpolate between anchors', () => {
+      expect(lineToOffset(anchors, 5, 40, 1000)).toBe(200);
+      expect(lineToOffset(anchors, 30, 40, 1000)).toBe(750);
+      expect(offsetToLine(anchors, 450, 40, 1000)).toBe(15);
+    });
+
+    it('should clamp positions beyond the document', () => {
+      expect(lineToOffset(anchors, 100, 40, 1000)).toBe(1000);
+      expect(offsetToLine(anchors, 5000, 40, 1000)).toBe(40);
+    });
+
+    it('should be inverse of each other within the document', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 0, max: 400 }), (line) => {
+          const offset = lineToOffset(anchors, line / 10, 40, 1000);
+          expect(offsetToLine(anchors, offset, 40, 1000)).toBeCloseTo(line / 10);
+        })
+      );
+    });
+  });
+
+  describe('createScrollSync', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should deliver positions to the other side', () => {
+      const sync = createScrollSync();
+      const preview = jest.fn();
+      const editor = jest.fn();
+      sync.subscribe('preview', preview);
+      sync.subscribe('editor', editor);
+
+      sync.publish('editor', 12);
+
+      expect(preview).toHaveBeenCalledWith(12);
+      expect(editor).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the echo from the synced side', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const sync = createScrollSync();
+      const editor = jest.fn();
+      sync.subscribe('preview', jest.fn());
+      sync.subscribe('editor', editor);
+
+      sync.publish('editor', 12);
+      sync.publish('preview', 12);
+      expect(editor).not.toHaveBeenCalled();
+
+      now.mockReturnValue(2000);
+      sync.publish('preview', 3);
+      expect(editor).toHaveBeenCalledWith(3);
+    });
+
+    it('should stop delivering after unsubscribe', () => {
+      const sync = createScrollSync();
+      const preview = jest.fn();
+      const unsubscribe = sync.subscribe('preview', preview);
+
+      unsubscribe();
+      sync.publish('editor', 1);
+
+      expect(preview).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Selection Edit Utility Tests
+ * 選択範囲の置き換え処理のテスト
+ */
+
+import * as fc from 'fast-check';
+import { clampSelection, getSelectedText, spliceSelection } from '../selectionEdit';
+
+describe('selectionEdit', () => {
+  const document = '# Title\n\nFirst paragraph.\n\nSecond paragraph.\n';
+
+  it('should return the selected text', () => {
+    const start = document.indexOf('First');
+    expect(getSelectedText(document, { start, end: start + 'First paragraph.'.length }))
+      .toBe('First paragraph.');
+  });
+
+  it('should clamp selections to the document', () => {
+    expect(clampSelection('abc', { start: -5, end: 10 })).toEqual({ start: 0, end: 3 });
+    expect(clampSelection('abc', { start: 2, end: 1 })).toEqual({ start: 2, end: 2 });
+  });
+
+  it('should replace only the selected range', () => {
+    const start = document.indexOf('First');
+    const end = start + 'First paragraph.'.length;
+
+    expect(spliceSelection(document, { start, end }, 'Rewritten.'))
+      .toBe('# Title\n\nRewritten.\n\nSecond paragraph.\n');
+  });
+
+  it('should keep whitespace around the selection', () => {
+    const start = document.indexOf('\n\nFirst');
+    const end = document.indexOf('Second');
+
+    expect(spliceSelection(document, { start, end }, '\nSummary\n'))
+      .toBe('# Title\n\nSummary\n\nSecond paragraph.\n');
+  });
+
+  it('should leave text outside the selection untouched', () => {
+    fc.assert(
+      fc.property(
+        fc.string(),
+        fc.nat(),
+        fc.nat(),
+        fc.string(),
+        (text, a, b, replacement) => {
+          const { start, end } = clampSelection(text, { start: Math.min(a, b), end: Math.max(a, b) });
+          const result = spliceSelection(text, { start, end }, replacement);
+
+          expect(result.startsWith(text.slice(0, start))).toBe(true);
+          expect(result.endsWith(text.slice(end))).toBe(true);
+        }
+      )
+    );
+  });
+});
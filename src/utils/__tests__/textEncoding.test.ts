@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Text Encoding Utility Tests
+ * 文字コードの判定とデコードのテスト
+ */
+
+import * as fc from 'fast-check';
+import { decodeText, detectTextEncoding } from '../textEncoding';
+import { isOpenableFile, MAX_OPEN_FILE_SIZE, readTextFile } from '../fileOperations';
+
+// 「# 見出し」をShift_JISで表したバイト列
+const SHIFT_JIS_HEADING = new Uint8Array([0x23, 0x20, 0x8c, 0xa9, 0x8f, 0x6f, 0x82, 0xb5]);
+
+describe('textEncoding', () => {
+  describe('detectTextEncoding', () => {
+    it('should detect UTF-8 with and without BOM', () => {
+      const bytes = new TextEncoder().encode('# 見出し');
+      expect(detectTextEncoding(bytes)).toBe('utf-8');
+      expect(detectTextEncoding(new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]))).toBe('utf-8');
+    });
+
+    it('should detect UTF-16 by BOM', () => {
+      expect(detectTextEncoding(new Uint8Array([0xff, 0xfe, 0x23, 0x00]))).toBe('utf-16le');
+      expect(detectTextEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x23]))).toBe('utf-16be');
+    });
+
+    it('should fall back to Shift_JIS for invalid UTF-8', () => {
+      expect(detectTextEncoding(SHIFT_JIS_HEADING)).toBe('shift_jis');
+    });
+  });
+
+  describe('decodeText', () => {
+    it('should decode Shift_JIS text', () => {
+      expect(decodeText(SHIFT_JIS_HEADING)).toEqual({ text: '# 見出し', encoding: 'shift_jis' });
+    });
+
+    it('should strip the BOM and normalize line endings', () => {
+      const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('a\r\nb\rc\n')]);
+      expect(decodeText(bytes).text).toBe('a\nb\nc\n');
+    });
+
+    it('should round-trip any UTF-8 text', () => {
+      fc.assert(
+        fc.property(fc.string({ unit: 'grapheme' }), (text) => {
+          const decoded = decodeText(new TextEncoder().encode(text));
+          expect(decoded.encoding).toBe('utf-8');
+          expect(decoded.text).toBe(text.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, ''));
+        })
+      );
+    });
+  });
+
+  describe('readTextFile', () => {
+    it('should accept only Markdown and text files', () => {
+      expect(isOpenableFile('notes.md')).toBe(true);
+      expect(isOpenableFile('README.MARKDOWN')).toBe(true);
+      expect(isOpenableFile('memo.txt')).toBe(true);
+      expect(isOpenableFile('image.png')).toBe(false);
+    });
+
+    it('should read and decode a Shift_JIS file', async () => {
+      const file = new File([SHIFT_JIS_HEADING], 'notes.md');
+      await expect(readTextFile(file)).resolves.toEqual({ text: '# 見出し', encoding: 'shift_jis' });
+    });
+
+    it('should reject unsupported or oversized files', async () => {
+      await expect(readTextFile(new File(['x'], 'image.png'))).rejects.toThrow('対応していないファイル形式です');
+      const large = new File([new Uint8Array(MAX_OPEN_FILE_SIZE + 1)], 'large.md');
+      await expect(readTextFile(large)).rejects.toThrow('ファイルが大きすぎます');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Conversation Context Utility
+ * 会話履歴からAIに送信するメッセージをトークン数の上限内で選ぶためのユーティリティ
+ * 画面上の履歴はすべて保持し、送信する範囲だけをここで決める
+ */
+
+import { ChatMessage, ConversationSummary } from '../types';
+
+/**
+ * 1メッセージあたりの付加トークン数（役割・区切りの分）
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * 要約に含める1件あたりの最大文字数
+ */
+const SUMMARY_ITEM_MAX_CHARS = 200;
+
+/**
+ * 要約の作成を依頼する際に送信する1件あたりの最大文字数（長い文書は冒頭のみ送信する）
+ */
+const SUMMARY_SOURCE_MAX_CHARS = 1000;
+
+/**
+ * 送信するメッセージの選択結果
+ */
+export interface ContextSelection {
+  messages: ChatMessage[]; // 送信するメッセージ（古い順）
+  omitted: ChatMessage[]; // 上限を超えたため送信しないメッセージ（古い順）
+}
+
+/**
+ * テキストのトークン数を見積もる
+ * 日本語などの全角文字は1文字≒1トークン、半角文字は4文字≒1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  let wide = 0;
+  let narrow = 0;
+  for (const char of text) {
+    if (char.codePointAt(0)! > 0xff) {
+      wide++;
+    } else {
+      narrow++;
+    }
+  }
+  return wide + Math.ceil(narrow / 4);
+}
+
+/**
+ * メッセージのトークン数を見積もる
+ */
+export function estimateMessageTokens(message: Pick<ChatMessage, 'content'>): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * 新しいメッセージから順に、合計がトークン数の上限に収まる範囲を選ぶ
+ * 最新のメッセージは上限を超えても必ず送信し、送信する会話はユーザーの発言から始める
+ *
+ * @param history 会話履歴（古い順、末尾が送信するプロンプト）
+ * @param maxTokens 会話履歴に使うトークン数の上限
+ */
+export function selectContextMessages(history: ChatMessage[], maxTokens: number): ContextSelection {
+  let start = history.length;
+  let used = 0;
+
+  for (let index = history.length - 1; index >= 0; index--) {
+    const tokens = estimateMessageTokens(history[index]);
+    if (start < history.length && used + tokens > maxTokens) {
+      break;
+    }
+    used += tokens;
+    start = index;
+  }
+
+  while (start < history.length - 1 && history[start].role !== 'user') {
+    start++;
+  }
+
+  return { messages: history.slice(start), omitted: history.slice(0, start) };
+}
+
+/**
+ * 送信しない古い会話を要約する（ユーザーの依頼を新しいものから上限まで残す）
+ * 書式や方針などの指示を忘れないよう、アシスタントの応答ではなく依頼内容を残す
+ *
+ * @returns 要約（依頼がない場合はundefined）
+ */
+export function summarizeOmittedMessages(omitted: ChatMessage[], maxTokens: number): string | undefined {
+  const lines: string[] = [];
+  let used = 0;
+
+  for (const message of [...omitted].reverse()) {
+    const content = message.content.trim().replace(/\s+/g, ' ');
+    if (message.role !== 'user' || !content) {
+      continue;
+    }
+    const line = `- ${content.length > SUMMARY_ITEM_MAX_CHARS ? `${content.slice(0, SUMMARY_ITEM_MAX_CHARS)}…` : content}`;
+    const tokens = estimateTokens(line);
+    if (used + tokens > maxTokens) {
+      break;
+    }
+    used += tokens;
+    lines.unshift(line);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * 要約済みのメッセージより後の会話履歴（要約に含めたメッセージが見つからない場合はすべて）
+ */
+export function getUnsummarizedMessages(history: ChatMessage[], summary: ConversationSummary | null): ChatMessage[] {
+  const index = summary ? history.findIndex(message => message.id === summary.summarizedUntil) : -1;
+  return history.slice(index + 1);
+}
+
+/**
+ * 既存の要約と新たに要約する会話から、要約の作成を依頼するプロンプトを作る
+ */
+export function createSummaryPrompt(previous: string | undefined, messages: ChatMessage[]): string {
+  const transcript = messages
+    .filter(message => message.content.trim())
+    .map((message) => {
+      const content = message.content.trim();
+      const text = content.length > SUMMARY_SOURCE_MAX_CHARS ? `${content.slice(0, SUMMARY_SOURCE_MAX_CHARS)}…（以下省略）` : content;
+      return `${message.role === 'user' ? 'ユーザー' : 'アシスタント'}: ${text}`;
+    })
+    .join('\n\n');
+
+  return [
+    ...(previous?.trim() ? ['これまでの要約:', '<summary>', previous.trim(), '</summary>', ''] : []),
+    '次の会話を要約に加えてください。',
+    '<conversation>',
+    transcript,
+    '</conversation>',
+  ].join('\n');
+}
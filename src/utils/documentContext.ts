@@ -0,0 +1,37 @@
+/**
+ * Document Context Utility
+ * エディターの文書をAIリクエストのコンテキストとして送信するためのユーティリティ
+ */
+
+/**
+ * 省略箇所を示すマーカー
+ */
+function createOmissionMarker(omittedChars: number): string {
+  return `\n\n…（中略: ${omittedChars}文字）…\n\n`;
+}
+
+/**
+ * 文書を上限文字数に収める
+ * 冒頭と末尾を残し（冒頭を多めに残す）、中間を省略マーカーに置き換える
+ *
+ * @param document エディターの文書
+ * @param maxChars 上限文字数
+ * @returns 上限内に収めた文書
+ */
+export function truncateDocument(document: string, maxChars: number): string {
+  if (document.length <= maxChars) {
+    return document;
+  }
+
+  // マーカーの長さは省略文字数の桁数で変わるため、最大桁数で見積もる
+  const markerLength = createOmissionMarker(document.length).length;
+  const available = Math.max(maxChars - markerLength, 0);
+  const headLength = Math.ceil(available * 0.7);
+  const tailLength = available - headLength;
+
+  return (
+    document.slice(0, headLength) +
+    createOmissionMarker(document.length - available) +
+    (tailLength > 0 ? document.slice(-tailLength) : '')
+  );
+}
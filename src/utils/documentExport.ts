@@ -0,0 +1,292 @@
+/**
+ * Document Export Utility
+ * 文書をHTML・PDF・DOCX形式で出力する
+ */
+
+import { downloadBlob, generateTimestampedFilename } from './fileOperations';
+import { renderMarkdown } from './markdownRenderer';
+import { renderMermaidDiagrams } from './mermaidRenderer';
+
+/**
+ * 出力形式
+ */
+export type ExportFormat = 'html' | 'pdf' | 'docx';
+
+/**
+ * 出力形式の一覧（FileOperationsのメニューに表示）
+ */
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'html', label: 'HTML', description: 'スタイル込みの単一HTMLファイル' },
+  { id: 'pdf', label: 'PDF', description: 'ブラウザの印刷機能でPDFとして保存' },
+  { id: 'docx', label: 'Word (DOCX)', description: 'Word形式の文書ファイル' },
+];
+
+const DEFAULT_TITLE = 'Markdown Document';
+
+/**
+ * 出力用HTMLに埋め込むスタイル（プレビューの書式とコードハイライトの配色）
+ */
+const EXPORT_STYLES = `
+body { margin: 0; background: #fff; }
+.markdown-body { max-width: 860px; margin: 0 auto; padding: 32px 24px; color: #1f2937; line-height: 1.7; word-wrap: break-word;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "Hiragino Sans", "Noto Sans JP", Meiryo, sans-serif; }
+.markdown-body > * { margin: 0; }
+.markdown-body > * + * { margin-top: 1em; }
+.markdown-body h1, .markdown-body h2, .markdown-body h3, .markdown-body h4, .markdown-body h5, .markdown-body h6 { font-weight: 600; line-height: 1.3; }
+.markdown-body > h1 + *, .markdown-body > * + h1, .markdown-body > * + h2, .markdown-body > * + h3 { margin-top: 1.5em; }
+.markdown-body h1 { font-size: 2em; padding-bottom: 0.3em; border-bottom: 1px solid #e5e7eb; }
+.markdown-body h2 { font-size: 1.5em; padding-bottom: 0.3em; border-bottom: 1px solid #e5e7eb; }
+.markdown-body h3 { font-size: 1.25em; }
+.markdown-body a { color: #2563eb; }
+.markdown-body ul, .markdown-body ol { padding-left: 2em; }
+.markdown-body li:has(> input[type="checkbox"]) { list-style: none; }
+.markdown-body li > input[type="checkbox"] { margin: 0 0.4em 0 -1.4em; }
+.markdown-body blockquote { margin-left: 0; padding: 0 1em; color: #6b7280; border-left: 0.25em solid #d1d5db; }
+.markdown-body code { font-family: Consolas, Monaco, Menlo, monospace; font-size: 0.875em; padding: 0.2em 0.4em; background: #f3f4f6; border-radius: 4px; }
+.markdown-body pre { overflow: auto; padding: 1em; background: #f6f8fa; border-radius: 6px; }
+.markdown-body pre code { padding: 0; background: transparent; }
+.markdown-body table { border-collapse: collapse; }
+.markdown-body th, .markdown-body td { padding: 0.4em 0.8em; border: 1px solid #d1d5db; }
+.markdown-body th { background: #f9fafb; }
+.markdown-body hr { border: 0; border-top: 1px solid #e5e7eb; }
+.markdown-body img { max-width: 100%; }
+.markdown-body .footnotes { font-size: 0.875em; color: #4b5563; border-top: 1px solid #e5e7eb; padding-top: 1em; }
+.markdown-body .footnotes h2 { font-size: 1em; margin-top: 0; padding-bottom: 0; border-bottom: none; }
+.markdown-body .katex-display { overflow-x: auto; overflow-y: hidden; }
+.markdown-body .mermaid-diagram { display: flex; justify-content: center; }
+.markdown-body .mermaid-diagram svg { max-width: 100%; height: auto; }
+.markdown-body .render-error { display: block; margin-top: 0.25em; padding: 0.4em 0.8em; font-size: 0.875em; color: #b91c1c; background: #fef2f2; border-left: 3px solid #ef4444; }
+.markdown-body span.math-error, .markdown-body span.math-error .render-error { display: inline; }
+.hljs-comment, .hljs-quote { color: #6a737d; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type { color: #d73a49; }
+.hljs-string, .hljs-attr, .hljs-regexp { color: #032f62; }
+.hljs-number, .hljs-literal, .hljs-variable, .hljs-template-variable { color: #005cc5; }
+.hljs-title, .hljs-section, .hljs-built_in { color: #6f42c1; }
+.hljs-name, .hljs-tag { color: #22863a; }
+@media print {
+  @page { margin: 16mm; }
+  .markdown-body { max-width: none; padding: 0; }
+  .markdown-body pre, .markdown-body table, .markdown-body .mermaid-diagram, .markdown-body .katex-display { break-inside: avoid; }
+  .markdown-body h1, .markdown-body h2, .markdown-body h3 { break-after: avoid; }
+}
+`;
+
+/**
+ * 文書のタイトル（最初の見出し、なければ既定値）
+ */
+export function getDocumentTitle(markdown: string): string {
+  const heading = markdown.match(/^#{1,6}[ \t]+(.+?)[ \t#]*$/m);
+  return heading ? heading[1].trim() : DEFAULT_TITLE;
+}
+
+/**
+ * HTMLの特殊文字をエスケープする
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 出力用の本文HTMLを作成する（mermaidの図はSVGに置き換える）
+ */
+async function renderExportBody(markdown: string): Promise<string> {
+  const container = document.createElement('div');
+  container.innerHTML = renderMarkdown(markdown);
+
+  // mermaidは図の大きさを計測するため、画面外に配置して描画する
+  container.style.position = 'fixed';
+  container.style.left = '-10000px';
+  container.style.width = '860px';
+  document.body.appendChild(container);
+  try {
+    await renderMermaidDiagrams(container, new Map());
+    return container.innerHTML;
+  } finally {
+    container.remove();
+  }
+}
+
+/**
+ * BlobをdataURIに変換する
+ */
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * KaTeXのフォント定義（@font-face）のフォントをdataURIとして埋め込む
+ * 取得できない場合はページのURLのまま残す（ファイルを開いた環境で読み込めなければ既定のフォントで表示される）
+ */
+async function inlineKatexFont(cssText: string, baseUrl: string): Promise<string> {
+  const source = cssText.match(/url\(\s*(['"]?)([^'")]+)\1\s*\)\s*format\(\s*['"]?woff2['"]?\s*\)/);
+  if (!source) {
+    return cssText;
+  }
+
+  const url = new URL(source[2], baseUrl).href;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const dataUrl = await blobToDataUrl(await response.blob());
+    return cssText.replace(/src:[^;}]+/, `src: url("${dataUrl}") format("woff2")`);
+  } catch (error) {
+    console.warn('Failed to embed KaTeX font:', url, error);
+    return cssText.replace(/src:[^;}]+/, `src: url("${url}") format("woff2")`);
+  }
+}
+
+/**
+ * ページに読み込まれているKaTeXのスタイル（katex.min.css）を出力用に取り出す
+ * 外部のCDNに依存しないよう、フォントも含めて埋め込む
+ */
+async function collectKatexStyles(): Promise<string> {
+  const rules: Promise<string>[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      continue; // 別オリジンのスタイルシートは読み込めない
+    }
+
+    const baseUrl = sheet.href ?? document.baseURI;
+    for (const rule of Array.from(cssRules)) {
+      const cssText = rule.cssText;
+      if (cssText.startsWith('@font-face')) {
+        if (cssText.includes('KaTeX_')) {
+          rules.push(inlineKatexFont(cssText, baseUrl));
+        }
+      } else if (cssText.includes('.katex')) {
+        rules.push(Promise.resolve(cssText));
+      }
+    }
+  }
+  return (await Promise.all(rules)).join('\n');
+}
+
+/**
+ * スタイルを埋め込んだ単一のHTML文書を作成する
+ * 数式を含む場合はKaTeXのスタイルとフォントも埋め込む
+ *
+ * @param markdown Markdown文書
+ * @returns HTML文書
+ */
+export async function buildStandaloneHtml(markdown: string): Promise<string> {
+  const body = await renderExportBody(markdown);
+  const title = escapeHtml(getDocumentTitle(markdown));
+  const katexStyles = body.includes('class="katex') ? await collectKatexStyles() : '';
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${katexStyles}${EXPORT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<article class="markdown-body">${body}</article>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/**
+ * HTMLファイルとしてダウンロードする
+ */
+export async function exportHtmlFile(markdown: string, filename?: string): Promise<boolean> {
+  try {
+    const html = await buildStandaloneHtml(markdown);
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+    downloadBlob(blob, filename || generateTimestampedFilename('markdown', 'html'));
+    return true;
+  } catch (error) {
+    console.error('Failed to export HTML file:', error);
+    return false;
+  }
+}
+
+/**
+ * ブラウザの印刷ダイアログを開いてPDFとして保存できるようにする
+ * 画面には表示しないiframeに出力用HTMLを読み込んで印刷する
+ */
+export async function printAsPdf(markdown: string): Promise<boolean> {
+  try {
+    const html = await buildStandaloneHtml(markdown);
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    iframe.setAttribute('aria-hidden', 'true');
+
+    await new Promise<void>((resolve, reject) => {
+      iframe.onload = () => resolve();
+      iframe.onerror = () => reject(new Error('印刷用の文書を読み込めませんでした'));
+      iframe.srcdoc = html;
+      document.body.appendChild(iframe);
+    });
+
+    const printWindow = iframe.contentWindow;
+    if (!printWindow) {
+      iframe.remove();
+      return false;
+    }
+
+    // 印刷ダイアログが閉じたら取り除く（afterprint非対応のブラウザ向けに時間でも取り除く）
+    const cleanup = () => iframe.remove();
+    printWindow.addEventListener('afterprint', cleanup, { once: true });
+    setTimeout(cleanup, 60_000);
+
+    // 保存ダイアログのファイル名の既定値にタイムスタンプ付きの名前を使う
+    printWindow.document.title = generateTimestampedFilename('markdown', 'pdf').replace(/\.pdf$/, '');
+    printWindow.focus();
+    printWindow.print();
+    return true;
+  } catch (error) {
+    console.error('Failed to print as PDF:', error);
+    return false;
+  }
+}
+
+/**
+ * Word文書（.docx）としてダウンロードする
+ * docxライブラリはサイズが大きいため、出力時に読み込む
+ */
+export async function exportDocxFile(markdown: string, filename?: string): Promise<boolean> {
+  try {
+    const { markdownToDocxBlob } = await import('./docxExport');
+    const blob = await markdownToDocxBlob(markdown, getDocumentTitle(markdown));
+    downloadBlob(blob, filename || generateTimestampedFilename('markdown', 'docx'));
+    return true;
+  } catch (error) {
+    console.error('Failed to export DOCX file:', error);
+    return false;
+  }
+}
+
+/**
+ * 指定した形式で文書を出力する
+ *
+ * @param markdown Markdown文書
+ * @param format 出力形式
+ * @returns 出力成功時はtrue、失敗時はfalse
+ */
+export function exportDocument(markdown: string, format: ExportFormat): Promise<boolean> {
+  switch (format) {
+    case 'html':
+      return exportHtmlFile(markdown);
+    case 'pdf':
+      return printAsPdf(markdown);
+    case 'docx':
+      return exportDocxFile(markdown);
+  }
+}
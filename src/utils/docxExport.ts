@@ -0,0 +1,311 @@
+/**
+ * DOCX Export Utility
+ * Markdown文書をWord文書（.docx）に変換する
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { Token, Tokens } from 'marked';
+import { lexMarkdown } from './markdownRenderer';
+
+/**
+ * DOCXの本文を構成する要素
+ */
+type BlockElement = Paragraph | Table;
+
+/**
+ * インライン要素の文字書式
+ */
+interface InlineStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+}
+
+/**
+ * ブロック要素の変換時の状態
+ */
+interface BlockContext {
+  quoteDepth: number;
+  footnoteIds: Map<string, number>;
+  nextListInstance: () => number;
+}
+
+const CODE_FONT = 'Consolas';
+const MATH_FONT = 'Cambria Math';
+const ORDERED_LIST_REFERENCE = 'ordered-list';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+/**
+ * HTMLタグを取り除いたテキスト
+ */
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, '').trim();
+}
+
+/**
+ * インライン要素をテキストランに変換する
+ */
+function convertInline(
+  tokens: Token[] | undefined,
+  context: BlockContext,
+  style: InlineStyle = {}
+): (TextRun | ExternalHyperlink | FootnoteReferenceRun)[] {
+  if (!tokens) return [];
+
+  return tokens.flatMap((token): (TextRun | ExternalHyperlink | FootnoteReferenceRun)[] => {
+    switch (token.type) {
+      case 'strong':
+        return convertInline(token.tokens, context, { ...style, bold: true });
+      case 'em':
+        return convertInline(token.tokens, context, { ...style, italics: true });
+      case 'del':
+        return convertInline(token.tokens, context, { ...style, strike: true });
+      case 'codespan':
+        return [new TextRun({
+          ...style,
+          text: token.text,
+          font: CODE_FONT,
+          shading: { type: ShadingType.CLEAR, fill: 'F3F4F6', color: 'auto' },
+        })];
+      case 'inlineMath':
+        return [new TextRun({ ...style, text: token.text, font: MATH_FONT })];
+      case 'br':
+        return [new TextRun({ break: 1 })];
+      case 'link': {
+        const children = convertInline(token.tokens, context, style)
+          .filter((run): run is TextRun => run instanceof TextRun);
+        return [new ExternalHyperlink({ link: token.href, children })];
+      }
+      case 'image':
+        return [new TextRun({ ...style, text: `[画像: ${token.text || token.href}]` })];
+      case 'footnoteRef': {
+        const id = context.footnoteIds.get(token.label);
+        return id ? [new FootnoteReferenceRun(id)] : [];
+      }
+      case 'html':
+        return [new TextRun({ ...style, text: stripHtml(token.text) })];
+      case 'checkbox':
+        return [];
+      default:
+        if ('tokens' in token && token.tokens) {
+          return convertInline(token.tokens, context, style);
+        }
+        return 'text' in token ? [new TextRun({ ...style, text: token.text })] : [];
+    }
+  });
+}
+
+/**
+ * 引用の段落書式（インデントと左罫線）
+ */
+function quoteOptions(context: BlockContext) {
+  if (context.quoteDepth === 0) return {};
+  return {
+    indent: { left: 360 * context.quoteDepth },
+    border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'D1D5DB', space: 8 } },
+  };
+}
+
+/**
+ * コードブロックを変換する（行ごとに改行を入れた1段落）
+ */
+function convertCode(token: Tokens.Code, context: BlockContext): Paragraph {
+  const lines = token.text.split('\n');
+  return new Paragraph({
+    ...quoteOptions(context),
+    shading: { type: ShadingType.CLEAR, fill: 'F6F8FA', color: 'auto' },
+    children: lines.map((line, index) => new TextRun({
+      text: line,
+      font: CODE_FONT,
+      size: 20,
+      break: index > 0 ? 1 : undefined,
+    })),
+  });
+}
+
+/**
+ * リストを変換する（番号付きリストはリストごとに番号を振り直す）
+ */
+function convertList(token: Tokens.List, context: BlockContext, level: number): BlockElement[] {
+  const instance = token.ordered ? context.nextListInstance() : 0;
+
+  return token.items.flatMap((item) => {
+    const prefix = item.task ? (item.checked ? '☑ ' : '☐ ') : '';
+    const blocks: BlockElement[] = [];
+    let isFirstParagraph = true;
+
+    for (const child of item.tokens) {
+      if (child.type === 'list') {
+        blocks.push(...convertList(child as Tokens.List, context, level + 1));
+        continue;
+      }
+      if (child.type !== 'text' && child.type !== 'paragraph') {
+        blocks.push(...convertBlocks([child], context));
+        continue;
+      }
+
+      const children = child.tokens ? convertInline(child.tokens, context) : [new TextRun(child.text)];
+      blocks.push(new Paragraph({
+        ...quoteOptions(context),
+        // 同じ項目の2段落目以降は番号を付けずにインデントのみ揃える
+        ...(isFirstParagraph
+          ? token.ordered
+            ? { numbering: { reference: ORDERED_LIST_REFERENCE, level, instance } }
+            : { bullet: { level } }
+          : { indent: { left: 720 * (level + 1) } }),
+        children: isFirstParagraph && prefix ? [new TextRun(prefix), ...children] : children,
+      }));
+      isFirstParagraph = false;
+    }
+
+    return blocks;
+  });
+}
+
+/**
+ * 表を変換する
+ */
+function convertTable(token: Tokens.Table, context: BlockContext): Table {
+  const alignments: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+    center: AlignmentType.CENTER,
+    right: AlignmentType.RIGHT,
+  };
+  const toCell = (cell: Tokens.TableCell, column: number, isHeader: boolean) => new TableCell({
+    shading: isHeader ? { type: ShadingType.CLEAR, fill: 'F9FAFB', color: 'auto' } : undefined,
+    children: [new Paragraph({
+      alignment: alignments[token.align[column] ?? ''] ?? AlignmentType.LEFT,
+      children: convertInline(cell.tokens, context, { bold: isHeader }),
+    })],
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: token.header.map((cell, column) => toCell(cell, column, true)) }),
+      ...token.rows.map(row => new TableRow({ children: row.map((cell, column) => toCell(cell, column, false)) })),
+    ],
+  });
+}
+
+/**
+ * ブロック要素を変換する
+ */
+function convertBlocks(tokens: Token[], context: BlockContext): BlockElement[] {
+  return tokens.flatMap((token): BlockElement[] => {
+    switch (token.type) {
+      case 'heading':
+        return [new Paragraph({
+          heading: HEADING_LEVELS[Math.min(token.depth, 6) - 1],
+          children: convertInline(token.tokens, context),
+        })];
+      case 'paragraph':
+      case 'text':
+        return [new Paragraph({ ...quoteOptions(context), children: convertInline(token.tokens, context) })];
+      case 'code':
+        return [convertCode(token as Tokens.Code, context)];
+      case 'blockquote':
+        return convertBlocks(token.tokens ?? [], { ...context, quoteDepth: context.quoteDepth + 1 });
+      case 'list':
+        return convertList(token as Tokens.List, context, 0);
+      case 'table':
+        return [convertTable(token as Tokens.Table, context)];
+      case 'hr':
+        return [new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } },
+        })];
+      case 'blockMath':
+        return [new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text: token.text, font: MATH_FONT })],
+        })];
+      case 'html': {
+        const text = stripHtml(token.text);
+        return text ? [new Paragraph({ ...quoteOptions(context), text })] : [];
+      }
+      default:
+        // space、脚注（別途footnotesとして出力）など
+        return [];
+    }
+  });
+}
+
+/**
+ * Markdown文書からWord文書を作成する
+ *
+ * @param markdown Markdown文書
+ * @param title 文書のタイトル（プロパティに設定）
+ */
+export function createDocxDocument(markdown: string, title: string): Document {
+  const tokens = lexMarkdown(markdown);
+
+  // 脚注には参照順に1からの番号を振る
+  const footnoteItems = tokens
+    .filter((token): token is Tokens.Generic => token.type === 'footnotes')
+    .flatMap(token => token.items as { label: string; content: Token[] }[]);
+  const footnoteIds = new Map(footnoteItems.map((item, index) => [item.label, index + 1]));
+
+  let listInstance = 0;
+  const context: BlockContext = {
+    quoteDepth: 0,
+    footnoteIds,
+    nextListInstance: () => ++listInstance,
+  };
+
+  const footnotes = Object.fromEntries(footnoteItems.map((item, index) => [
+    index + 1,
+    {
+      // 脚注には段落のみ含められる
+      children: convertBlocks(item.content, context)
+        .filter((block): block is Paragraph => block instanceof Paragraph),
+    },
+  ]));
+
+  return new Document({
+    title,
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST_REFERENCE,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    footnotes,
+    sections: [{ children: convertBlocks(tokens, context) }],
+  });
+}
+
+/**
+ * Markdown文書をWord文書のBlobに変換する
+ */
+export async function markdownToDocxBlob(markdown: string, title: string): Promise<Blob> {
+  return Packer.toBlob(createDocxDocument(markdown, title));
+}
@@ -4,6 +4,18 @@
  * 要件: 3.1, 3.2, 3.3
  */
 
+import { DecodedText, decodeText } from './textEncoding';
+
+/**
+ * 読み込みに対応するファイルの拡張子
+ */
+export const OPENABLE_FILE_EXTENSIONS = ['.md', '.markdown', '.txt'] as const;
+
+/**
+ * 読み込めるファイルの最大サイズ（5MB）
+ */
+export const MAX_OPEN_FILE_SIZE = 5 * 1024 * 1024;
+
 /**
  * タイムスタンプ付きファイル名を生成する
  * 要件: 3.2 - タイムスタンプ付きファイル名生成
@@ -28,6 +40,31 @@ export function generateTimestampedFilename(
   return `${prefix}_${timestamp}.${extension}`;
 }
 
+/**
+ * Blobをファイルとしてダウンロードする
+ * 
+ * @param blob ダウンロードする内容
+ * @param filename ファイル名
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  // ダウンロード用のURLを作成
+  const url = URL.createObjectURL(blob);
+  
+  // 一時的なaタグを作成してダウンロードを実行
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  
+  // DOMに追加してクリック、その後削除
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  
+  // URLオブジェクトをクリーンアップ
+  URL.revokeObjectURL(url);
+}
+
 /**
  * テキストコンテンツを.mdファイルとしてダウンロードする
  * 要件: 3.1 - .mdファイルダウンロード機能
@@ -49,22 +86,7 @@ export function downloadMarkdownFile(
       type: 'text/markdown;charset=utf-8'
     });
     
-    // ダウンロード用のURLを作成
-    const url = URL.createObjectURL(blob);
-    
-    // 一時的なaタグを作成してダウンロードを実行
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = finalFilename;
-    link.style.display = 'none';
-    
-    // DOMに追加してクリック、その後削除
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    // URLオブジェクトをクリーンアップ
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, finalFilename);
     
     return true;
   } catch (error) {
@@ -107,4 +129,34 @@ export async function copyToClipboard(text: string): Promise<boolean> {
     console.error('Failed to copy to clipboard:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 読み込みに対応するファイルかどうか（拡張子で判定）
+ * 
+ * @param filename ファイル名
+ */
+export function isOpenableFile(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return OPENABLE_FILE_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+/**
+ * ローカルのテキストファイルを読み込む
+ * 文字コード（UTF-8・UTF-16・Shift_JIS）を判定してデコードする
+ * 
+ * @param file 読み込むファイル
+ * @returns テキストと判定した文字コード
+ * @throws 対応していないファイル、または大きすぎるファイルの場合
+ */
+export async function readTextFile(file: File): Promise<DecodedText> {
+  if (!isOpenableFile(file.name)) {
+    throw new Error(`対応していないファイル形式です（${OPENABLE_FILE_EXTENSIONS.join('、')}）`);
+  }
+  if (file.size > MAX_OPEN_FILE_SIZE) {
+    throw new Error('ファイルが大きすぎます（5MBまで）');
+  }
+
+  const buffer = await file.arrayBuffer();
+  return decodeText(new Uint8Array(buffer));
+}
@@ -0,0 +1,155 @@
+/**
+ * Line Diff Utility
+ * 文書の行単位の差分計算と、差分（ハンク）ごとの適用
+ */
+
+/**
+ * 差分の区間
+ * equal: 変更のない行 / change: 削除行と追加行の組（ハンク）
+ */
+export type DiffSegment =
+  | { type: 'equal'; lines: string[] }
+  | { type: 'change'; id: number; removed: string[]; added: string[] };
+
+/**
+ * LCSテーブルの最大セル数（これを超える場合は全体を1つの変更として扱う）
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * 差分の編集操作
+ */
+type DiffOp = { op: 'equal' | 'remove' | 'add'; line: string };
+
+/**
+ * 2つの行配列の最長共通部分列から編集操作を求める
+ */
+function diffLineArrays(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+
+  if ((n + 1) * width > MAX_LCS_CELLS) {
+    return [
+      ...a.map(line => ({ op: 'remove' as const, line })),
+      ...b.map(line => ({ op: 'add' as const, line })),
+    ];
+  }
+
+  // lcs[i * width + j] = a[i..] と b[j..] の最長共通部分列の長さ
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ op: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ op: 'remove', line: a[i++] });
+    } else {
+      ops.push({ op: 'add', line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ op: 'remove', line: a[i++] });
+  while (j < m) ops.push({ op: 'add', line: b[j++] });
+
+  return ops;
+}
+
+/**
+ * 2つの文書の行単位の差分を計算する
+ * 連続する削除・追加は1つのハンクにまとめ、ハンクには0からの連番IDを振る
+ *
+ * @param original 元の文書
+ * @param proposed 提案された文書
+ * @returns 差分の区間の配列
+ */
+export function diffLines(original: string, proposed: string): DiffSegment[] {
+  const a = original.split('\n');
+  const b = proposed.split('\n');
+
+  // 共通の先頭・末尾はLCSの計算対象から外す
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: DiffOp[] = [
+    ...a.slice(0, prefix).map(line => ({ op: 'equal' as const, line })),
+    ...diffLineArrays(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(line => ({ op: 'equal' as const, line })),
+  ];
+
+  const segments: DiffSegment[] = [];
+  let nextId = 0;
+
+  for (const { op, line } of ops) {
+    const last = segments[segments.length - 1];
+
+    if (op === 'equal') {
+      if (last?.type === 'equal') {
+        last.lines.push(line);
+      } else {
+        segments.push({ type: 'equal', lines: [line] });
+      }
+      continue;
+    }
+
+    let hunk = last?.type === 'change' ? last : undefined;
+    if (!hunk) {
+      hunk = { type: 'change', id: nextId++, removed: [], added: [] };
+      segments.push(hunk);
+    }
+    (op === 'remove' ? hunk.removed : hunk.added).push(line);
+  }
+
+  return segments;
+}
+
+/**
+ * 採用するハンクを選んで文書を組み立てる
+ * 採用したハンクは追加行、それ以外は削除行（元の内容）を使用する
+ *
+ * @param segments diffLinesの結果
+ * @param acceptedIds 採用するハンクのID
+ * @returns 組み立てた文書
+ */
+export function applyDiffHunks(segments: DiffSegment[], acceptedIds: Iterable<number>): string {
+  const accepted = new Set(acceptedIds);
+  const lines: string[] = [];
+
+  for (const segment of segments) {
+    if (segment.type === 'equal') {
+      lines.push(...segment.lines);
+    } else {
+      lines.push(...(accepted.has(segment.id) ? segment.added : segment.removed));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * ハンクのIDを取得する
+ */
+export function getHunkIds(segments: DiffSegment[]): number[] {
+  return segments.flatMap(segment => (segment.type === 'change' ? [segment.id] : []));
+}
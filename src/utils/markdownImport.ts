@@ -0,0 +1,284 @@
+/**
+ * Markdown Import Utility
+ * Word・Webページからコピーした内容やDOCX・HTMLファイルをMarkdownに変換する
+ */
+
+import TurndownService from 'turndown';
+import { MAX_OPEN_FILE_SIZE } from './fileOperations';
+import { decodeText } from './textEncoding';
+
+/**
+ * Markdownに変換して読み込むファイルの拡張子
+ */
+export const IMPORTABLE_FILE_EXTENSIONS = ['.docx', '.html', '.htm'] as const;
+
+/**
+ * 見出し・段落・表などの構造を持つHTMLかどうかの判定に使うタグ
+ * コードエディターからのコピー（divとspanのみで色付けしたHTML）は対象外にする
+ */
+const RICH_HTML_PATTERN = /<(h[1-6]|p|ul|ol|li|table|blockquote|pre|strong|b|em|i|a|img|del|s)[\s>/]/i;
+
+/**
+ * turndownが要素に追加するプロパティ
+ */
+type TurndownNode = HTMLElement & { isBlock?: boolean };
+
+/**
+ * 要素のstyle属性（小文字、空白なし）
+ */
+function getInlineStyle(node: HTMLElement): string {
+  return (node.getAttribute('style') ?? '').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * 表のセル内容を1行にまとめる（改行は<br>、|はエスケープ）
+ */
+function formatTableCell(content: string): string {
+  return content.trim().replace(/\n+/g, '<br>').replace(/\|/g, '\\|');
+}
+
+/**
+ * 要素が属する表の最初の行かどうか
+ */
+function isFirstTableRow(row: HTMLElement): boolean {
+  let parent = row.parentNode as HTMLElement | null;
+  while (parent && parent.nodeName !== 'TABLE') {
+    parent = parent.parentNode as HTMLElement | null;
+  }
+  return !!parent && parent.getElementsByTagName('tr')[0] === row;
+}
+
+/**
+ * Wordのリスト段落（<p class="MsoListParagraph…">）の階層と番号の有無
+ */
+function getWordListItem(node: HTMLElement): { level: number; marker: string } | null {
+  const style = getInlineStyle(node);
+  if (!/^MsoListParagraph/i.test(node.className) && !style.includes('mso-list:l')) {
+    return null;
+  }
+
+  const level = Number(style.match(/level(\d+)/)?.[1] ?? 1);
+  const ignored = Array.from(node.getElementsByTagName('span'))
+    .find(span => getInlineStyle(span).includes('mso-list:ignore'));
+  const number = ignored?.textContent?.trim().match(/^(\d+)[.)]/)?.[1];
+  const isOrdered = !!number || /^[a-z]{1,3}[.)]/i.test(ignored?.textContent?.trim() ?? '');
+
+  return { level, marker: isOrdered ? `${number ?? 1}.` : '-' };
+}
+
+/**
+ * 変換ルールを設定したturndownを作成する
+ */
+function createTurndownService(): TurndownService {
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '*',
+    hr: '---',
+    // 空のセルを取り除くと表の列がずれるため残す
+    blankReplacement: (_content, node) => {
+      if (node.nodeName === 'TD' || node.nodeName === 'TH') return '  |';
+      return (node as TurndownNode).isBlock ? '\n\n' : '';
+    },
+  });
+
+  // Wordの独自タグ・スタイル・スクリプトなど
+  service.remove(['script', 'style', 'meta', 'title', 'head', 'noscript']);
+  service.remove((node) => node.nodeName === 'O:P' || getInlineStyle(node).includes('mso-list:ignore'));
+
+  // リストの記号の後の空白は1つにする（turndownの既定は記号の幅を4文字に揃える）
+  service.addRule('listItem', {
+    filter: 'li',
+    replacement: (content, node, options) => {
+      const parent = node.parentNode as HTMLElement;
+      let prefix = `${options.bulletListMarker} `;
+      if (parent.nodeName === 'OL') {
+        const items = Array.from(parent.childNodes).filter(child => child.nodeName === 'LI');
+        prefix = `${Number(parent.getAttribute('start') ?? 1) + items.indexOf(node)}. `;
+      }
+      const body = content
+        .replace(/^\n+/, '')
+        .replace(/\n+$/, '\n')
+        .replace(/\n/gm, `\n${' '.repeat(prefix.length)}`);
+      return prefix + body + (node.nextSibling && !/\n$/.test(body) ? '\n' : '');
+    },
+  });
+
+  service.addRule('strikethrough', {
+    filter: (node) => ['DEL', 'S', 'STRIKE'].includes(node.nodeName),
+    replacement: (content) => (content.trim() ? `~~${content}~~` : content),
+  });
+
+  service.addRule('taskListCheckbox', {
+    filter: (node) => node.nodeName === 'INPUT' && node.getAttribute('type') === 'checkbox',
+    replacement: (_content, node) => (node.hasAttribute('checked') ? '[x] ' : '[ ] '),
+  });
+
+  // 埋め込み画像（data:など）は文書に含めず代替テキストを残す
+  service.addRule('embeddedImage', {
+    filter: (node) => node.nodeName === 'IMG' && !/^https?:/i.test(node.getAttribute('src') ?? ''),
+    replacement: (_content, node) => {
+      const alt = node.getAttribute('alt')?.trim();
+      return alt ? `[画像: ${alt}]` : '[画像]';
+    },
+  });
+
+  // Googleドキュメントは全体を<b style="font-weight:normal">で囲む
+  service.addRule('googleDocsWrapper', {
+    filter: (node) => node.nodeName === 'B' && getInlineStyle(node).includes('font-weight:normal'),
+    replacement: (content) => content,
+  });
+
+  // 書式をstyle属性で指定したspan（Googleドキュメント・Word）
+  service.addRule('styledSpan', {
+    filter: (node) => node.nodeName === 'SPAN' && /font-weight:(bold|[6-9]00)|font-style:italic/.test(getInlineStyle(node)),
+    replacement: (content, node) => {
+      const text = content.trim();
+      if (!text) return content;
+      const style = getInlineStyle(node);
+      const bold = /font-weight:(bold|[6-9]00)/.test(style) ? '**' : '';
+      const italic = style.includes('font-style:italic') ? '*' : '';
+      const leading = content.match(/^\s*/)![0];
+      const trailing = content.match(/\s*$/)![0];
+      return `${leading}${bold}${italic}${text}${italic}${bold}${trailing}`;
+    },
+  });
+
+  service.addRule('wordListParagraph', {
+    filter: (node) => node.nodeName === 'P' && !!getWordListItem(node),
+    replacement: (content, node) => {
+      const { level, marker } = getWordListItem(node)!;
+      return `\n${'    '.repeat(level - 1)}${marker} ${content.trim()}\n`;
+    },
+  });
+
+  // <code>を含まない<pre>（ブログなどのコード表示）
+  service.addRule('preformattedText', {
+    filter: (node) => node.nodeName === 'PRE' && node.getElementsByTagName('code').length === 0,
+    replacement: (_content, node) => `\n\n\`\`\`\n${(node.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`,
+  });
+
+  // 表（GFM形式、最初の行を見出し行にする）
+  service.addRule('tableCell', {
+    filter: ['th', 'td'],
+    replacement: (content, node) => {
+      // 見出し行は太字で表示されるため、セル全体の太字は取り除く
+      const text = isFirstTableRow(node.parentNode as HTMLElement)
+        ? content.trim().replace(/^\*\*([^*]+)\*\*$/, '$1')
+        : content;
+      return ` ${formatTableCell(text)} |`;
+    },
+  });
+
+  service.addRule('tableRow', {
+    filter: 'tr',
+    replacement: (content, node) => {
+      if (!isFirstTableRow(node)) {
+        return `\n|${content}\n`;
+      }
+      const columns = Array.from(node.childNodes).filter(child => child.nodeName === 'TH' || child.nodeName === 'TD').length;
+      return `\n|${content}\n|${' --- |'.repeat(columns)}\n`;
+    },
+  });
+
+  service.addRule('tableSection', {
+    filter: ['thead', 'tbody', 'tfoot'],
+    replacement: (content) => content,
+  });
+
+  service.addRule('table', {
+    filter: 'table',
+    replacement: (content) => `\n\n${content.trim()}\n\n`,
+  });
+
+  // 脚注（mammothの出力形式: 参照は<sup><a href="#footnote-1">、本文は<li id="footnote-1">）
+  service.addRule('footnoteReference', {
+    filter: (node) => node.nodeName === 'A' && /^#(foot|end)note-\d+$/.test(node.getAttribute('href') ?? ''),
+    replacement: (_content, node) => `[^${node.getAttribute('href')!.match(/\d+$/)![0]}]`,
+  });
+
+  service.addRule('footnoteBackLink', {
+    filter: (node) => node.nodeName === 'A' && /^#(foot|end)note-ref-\d+$/.test(node.getAttribute('href') ?? ''),
+    replacement: () => '',
+  });
+
+  service.addRule('footnoteItem', {
+    filter: (node) => node.nodeName === 'LI' && /^(foot|end)note-\d+$/.test(node.id),
+    replacement: (content, node) => `\n[^${node.id.match(/\d+$/)![0]}]: ${content.trim().replace(/\n+/g, ' ')}\n`,
+  });
+
+  return service;
+}
+
+let turndownService: TurndownService | null = null;
+
+/**
+ * 見出し・段落・表などの構造を持つHTMLかどうか
+ * 構造のないHTML（コードエディターからのコピーなど）はプレーンテキストとして貼り付ける
+ */
+export function isRichHtml(html: string): boolean {
+  return RICH_HTML_PATTERN.test(html);
+}
+
+/**
+ * HTMLをMarkdownに変換する
+ *
+ * @param html 変換するHTML（クリップボードの内容など）
+ * @returns Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  turndownService ??= createTurndownService();
+  return turndownService.turndown(html)
+    .replace(/\u00a0/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * DOCXファイルの内容をMarkdownに変換する
+ * mammothはサイズが大きいため、変換時に読み込む
+ *
+ * @param buffer DOCXファイルの内容
+ * @returns Markdown
+ */
+export async function docxToMarkdown(buffer: ArrayBuffer): Promise<string> {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.convertToHtml({ arrayBuffer: buffer });
+  return htmlToMarkdown(result.value);
+}
+
+/**
+ * Markdownに変換して読み込むファイルかどうか（拡張子で判定）
+ */
+export function isImportableFile(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return IMPORTABLE_FILE_EXTENSIONS.some(extension => lower.endsWith(extension));
+}
+
+/**
+ * DOCX・HTMLファイルを読み込んでMarkdownに変換する
+ *
+ * @param file 読み込むファイル
+ * @returns Markdown
+ * @throws 対応していないファイル、大きすぎるファイル、または変換できない場合
+ */
+export async function importFileAsMarkdown(file: File): Promise<string> {
+  if (!isImportableFile(file.name)) {
+    throw new Error(`対応していないファイル形式です（${IMPORTABLE_FILE_EXTENSIONS.join('、')}）`);
+  }
+  if (file.size > MAX_OPEN_FILE_SIZE) {
+    throw new Error('ファイルが大きすぎます（5MBまで）');
+  }
+
+  const buffer = await file.arrayBuffer();
+  if (file.name.toLowerCase().endsWith('.docx')) {
+    try {
+      return await docxToMarkdown(buffer);
+    } catch (error) {
+      console.error('Failed to convert DOCX file:', error);
+      throw new Error('Word文書を読み込めませんでした');
+    }
+  }
+  return htmlToMarkdown(decodeText(new Uint8Array(buffer)).text);
+}
@@ -0,0 +1,146 @@
+/**
+ * Markdown Payload Utility
+ * AI応答からエディターに反映するMarkdown文書部分を抽出する
+ */
+
+/**
+ * AI応答の抽出結果
+ */
+export interface MarkdownPayload {
+  document: string; // エディターに反映する文書
+  explanation: string; // チャットに残す説明文
+  extracted: boolean; // 応答から文書部分を抽出したか
+}
+
+/**
+ * 文書部分を明示する区切り（<document>...</document>）
+ */
+const DOCUMENT_SECTION_PATTERN = /<document>[^\S\n]*\n?([\s\S]*?)(?:<\/document>|$)/i;
+
+/**
+ * コードフェンス行（``` または ~~~ と情報文字列）
+ */
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+
+/**
+ * Markdownとして扱うフェンスの言語指定
+ */
+const MARKDOWN_LANGUAGES = ['markdown', 'md'];
+
+/**
+ * Markdownのブロック要素の始まり（見出し・リスト・引用・表・フェンス・区切り線・HTML・画像・数式）
+ */
+const MARKDOWN_BLOCK_START_PATTERN = /^ {0,3}(?:#{1,6}(?:\s|$)|[-*+]\s|\d+[.)]\s|>|\||`{3,}|~{3,}|(?:-{3,}|\*{3,}|_{3,})\s*$|<|!\[|\$\$)/;
+
+/**
+ * 抽出した文書の前後の空行を取り除く
+ */
+function trimDocument(document: string): string {
+  return document.replace(/^\s*\n/, '').replace(/\s+$/, '');
+}
+
+/**
+ * 文書部分以外の説明文を結合する
+ */
+function joinExplanation(...parts: string[]): string {
+  return parts
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * ```markdown フェンスの範囲（行番号）を探す
+ * フェンス内の言語指定付きフェンスは入れ子として扱い、対応する閉じフェンスまで読み進める
+ * 閉じフェンスがない場合（ストリーミング途中など）は末尾までを範囲とする
+ */
+function findMarkdownFence(lines: string[]): { start: number; end: number } | null {
+  for (let start = 0; start < lines.length; start++) {
+    const opening = lines[start].match(FENCE_PATTERN);
+    if (!opening || !MARKDOWN_LANGUAGES.includes(opening[2].toLowerCase())) {
+      continue;
+    }
+
+    const fence = opening[1];
+    let depth = 0;
+
+    for (let end = start + 1; end < lines.length; end++) {
+      const match = lines[end].match(FENCE_PATTERN);
+      if (!match || match[1][0] !== fence[0]) {
+        continue;
+      }
+
+      if (match[2]) {
+        depth++;
+      } else if (depth > 0) {
+        depth--;
+      } else if (match[1].length >= fence.length) {
+        return { start, end };
+      }
+    }
+
+    return { start, end: lines.length };
+  }
+
+  return null;
+}
+
+/**
+ * AI応答からMarkdown文書部分を抽出する
+ * 1. <document>...</document> で囲まれた部分
+ * 2. ```markdown（または ```md）フェンス内の部分
+ * どちらもない場合は応答全体を文書として扱う
+ *
+ * @param reply AI応答の全文（ストリーミング途中の部分応答も可）
+ * @returns 文書部分と説明文
+ */
+export function extractMarkdownPayload(reply: string): MarkdownPayload {
+  const normalized = reply.replace(/\r\n/g, '\n');
+
+  const section = normalized.match(DOCUMENT_SECTION_PATTERN);
+  if (section && section.index !== undefined) {
+    return {
+      document: trimDocument(section[1]),
+      explanation: joinExplanation(
+        normalized.slice(0, section.index),
+        normalized.slice(section.index + section[0].length)
+      ),
+      extracted: true,
+    };
+  }
+
+  const lines = normalized.split('\n');
+  const fence = findMarkdownFence(lines);
+  if (fence) {
+    return {
+      document: trimDocument(lines.slice(fence.start + 1, fence.end).join('\n')),
+      explanation: joinExplanation(
+        lines.slice(0, fence.start).join('\n'),
+        lines.slice(fence.end + 1).join('\n')
+      ),
+      extracted: true,
+    };
+  }
+
+  return {
+    document: reply,
+    explanation: '',
+    extracted: false,
+  };
+}
+
+/**
+ * ストリーミング途中の応答が、まだ前置きの説明文である可能性があるか
+ * 最初の行が届くまで、または最初の行がMarkdownのブロック要素で始まらない場合は、文書の始まりとみなさない
+ *
+ * @param reply AI応答の部分応答
+ * @returns 文書部分の始まりを待つ必要がある場合はtrue
+ */
+export function isAwaitingDocumentStart(reply: string): boolean {
+  const normalized = reply.replace(/\r\n/g, '\n').replace(/^\s*\n/, '');
+  const lineEnd = normalized.indexOf('\n');
+  if (lineEnd === -1) {
+    return true;
+  }
+  return !MARKDOWN_BLOCK_START_PATTERN.test(normalized.slice(0, lineEnd));
+}
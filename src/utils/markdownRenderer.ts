@@ -0,0 +1,189 @@
+/**
+ * Markdown Renderer Utility
+ * プレビュー用にMarkdownをHTMLへ変換し、安全なHTMLのみを残す
+ */
+
+import { Marked, MarkedExtension, Token, Tokens } from 'marked';
+import { markedHighlight } from 'marked-highlight';
+import markedFootnote from 'marked-footnote';
+import hljs from 'highlight.js/lib/common';
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+
+/**
+ * ソースの行番号を示す属性（スクロール同期に使用）
+ */
+export const SOURCE_LINE_ATTRIBUTE = 'data-source-line';
+
+/**
+ * トップレベルのブロックの前に、ソースの開始行（0始まり）を示す空要素を挿入する
+ * 脚注の拡張機能が先頭のトークンを参照するため、配列は置き換えずに更新する
+ */
+function annotateSourceLines(tokens: Token[]): Token[] {
+  const annotated: Token[] = [];
+  let line = 0;
+
+  for (const token of tokens) {
+    // 脚注一覧はソースに対応しない
+    if (token.type === 'footnotes') {
+      annotated.push(token);
+      continue;
+    }
+
+    if (token.type !== 'space') {
+      const anchor: Tokens.HTML = {
+        type: 'html',
+        block: true,
+        pre: false,
+        raw: '',
+        text: `<div ${SOURCE_LINE_ATTRIBUTE}="${line}"></div>`,
+      };
+      annotated.push(anchor);
+    }
+    annotated.push(token);
+    line += token.raw.split('\n').length - 1;
+  }
+
+  tokens.splice(0, tokens.length, ...annotated);
+  return tokens;
+}
+
+/**
+ * HTMLの特殊文字をエスケープする
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 数式をKaTeXでレンダリングする
+ * 構文エラーの場合は数式のソースとエラー内容をその場に表示する
+ */
+function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(tex, { displayMode, throwOnError: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const tag = displayMode ? 'div' : 'span';
+    const delimiter = displayMode ? '$$' : '$';
+    return (
+      `<${tag} class="math-error"><code>${escapeHtml(`${delimiter}${tex}${delimiter}`)}</code>` +
+      `<${tag} class="render-error">数式エラー: ${escapeHtml(message)}</${tag}></${tag}>`
+    );
+  }
+}
+
+/**
+ * $…$（インライン）と$$…$$（ブロック）の数式
+ * 金額の表記（$5 と $10 など）を誤認しないよう、$の内側の先頭・末尾の空白と直後の数字を除外する
+ */
+const mathExtension: MarkedExtension = {
+  extensions: [
+    {
+      name: 'blockMath',
+      level: 'block',
+      start: (src) => src.match(/^\$\$/m)?.index,
+      tokenizer(src) {
+        const match = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/.exec(src);
+        if (match) {
+          return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+        }
+      },
+      renderer: (token) => `${renderMath(token.text, true)}\n`,
+    },
+    {
+      name: 'inlineMath',
+      level: 'inline',
+      start: (src) => src.indexOf('$'),
+      tokenizer(src) {
+        const match = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src);
+        if (match) {
+          return { type: 'inlineMath', raw: match[0], text: match[1] };
+        }
+      },
+      renderer: (token) => renderMath(token.text, false),
+    },
+  ],
+};
+
+const markdownParser = new Marked(
+  { gfm: true },
+  markedHighlight({
+    emptyLangClass: 'hljs',
+    langPrefix: 'hljs language-',
+    highlight(code, lang) {
+      const language = hljs.getLanguage(lang) ? lang : 'plaintext';
+      return hljs.highlight(code, { language }).value;
+    },
+  }),
+  markedFootnote({ description: '脚注', headingClass: '' }),
+  mathExtension,
+  { hooks: { processAllTokens: annotateSourceLines } }
+);
+
+/**
+ * 構文解析のみを行うインスタンス（DOCX出力などHTML以外への変換用）
+ * 脚注の拡張機能は内部状態を持つため、プレビュー用とは別に用意する
+ */
+const markdownLexer = new Marked(
+  { gfm: true },
+  markedFootnote({ description: '脚注' }),
+  mathExtension
+);
+
+/**
+ * Markdownをトークンに分解する（プレビューと同じ記法に対応）
+ * 脚注の一覧は末尾のfootnotesトークンにまとめられる
+ */
+export function lexMarkdown(markdown: string): Token[] {
+  const tokens = markdownLexer.lexer(markdown);
+  // 脚注の拡張機能はwalkTokensで脚注の一覧を末尾に移動するため、parseと同様に実行する
+  const { walkTokens } = markdownLexer.defaults;
+  if (walkTokens) {
+    markdownLexer.walkTokens(tokens, walkTokens);
+  }
+  return tokens;
+}
+
+let isSanitizerConfigured = false;
+
+/**
+ * サニタイザーの設定（ブラウザでのみ行う）
+ * 外部リンクはアプリの画面を離れないように新しいタブで開く
+ */
+function configureSanitizer() {
+  if (isSanitizerConfigured) {
+    return;
+  }
+
+  DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+    const href = node.getAttribute('href');
+    if (node.tagName === 'A' && href && !href.startsWith('#')) {
+      node.setAttribute('target', '_blank');
+      node.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+  isSanitizerConfigured = true;
+}
+
+/**
+ * MarkdownをサニタイズしたHTMLに変換する
+ * AIが生成した内容にスクリプト等が含まれていても実行されないように除去する
+ *
+ * @param markdown Markdown文書
+ * @returns サニタイズしたHTML（サニタイズできない環境では空文字列）
+ */
+export function renderMarkdown(markdown: string): string {
+  // サーバー側などDOMが使えない環境では、未サニタイズのHTMLを返さない
+  if (!DOMPurify.isSupported || !markdown.trim()) {
+    return '';
+  }
+
+  configureSanitizer();
+  const html = markdownParser.parse(markdown, { async: false });
+  return DOMPurify.sanitize(html, { FORBID_TAGS: ['style'] });
+}
@@ -0,0 +1,122 @@
+/**
+ * Mermaid Renderer Utility
+ * プレビュー内のmermaidコードブロックをSVGの図に置き換える
+ */
+
+import type { Mermaid } from 'mermaid';
+
+/**
+ * 図の描画結果（SVGまたはエラー内容）
+ */
+export type MermaidResult = { svg: string } | { error: string };
+
+/**
+ * 図のソースごとの描画結果のキャッシュ
+ * プレビューのHTMLが更新されるたびに同じ図を描画し直さないようにする
+ */
+export type MermaidCache = Map<string, MermaidResult>;
+
+/**
+ * キャッシュする描画結果の最大数（ストリーミング中の途中の図などで増え続けないようにする）
+ */
+const MAX_CACHE_ENTRIES = 50;
+
+/**
+ * 描画対象のコードブロック（描画に失敗したものは除く）
+ */
+const MERMAID_BLOCK_SELECTOR = 'pre:not([data-mermaid-error]) > code.language-mermaid';
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let renderQueue: Promise<void> = Promise.resolve();
+let diagramCount = 0;
+
+/**
+ * mermaidを必要になった時点で読み込む（サイズが大きいため）
+ */
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid')
+      .then(({ default: mermaid }) => {
+        mermaid.initialize({ startOnLoad: false, securityLevel: 'strict' });
+        return mermaid;
+      })
+      .catch((error) => {
+        mermaidPromise = null; // 次回の描画時に再試行する
+        throw error;
+      });
+  }
+  return mermaidPromise;
+}
+
+/**
+ * 図を1つ描画する
+ */
+async function renderDiagram(source: string): Promise<MermaidResult> {
+  const id = `mermaid-diagram-${++diagramCount}`;
+
+  try {
+    const mermaid = await loadMermaid();
+    const { svg } = await mermaid.render(id, source);
+    return { svg };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    // 描画に失敗した場合にmermaidが残す一時要素を取り除く
+    document.getElementById(`d${id}`)?.remove();
+  }
+}
+
+/**
+ * 描画結果をコードブロックに反映する
+ * 成功した場合は図に置き換え、失敗した場合はソースを残してエラーを直後に表示する
+ */
+function applyResult(pre: HTMLElement, result: MermaidResult) {
+  if ('svg' in result) {
+    const diagram = document.createElement('div');
+    diagram.className = 'mermaid-diagram';
+    diagram.innerHTML = result.svg;
+    pre.replaceWith(diagram);
+    return;
+  }
+
+  const message = document.createElement('div');
+  message.className = 'render-error';
+  message.textContent = `図を描画できませんでした: ${result.error}`;
+  pre.setAttribute('data-mermaid-error', '');
+  pre.after(message);
+}
+
+/**
+ * コンテナ内のmermaidコードブロックを図に置き換える
+ * mermaidは同時に複数の描画を行えないため、呼び出しごとに順番に処理する
+ *
+ * @param container プレビューのHTMLを表示している要素
+ * @param cache 描画結果のキャッシュ
+ */
+export function renderMermaidDiagrams(container: HTMLElement, cache: MermaidCache): Promise<void> {
+  const task = renderQueue.then(async () => {
+    const blocks = Array.from(container.querySelectorAll<HTMLElement>(MERMAID_BLOCK_SELECTOR));
+
+    for (const code of blocks) {
+      const pre = code.parentElement!;
+      const source = code.textContent ?? '';
+
+      let result = cache.get(source);
+      if (!result) {
+        result = await renderDiagram(source);
+        if (cache.size >= MAX_CACHE_ENTRIES) {
+          cache.delete(cache.keys().next().value!);
+        }
+        cache.set(source, result);
+      }
+
+      // 描画中にプレビューが更新された場合、古いブロックには反映しない
+      if (pre.isConnected) {
+        applyResult(pre, result);
+      }
+    }
+  });
+
+  renderQueue = task.catch(() => undefined);
+  return task;
+}
@@ -0,0 +1,20 @@
+/**
+ * Monaco Editor Loader
+ * @monaco-editor/reactは既定でCDNからMonacoを読み込むため、バンドルしたmonaco-editorを使うように設定する
+ * CodeEditorから遅延読み込みする（ブラウザでのみ動作する）
+ */
+
+import { loader } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor';
+
+// Markdownの編集では言語サービスを使わないため、エディター本体のワーカーのみ用意する
+self.MonacoEnvironment = {
+  getWorker: () => new Worker(
+    new URL('monaco-editor/esm/vs/editor/editor.worker.js', import.meta.url),
+    { type: 'module' }
+  ),
+};
+
+loader.config({ monaco });
+
+export { default } from '@monaco-editor/react';
@@ -0,0 +1,202 @@
+/**
+ * Prompt Template Utility
+ * プロンプトのテンプレートと固定の指示の保存・読み込み、変数の展開、スラッシュコマンドの検出を行う
+ */
+
+import { PromptLibrary, PromptTemplate, validatePromptLibrary } from '../types';
+
+/**
+ * テンプレートと固定の指示を保存するlocalStorageのキー
+ */
+export const PROMPT_LIBRARY_STORAGE_KEY = 'prompt_library';
+
+/**
+ * 書き出すJSONの形式のバージョン
+ */
+const PROMPT_LIBRARY_SCHEMA_VERSION = 1;
+
+/**
+ * 最初から用意されているテンプレート
+ */
+export const DEFAULT_PROMPT_LIBRARY: PromptLibrary = {
+  templates: [
+    {
+      id: 'readme',
+      name: 'README',
+      command: 'readme',
+      content: [
+        '{{project}} のREADMEを作成してください。',
+        '次の見出しを含めてください: 概要、インストール、使い方、設定、ライセンス',
+      ].join('\n'),
+    },
+    {
+      id: 'minutes',
+      name: '議事録',
+      command: 'minutes',
+      content: [
+        '{{date}} の「{{project}}」の議事録を作成してください。',
+        '次の見出しを含めてください: 出席者、議題、決定事項、ToDo（担当者・期限）',
+      ].join('\n'),
+    },
+  ],
+  pinnedInstructions: '',
+};
+
+/**
+ * テンプレートに埋め込める変数
+ */
+export interface TemplateVariables {
+  project: string; // ワークスペース名
+  date: string; // 今日の日付（YYYY-MM-DD）
+  selection: string; // エディターで選択しているテキスト
+}
+
+/**
+ * 入力中のスラッシュコマンド
+ */
+export interface SlashCommandMatch {
+  start: number; // 「/」の位置
+  query: string; // 「/」からカーソルまでのコマンド名
+}
+
+/**
+ * テンプレートの {{変数}} を置き換える（未知の変数はそのまま残す）
+ */
+export function expandTemplate(content: string, variables: Partial<TemplateVariables>): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = (variables as Record<string, string | undefined>)[name];
+    return value === undefined ? match : value;
+  });
+}
+
+/**
+ * {{date}} に使う日付の文字列（YYYY-MM-DD）
+ */
+export function formatTemplateDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * カーソルの直前で入力中のスラッシュコマンドを探す
+ * 「/」は行頭または空白の直後にある場合のみコマンドとして扱う
+ */
+export function findSlashCommand(text: string, caret: number): SlashCommandMatch | null {
+  const match = /(^|\s)\/([\w-]*)$/.exec(text.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * コマンド名または名前が入力に一致するテンプレート（コマンド名の前方一致を優先する）
+ */
+export function filterTemplates(templates: PromptTemplate[], query: string): PromptTemplate[] {
+  const lower = query.toLowerCase();
+  const prefixed = templates.filter(template => template.command.toLowerCase().startsWith(lower));
+  const named = templates.filter(template =>
+    !prefixed.includes(template) && template.name.toLowerCase().includes(lower)
+  );
+  return [...prefixed, ...named];
+}
+
+/**
+ * テンプレートの入力内容の誤り（名前の未入力・コマンド名の形式・重複）
+ *
+ * @returns 誤りの説明（誤りがない場合はnull）
+ */
+export function getTemplatesError(templates: PromptTemplate[]): string | null {
+  const commands = new Set<string>();
+  for (const template of templates) {
+    if (!template.name.trim()) {
+      return 'テンプレートの名前を入力してください';
+    }
+    if (!/^[\w-]+$/.test(template.command)) {
+      return `「${template.name}」のコマンド名は英数字・ハイフン・アンダースコアで入力してください`;
+    }
+    if (commands.has(template.command)) {
+      return `コマンド名「/${template.command}」が重複しています`;
+    }
+    commands.add(template.command);
+  }
+  return null;
+}
+
+/**
+ * 新しいテンプレートのID
+ */
+export function createTemplateId(): string {
+  return `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 保存されているテンプレートと固定の指示を読み込む（読み込めない場合は既定値）
+ */
+export function loadPromptLibrary(): PromptLibrary {
+  if (typeof window === 'undefined') {
+    return DEFAULT_PROMPT_LIBRARY;
+  }
+  try {
+    const saved = localStorage.getItem(PROMPT_LIBRARY_STORAGE_KEY);
+    if (!saved) {
+      return DEFAULT_PROMPT_LIBRARY;
+    }
+    const library: unknown = JSON.parse(saved);
+    if (validatePromptLibrary(library)) {
+      return { templates: library.templates, pinnedInstructions: library.pinnedInstructions };
+    }
+    console.warn('Ignoring invalid prompt library in localStorage');
+  } catch (error) {
+    console.warn('Failed to read prompt library from localStorage:', error);
+  }
+  return DEFAULT_PROMPT_LIBRARY;
+}
+
+/**
+ * テンプレートと固定の指示を保存する
+ */
+export function savePromptLibrary(library: PromptLibrary): void {
+  try {
+    localStorage.setItem(PROMPT_LIBRARY_STORAGE_KEY, JSON.stringify(library));
+  } catch (error) {
+    console.warn('Failed to save prompt library to localStorage:', error);
+  }
+}
+
+/**
+ * テンプレートと固定の指示を書き出し用のJSONに変換する
+ */
+export function exportPromptLibrary(library: PromptLibrary): string {
+  return JSON.stringify({ schemaVersion: PROMPT_LIBRARY_SCHEMA_VERSION, ...library }, null, 2);
+}
+
+/**
+ * 書き出したJSONからテンプレートと固定の指示を読み込む
+ *
+ * @throws JSONとして読み込めない、または形式が正しくない場合
+ */
+export function parsePromptLibrary(json: string): PromptLibrary {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('JSONファイルを読み込めませんでした');
+  }
+
+  const candidate = data as { schemaVersion?: unknown } | null;
+  if (typeof candidate === 'object' && candidate !== null &&
+      candidate.schemaVersion !== undefined && candidate.schemaVersion !== PROMPT_LIBRARY_SCHEMA_VERSION) {
+    throw new Error('対応していない形式のファイルです');
+  }
+  if (!validatePromptLibrary(data)) {
+    throw new Error('テンプレートの形式が正しくありません（コマンド名は英数字・ハイフン・アンダースコアで、重複しないようにしてください）');
+  }
+
+  return {
+    templates: data.templates.map(({ id, name, command, content }) => ({ id, name, command, content })),
+    pinnedInstructions: data.pinnedInstructions,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Scroll Sync Utility
+ * エディターとプレビューのスクロール位置をソースの行番号で同期する
+ */
+
+/**
+ * スクロール位置を通知する側
+ */
+export type ScrollSyncSource = 'editor' | 'preview';
+
+/**
+ * スクロール位置の受け渡し
+ * 位置は画面の先頭に表示されているソースの行番号（0始まり、小数で行内の位置を表す）
+ */
+export interface ScrollSync {
+  publish: (source: ScrollSyncSource, line: number) => void;
+  subscribe: (target: ScrollSyncSource, listener: (line: number) => void) => () => void;
+}
+
+/**
+ * 同期によるスクロールの直後に届いた通知を無視する時間（ミリ秒）
+ * 同期先のスクロールイベントが送り返されて往復し続けるのを防ぐ
+ */
+const ECHO_SUPPRESS_MS = 100;
+
+/**
+ * スクロール位置の受け渡しを作成する
+ */
+export function createScrollSync(): ScrollSync {
+  const listeners: Record<ScrollSyncSource, Set<(line: number) => void>> = {
+    editor: new Set(),
+    preview: new Set(),
+  };
+  const suppressUntil: Record<ScrollSyncSource, number> = { editor: 0, preview: 0 };
+
+  return {
+    publish(source, line) {
+      if (Date.now() < suppressUntil[source]) {
+        return;
+      }
+
+      const target: ScrollSyncSource = source === 'editor' ? 'preview' : 'editor';
+      if (listeners[target].size === 0) {
+        return;
+      }
+      suppressUntil[target] = Date.now() + ECHO_SUPPRESS_MS;
+      listeners[target].forEach(listener => listener(line));
+    },
+    subscribe(target, listener) {
+      listeners[target].add(listener);
+      return () => {
+        listeners[target].delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * プレビュー内のソース行の位置
+ */
+export interface LineAnchor {
+  line: number;
+  offset: number; // プレビュー上の縦位置（px）
+}
+
+/**
+ * ソースの行番号をプレビュー上の位置に変換する（前後のアンカー間で線形補間）
+ *
+ * @param anchors 行番号の昇順のアンカー
+ * @param line ソースの行番号
+ * @param totalLines ソースの行数
+ * @param totalHeight プレビューの高さ
+ */
+export function lineToOffset(
+  anchors: LineAnchor[],
+  line: number,
+  totalLines: number,
+  totalHeight: number
+): number {
+  const points = [{ line: 0, offset: 0 }, ...anchors, { line: totalLines, offset: totalHeight }];
+
+  for (let i = points.length - 2; i >= 0; i--) {
+    const from = points[i];
+    const to = points[i + 1];
+    if (line >= from.line) {
+      const span = to.line - from.line;
+      const ratio = span > 0 ? Math.min((line - from.line) / span, 1) : 0;
+      return from.offset + (to.offset - from.offset) * ratio;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * プレビュー上の位置をソースの行番号に変換する（lineToOffsetの逆変換）
+ */
+export function offsetToLine(
+  anchors: LineAnchor[],
+  offset: number,
+  totalLines: number,
+  totalHeight: number
+): number {
+  const points = [{ line: 0, offset: 0 }, ...anchors, { line: totalLines, offset: totalHeight }];
+
+  for (let i = points.length - 2; i >= 0; i--) {
+    const from = points[i];
+    const to = points[i + 1];
+    if (offset >= from.offset) {
+      const span = to.offset - from.offset;
+      const ratio = span > 0 ? Math.min((offset - from.offset) / span, 1) : 0;
+      return from.line + (to.line - from.line) * ratio;
+    }
+  }
+
+  return 0;
+}
@@ -0,0 +1,87 @@
+/**
+ * Selection Edit Utility
+ * エディターの選択範囲に対するAI編集のユーティリティ
+ */
+
+import { EditorSelection } from '../types';
+
+/**
+ * 選択範囲に対するAIアクション
+ */
+export interface SelectionAction {
+  id: string;
+  label: string;
+  prompt: string;
+}
+
+/**
+ * 選択範囲に対して実行できる定型アクション
+ */
+export const SELECTION_ACTIONS: SelectionAction[] = [
+  {
+    id: 'rewrite',
+    label: '書き直す',
+    prompt: '選択範囲を、意味を変えずに読みやすく書き直してください。',
+  },
+  {
+    id: 'translate',
+    label: '翻訳',
+    prompt: '選択範囲を英語に翻訳してください（英語の場合は日本語に翻訳してください）。Markdownの書式は維持してください。',
+  },
+  {
+    id: 'summarize',
+    label: '要約',
+    prompt: '選択範囲を簡潔に要約してください。',
+  },
+  {
+    id: 'fix-table',
+    label: '表を修正',
+    prompt: '選択範囲のMarkdownの表を、列数と区切り行が揃った正しい形式に修正してください。',
+  },
+];
+
+/**
+ * 選択範囲を文書の範囲内に収める
+ */
+export function clampSelection(document: string, selection: EditorSelection): EditorSelection {
+  const start = Math.min(Math.max(selection.start, 0), document.length);
+  const end = Math.min(Math.max(selection.end, start), document.length);
+  return { start, end };
+}
+
+/**
+ * 選択範囲のテキストを取得する
+ */
+export function getSelectedText(document: string, selection: EditorSelection): string {
+  const { start, end } = clampSelection(document, selection);
+  return document.slice(start, end);
+}
+
+/**
+ * 選択範囲を置き換えた文書を返す
+ * 選択範囲の前後の空白・改行は元のまま残し、置き換え内容の前後の空白は取り除く
+ *
+ * @param document 元の文書
+ * @param selection 置き換える範囲
+ * @param replacement 置き換える内容（AI応答）
+ * @returns 置き換え後の文書
+ */
+export function spliceSelection(
+  document: string,
+  selection: EditorSelection,
+  replacement: string
+): string {
+  const { start, end } = clampSelection(document, selection);
+  const selected = document.slice(start, end);
+
+  const leading = selected.match(/^\s*/)![0];
+  const trailing = selected.slice(leading.length).match(/\s*$/)![0];
+
+  return (
+    document.slice(0, start) +
+    leading +
+    replacement.trim() +
+    trailing +
+    document.slice(end)
+  );
+}
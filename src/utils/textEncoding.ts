@@ -0,0 +1,55 @@
+/**
+ * Text Encoding Utility
+ * 読み込んだファイルの文字コードを判定してテキストに変換する
+ */
+
+/**
+ * 対応する文字コード
+ */
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'shift_jis';
+
+/**
+ * デコード結果
+ */
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+}
+
+/**
+ * バイト列の文字コードを判定する
+ * BOMがあればそれに従い、なければUTF-8として正しいかを調べ、正しくなければShift_JISとみなす
+ *
+ * @param bytes ファイルの内容
+ * @returns 判定した文字コード
+ */
+export function detectTextEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'shift_jis';
+  }
+}
+
+/**
+ * バイト列をテキストに変換する（BOMは取り除き、改行はLFに揃える）
+ *
+ * @param bytes ファイルの内容
+ * @returns テキストと判定した文字コード
+ */
+export function decodeText(bytes: Uint8Array): DecodedText {
+  const encoding = detectTextEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes).replace(/\r\n?/g, '\n');
+  return { text, encoding };
+}